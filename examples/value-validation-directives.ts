@@ -196,7 +196,7 @@ const tests = {
           arg: null,
           validationErrors: [
             {
-              message: 'String Length is More than 3',
+              message: 'String Length is More than 3 code units',
               path: ['arg'],
             },
           ],
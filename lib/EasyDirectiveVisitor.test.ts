@@ -487,4 +487,49 @@ enum CustomEnum {
       });
     });
   });
+  describe('visitSubscription()', (): void => {
+    it('keeps the subscription unchanged by default', (): void => {
+      class QueryOnlyDirective extends EasyDirectiveVisitor<
+        Record<string, never>,
+        Record<string, never>,
+        DirectiveLocation.QUERY | DirectiveLocation.MUTATION
+      > {
+        public static readonly config = {
+          locations: [DirectiveLocation.FIELD_DEFINITION],
+        } as const;
+
+        public static readonly defaultName = 'log';
+
+        // eslint-disable-next-line class-methods-use-this
+        public visitQuery(query: GraphQLObjectType): GraphQLObjectType {
+          return query;
+        }
+
+        // eslint-disable-next-line class-methods-use-this
+        public visitMutation(mutation: GraphQLObjectType): GraphQLObjectType {
+          return mutation;
+        }
+      }
+      const schema = makeExecutableSchema({
+        typeDefs: [
+          ...QueryOnlyDirective.getTypeDefs(),
+          gql`
+            type Query {
+              test: Int
+            }
+            type Mutation {
+              test: Int
+            }
+            type Subscription {
+              test: Int
+            }
+          `,
+        ],
+      });
+      const subscription = new QueryOnlyDirective()
+        .applyToSchema(schema)
+        .getSubscriptionType();
+      expect(subscription?.getFields().test.name).toBe('test');
+    });
+  });
 });
@@ -347,6 +347,14 @@ abstract class EasyDirectiveVisitor<
     throw new Error('Method not implemented.');
   }
 
+  // Called for fields using the directive, after their arguments
+  // are visited, to handle the arguments as a whole. Most directives
+  // do not need it, then it does nothing by default.
+  public visitFieldArguments(
+    field: GraphQLField<unknown, TContext>,
+    { objectType }: { objectType: GraphQLObjectType<any, any> },
+  ): void {}
+
   // istanbul ignore next (should be overridden and never reached)
   public visitObject(
     object: GraphQLInterfaceType | GraphQLObjectType<any, any>,
@@ -371,6 +379,16 @@ abstract class EasyDirectiveVisitor<
   ): GraphQLObjectType<any, TContext> {
     throw new Error('Method not implemented.');
   }
+
+  // Subscriptions were not visited by older versions, then existing
+  // directives that do not handle them keep it unchanged by default.
+  public visitSubscription(
+    subscription: GraphQLObjectType<any, TContext>,
+    schema: GraphQLSchema,
+    directiveName: string,
+  ): GraphQLObjectType<any, TContext> {
+    return subscription;
+  }
   /* eslint-enable class-methods-use-this, class-methods-use-this, @typescript-eslint/no-unused-vars, @typescript-eslint/no-explicit-any */
 
   public applyToSchema(schema: GraphQLSchema): GraphQLSchema {
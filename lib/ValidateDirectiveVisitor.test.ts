@@ -1,6 +1,8 @@
 import type {
   GraphQLArgument,
   GraphQLEnumType,
+  GraphQLField,
+  GraphQLInputObjectType,
   GraphQLInputType,
   GraphQLObjectType,
   GraphQLResolveInfo,
@@ -13,6 +15,7 @@ import {
   GraphQLInt,
   GraphQLList,
   GraphQLNonNull,
+  subscribe,
 } from 'graphql';
 import { gql } from 'graphql-tag';
 import { makeExecutableSchema } from '@graphql-tools/schema';
@@ -22,13 +25,18 @@ import type {
   ValidateFunction,
   ValidationDirectiveArgs,
 } from './ValidateDirectiveVisitor.js';
-import { ValidateDirectiveVisitorNonTyped } from './ValidateDirectiveVisitor.js';
+import {
+  addFieldArgumentsValidation,
+  addInputObjectValidation,
+  ValidateDirectiveVisitorNonTyped,
+} from './ValidateDirectiveVisitor.js';
 import {
   validationDirectivePolicyArgs,
   validationDirectionEnumTypeDefs,
 } from './test-utils.test.js';
 
 import capitalize from './capitalize.js';
+import validateArrayOrValue from './validateArrayOrValue.js';
 import ValidationError from './errors/ValidationError.js';
 import createSchemaMapperForVisitor from './createSchemaMapperForVisitor.js';
 
@@ -718,6 +726,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -753,6 +762,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -785,6 +795,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: 'someOption' },
             ['arg'],
+            { arg: 'someOption' },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -817,6 +828,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [value, 42] },
             ['arg'],
+            { arg: [value, 42] },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -849,6 +861,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [null, value] },
             ['arg'],
+            { arg: [null, value] },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -881,6 +894,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -913,6 +927,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: null },
             ['arg'],
+            { arg: null },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -945,6 +960,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [value, null] },
             ['arg'],
+            { arg: [value, null] },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -977,6 +993,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: null },
             ['arg'],
+            { arg: null },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -1045,6 +1062,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value, notValidated: 12 },
             ['arg'],
+            { arg: value, notValidated: 12 },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -1077,6 +1095,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { alsoValidated: 12, arg: value },
             ['arg'],
+            { alsoValidated: 12, arg: value },
           );
           expect(mockValidate).toBeCalledWith(
             12,
@@ -1091,6 +1110,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { alsoValidated: 12, arg: value },
             ['alsoValidated'],
+            { alsoValidated: 12, arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -1138,6 +1158,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [{ nonNullable: 1 }] },
             ['arg'],
+            { arg: [{ nonNullable: 1 }] },
           );
           // note: mockResolver is not called, it's a custom resolver
           // that is validated based on the result.
@@ -1172,6 +1193,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             { defaultResolver: 42 },
             { arg: value },
             ['arg'],
+            { arg: value },
           );
         });
 
@@ -1206,6 +1228,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockValidate).toBeCalledWith(
             value * 2,
@@ -1220,6 +1243,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value * 2 },
             ['arg'],
+            { arg: value * 2 },
           );
           expect(mockResolver).toBeCalledTimes(1);
         });
@@ -1272,6 +1296,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1307,6 +1332,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1346,6 +1372,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1385,6 +1412,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: 'someOption' },
             ['arg'],
+            { arg: 'someOption' },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1418,6 +1446,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [value, 42] },
             ['arg'],
+            { arg: [value, 42] },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1455,6 +1484,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [value, 42] },
             ['arg'],
+            { arg: [value, 42] },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1488,6 +1518,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [null, value] },
             ['arg'],
+            { arg: [null, value] },
           );
           expect(mockResolver).not.toBeCalled();
         });
@@ -1520,6 +1551,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value },
             ['arg'],
+            { arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
           expect(mockResolver).toBeCalledWith(
@@ -1562,6 +1594,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [value, null] },
             ['arg'],
+            { arg: [value, null] },
           );
           expect(mockResolver).toBeCalledTimes(1);
           expect(mockResolver).toBeCalledWith(
@@ -1602,6 +1635,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: value, notValidated: 12 },
             ['arg'],
+            { arg: value, notValidated: 12 },
           );
           expect(mockResolver).toBeCalledTimes(1);
           expect(mockResolver).toBeCalledWith(
@@ -1643,6 +1677,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { alsoValidated: 12, arg: value },
             ['arg'],
+            { alsoValidated: 12, arg: value },
           );
           expect(mockValidate).toBeCalledWith(
             12,
@@ -1657,6 +1692,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { alsoValidated: 12, arg: value },
             ['alsoValidated'],
+            { alsoValidated: 12, arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
           expect(mockResolver).toBeCalledWith(
@@ -1701,6 +1737,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { alsoValidated: 12, arg: value },
             ['arg'],
+            { alsoValidated: 12, arg: value },
           );
           expect(mockValidate).toBeCalledWith(
             12,
@@ -1715,6 +1752,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { alsoValidated: 12, arg: value },
             ['alsoValidated'],
+            { alsoValidated: 12, arg: value },
           );
           expect(mockResolver).toBeCalledTimes(1);
           expect(mockResolver).toBeCalledWith(
@@ -1790,6 +1828,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
             undefined,
             { arg: [{ nonNullable: 1 }] },
             ['arg'],
+            { arg: [{ nonNullable: 1 }] },
           );
           // note: mockResolver is not called, it's a custom resolver
           // that is validated based on the result.
@@ -1926,6 +1965,740 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
     });
   });
 
+  describe('asynchronous validation', (): void => {
+    let running = 0;
+    let maxRunning = 0;
+    const asyncValidate = async (x: unknown): Promise<unknown> => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => {
+        setImmediate(resolve);
+      });
+      running -= 1;
+      if (typeof x !== 'number') return x;
+      if (x < 0) throw new ValidationError(`negative: ${x}`);
+      return x * 2;
+    };
+    const mockResolver = jest.fn(
+      (_, args, __, { validationErrors = null }) => ({
+        args: JSON.stringify(args),
+        validationErrors,
+      }),
+    );
+
+    class TestDirective extends ValidateDirectiveVisitorNonTyped {
+      public static defaultName = name;
+
+      public static readonly config = {
+        ...ValidateDirectiveVisitorNonTyped.config,
+        args: {
+          validate: {
+            defaultValue: true,
+            description: 'if true does validation',
+            type: new GraphQLNonNull(GraphQLBoolean),
+          },
+        },
+      };
+
+      // eslint-disable-next-line class-methods-use-this
+      public getValidationForArgs(): ValidateFunction | undefined {
+        return validateArrayOrValue(asyncValidate);
+      }
+    }
+
+    const schema = new TestDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            argsTest: mockResolver,
+            inputTest: mockResolver,
+            output: (): number => 21,
+            throwTest: mockResolver,
+          },
+        },
+        typeDefs: [
+          ...basicTypeDefs,
+          gql`
+            type AsyncResult {
+              args: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            input AsyncInput {
+              a: Int @${name}
+              b: Int @${name}
+              list: [Int] @${name}
+            }
+            type Query {
+              argsTest(a: Int @${name}, b: Int @${name}): AsyncResult
+              inputTest(input: AsyncInput): AsyncResult
+              throwTest(
+                a: Int @${name}(policy: THROW)
+                b: Int @${name}
+              ): AsyncResult
+              output: Int @${name}
+            }
+          `,
+        ],
+      }),
+    );
+
+    beforeEach((): void => {
+      running = 0;
+      maxRunning = 0;
+      mockResolver.mockClear();
+    });
+
+    it('awaits arguments and validates siblings concurrently', async (): Promise<void> => {
+      const source = print(gql`
+        query {
+          argsTest(a: 1, b: 2) {
+            args
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `);
+      const result = await graphql({ schema, source });
+      expect(result).toEqual({
+        data: {
+          argsTest: {
+            args: JSON.stringify({ a: 2, b: 4 }),
+            validationErrors: null,
+          },
+        },
+      });
+      expect(maxRunning).toBe(2);
+    });
+
+    it('awaits input objects and lists', async (): Promise<void> => {
+      const source = print(gql`
+        query {
+          inputTest(input: { a: 1, b: -2, list: [3, -4] }) {
+            args
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `);
+      const result = await graphql({ schema, source });
+      expect(result).toEqual({
+        data: {
+          inputTest: {
+            args: JSON.stringify({
+              input: { a: 2, b: null, list: null },
+            }),
+            validationErrors: [
+              { message: 'negative: -2', path: ['input', 'b'] },
+              { message: 'negative: -4', path: ['input', 'list'] },
+            ],
+          },
+        },
+      });
+    });
+
+    it('collects errors with THROW policy', async (): Promise<void> => {
+      const source = print(gql`
+        query {
+          throwTest(a: -1, b: -2) {
+            args
+          }
+        }
+      `);
+      const result = await graphql({ schema, source });
+      const expectedError = new ValidationError('negative: -1');
+      expectedError.extensions.validation = {
+        path: ['a'],
+        properties: undefined,
+      };
+      expectedError.locations = [{ column: 3, line: 2 }];
+      expectedError.path = ['throwTest'];
+      expect(result).toEqual({
+        data: { throwTest: null },
+        errors: [expectedError],
+      });
+      expect(mockResolver).not.toBeCalled();
+    });
+
+    it('awaits output validation', async (): Promise<void> => {
+      const source = print(gql`
+        query {
+          output
+        }
+      `);
+      const result = await graphql({ schema, source });
+      expect(result).toEqual({ data: { output: 42 } });
+    });
+  });
+
+  describe('subscription validation', (): void => {
+    const validate = (x: unknown): unknown => {
+      if (typeof x !== 'number') return x;
+      if (x < 0) throw new ValidationError(`negative: ${x}`);
+      return x * 2;
+    };
+    const mockSubscribe = jest.fn(async function* (
+      _,
+      { start },
+    ): AsyncGenerator<object> {
+      yield { counter: start };
+      yield { counter: start + 1 };
+    });
+
+    class TestDirective extends ValidateDirectiveVisitorNonTyped {
+      public static defaultName = name;
+
+      // eslint-disable-next-line class-methods-use-this
+      public getValidationForArgs(): ValidateFunction | undefined {
+        return validate;
+      }
+    }
+
+    const schema = new TestDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Subscription: {
+            counter: { subscribe: mockSubscribe },
+          },
+        },
+        typeDefs: [
+          ...basicTypeDefs,
+          gql`
+            type Query {
+              dummy: Int
+            }
+            type Subscription {
+              counter(start: Int! @${name}(policy: THROW)): Int @${name}
+            }
+          `,
+        ],
+      }),
+    );
+
+    beforeEach((): void => {
+      mockSubscribe.mockClear();
+    });
+
+    it('validates arguments on subscribe and each payload', async (): Promise<void> => {
+      const result = await subscribe({
+        document: gql`
+          subscription {
+            counter(start: 1)
+          }
+        `,
+        schema,
+      });
+      const iterator = result as AsyncGenerator<unknown>;
+      expect(await iterator.next()).toEqual({
+        done: false,
+        value: { data: { counter: 4 } },
+      });
+      expect(await iterator.next()).toEqual({
+        done: false,
+        value: { data: { counter: 6 } },
+      });
+      expect(mockSubscribe).toBeCalledTimes(1);
+      expect(mockSubscribe.mock.calls[0][1]).toEqual({ start: 2 });
+    });
+
+    it('does not subscribe if arguments are invalid', async (): Promise<void> => {
+      const result = await subscribe({
+        document: gql`
+          subscription {
+            counter(start: -1)
+          }
+        `,
+        schema,
+      });
+      const expectedError = new ValidationError('negative: -1');
+      expectedError.extensions.validation = {
+        path: ['start'],
+        properties: undefined,
+      };
+      expectedError.locations = [{ column: 3, line: 2 }];
+      expectedError.path = ['counter'];
+      expect(result).toEqual({ errors: [expectedError] });
+      expect(mockSubscribe).not.toBeCalled();
+    });
+
+    it('gives the validated arguments to resolve', async (): Promise<void> => {
+      const received: unknown[] = [];
+      const echoSchema = new TestDirective().applyToSchema(
+        makeExecutableSchema({
+          resolvers: {
+            Subscription: {
+              echo: {
+                resolve: (
+                  { echo },
+                  args,
+                  _,
+                  { validationErrors }: ValidationErrorsResolverInfo,
+                ): number => {
+                  received.push({ args, validationErrors });
+                  return echo;
+                },
+                async *subscribe(): AsyncGenerator<object> {
+                  yield { echo: 1 };
+                },
+              },
+            },
+          },
+          typeDefs: [
+            ...basicTypeDefs,
+            gql`
+              type Query {
+                dummy: Int
+              }
+              type Subscription {
+                echo(a: Int @${name}, b: Int @${name}(policy: RESOLVER)): Int
+              }
+            `,
+          ],
+        }),
+      );
+      const iterator = (await subscribe({
+        document: gql`
+          subscription {
+            echo(a: 1, b: -1)
+          }
+        `,
+        schema: echoSchema,
+      })) as AsyncGenerator<unknown>;
+      expect(await iterator.next()).toEqual({
+        done: false,
+        value: { data: { echo: 1 } },
+      });
+      expect(received).toEqual([
+        {
+          args: { a: 2, b: null },
+          validationErrors: [
+            {
+              error: new ValidationError('negative: -1'),
+              message: 'negative: -1',
+              path: ['b'],
+            },
+          ],
+        },
+      ]);
+    });
+
+    describe('validation before the resolver', (): void => {
+      class BeforeTestDirective extends ValidateDirectiveVisitorNonTyped {
+        public static defaultName = name;
+
+        public readonly applyValidationToOutputTypesAfterOriginalResolver =
+          false;
+
+        public getValidationForArgs():
+          | ValidateFunction<{ allowed: boolean }>
+          | undefined {
+          if (!this.args.validate) return undefined;
+          return (
+            value: unknown,
+            _: unknown,
+            __: unknown,
+            { allowed }: { allowed: boolean },
+          ): unknown => {
+            if (!allowed) throw new ValidationError('not allowed');
+            return value;
+          };
+        }
+      }
+
+      const beforeSchema = new BeforeTestDirective().applyToSchema(
+        makeExecutableSchema({
+          typeDefs: [
+            ...basicTypeDefs,
+            gql`
+              type Query {
+                dummy: Int
+              }
+              type Subscription {
+                guarded: Int @${name}
+                notValidated: Int @${name}(validate: false)
+                plain: Int
+              }
+            `,
+          ],
+        }),
+      );
+
+      const createRootValue = (): object => {
+        const generate = async function* (): AsyncGenerator<object> {
+          yield { guarded: 1, notValidated: 2, plain: 3 };
+        };
+        return {
+          guarded: generate,
+          notValidated: generate,
+          plain: generate,
+        };
+      };
+
+      it('validates before subscribe', async (): Promise<void> => {
+        const result = await subscribe({
+          contextValue: { allowed: false },
+          document: gql`
+            subscription {
+              guarded
+            }
+          `,
+          rootValue: createRootValue(),
+          schema: beforeSchema,
+        });
+        expect(result).toEqual({
+          errors: [new ValidationError('not allowed')],
+        });
+      });
+
+      ['guarded', 'notValidated', 'plain'].forEach((fieldName, i): void => {
+        it(`subscribes to ${fieldName} if allowed`, async (): Promise<void> => {
+          const result = (await subscribe({
+            contextValue: { allowed: true },
+            document: gql`
+              subscription {
+                ${fieldName}
+              }
+            `,
+            rootValue: createRootValue(),
+            schema: beforeSchema,
+          })) as AsyncGenerator<unknown>;
+          expect(await result.next()).toEqual({
+            done: false,
+            value: { data: { [fieldName]: i + 1 } },
+          });
+        });
+      });
+    });
+  });
+
+  describe('input object discovery', (): void => {
+    const mockResolver = jest.fn((_, { arg }): number => arg.n);
+
+    class TestDirective extends ValidateDirectiveVisitorNonTyped {
+      public static defaultName = name;
+
+      // eslint-disable-next-line class-methods-use-this
+      public getValidationForArgs(): ValidateFunction {
+        return (x: unknown): unknown => (typeof x === 'number' ? x * 2 : x);
+      }
+    }
+
+    beforeEach((): void => {
+      mockResolver.mockClear();
+    });
+
+    it('validates mutation-only inputs regardless of types order', async (): Promise<void> => {
+      const visitInputFieldDefinition = jest.spyOn(
+        TestDirective.prototype,
+        'visitInputFieldDefinition',
+      );
+      const schema = new TestDirective().applyToSchema(
+        makeExecutableSchema({
+          resolvers: {
+            Mutation: { mutationTest: mockResolver },
+            Subscription: { subscriptionTest: { subscribe: jest.fn() } },
+          },
+          typeDefs: [
+            ...basicTypeDefs,
+            gql`
+              type Mutation {
+                mutationTest(arg: MutationInput): Int
+              }
+              type Subscription {
+                subscriptionTest(arg: MutationInput): Int
+              }
+              input MutationInput {
+                n: Int @${name}
+              }
+              type Query {
+                dummy: Int
+              }
+            `,
+          ],
+        }),
+      );
+      expect(visitInputFieldDefinition).toBeCalledTimes(1);
+      visitInputFieldDefinition.mockRestore();
+
+      const result = await graphql({
+        schema,
+        source: print(gql`
+          mutation {
+            mutationTest(arg: { n: 21 })
+          }
+        `),
+      });
+      expect(result).toEqual({ data: { mutationTest: 42 } });
+    });
+
+    it('throws if input is used by a field that is not validated', (): void => {
+      expect(() =>
+        new TestDirective().applyToSchema(
+          makeExecutableSchema({
+            typeDefs: [
+              ...basicTypeDefs,
+              gql`
+                input NestedInput {
+                  n: Int @${name}
+                }
+                type Nested {
+                  notValidated(arg: [NestedInput!]): Int
+                  validated(arg: NestedInput, other: Int @${name}): Int
+                }
+                type Query {
+                  nested: Nested
+                }
+              `,
+            ],
+          }),
+        ),
+      ).toThrow(
+        new Error(
+          `Nested.notValidated(arg:) uses NestedInput that requires @${name} validation, but it is not validated`,
+        ),
+      );
+    });
+
+    it('throws if the field directive does not validate the arguments', (): void => {
+      expect(() =>
+        new TestDirective().applyToSchema(
+          makeExecutableSchema({
+            typeDefs: [
+              ...basicTypeDefs,
+              gql`
+                input NestedInput {
+                  n: Int @${name}
+                }
+                type Nested {
+                  output(arg: NestedInput): Int @${name}
+                }
+                type Query {
+                  nested: Nested
+                }
+              `,
+            ],
+          }),
+        ),
+      ).toThrow(
+        new Error(
+          `Nested.output(arg:) uses NestedInput that requires @${name} validation, but it is not validated`,
+        ),
+      );
+    });
+  });
+
+  describe('whole input object validation', (): void => {
+    const mockValidate = jest.fn();
+    const mockResolver = jest.fn(
+      (_, { arg }, __, { validationErrors }: ValidationErrorsResolverInfo) => ({
+        arg: JSON.stringify(arg),
+        validationErrors,
+      }),
+    );
+
+    class TestDirective extends ValidateDirectiveVisitorNonTyped {
+      public static defaultName = name;
+
+      // eslint-disable-next-line class-methods-use-this
+      public getValidationForArgs(): ValidateFunction {
+        return mockValidate;
+      }
+
+      public visitInputObject(object: GraphQLInputObjectType): void {
+        addInputObjectValidation(
+          object,
+          this.getValidationForArgs(),
+          this.args.policy,
+        );
+      }
+    }
+
+    const schema = new TestDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: { Query: { test: mockResolver } },
+        typeDefs: [
+          ...basicTypeDefs,
+          gql`
+            input TestInput @${name} {
+              n: Int
+            }
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: TestInput): Result
+            }
+          `,
+        ],
+      }),
+    );
+    const source = print(gql`
+      query {
+        test(arg: { n: 1 }) {
+          arg
+          validationErrors {
+            message
+            path
+          }
+        }
+      }
+    `);
+
+    beforeEach((): void => {
+      mockValidate.mockReset();
+      mockResolver.mockClear();
+    });
+
+    it('replaces the object with the validated value', async (): Promise<void> => {
+      mockValidate.mockImplementation(async (obj: { n: number }) => ({
+        n: obj.n * 2,
+      }));
+      expect(await graphql({ schema, source })).toEqual({
+        data: { test: { arg: '{"n":2}', validationErrors: null } },
+      });
+      expect(mockValidate).toBeCalledTimes(1);
+    });
+
+    it('reports errors at the object path', async (): Promise<void> => {
+      mockValidate.mockImplementation((): void => {
+        throw new ValidationError('invalid object');
+      });
+      expect(await graphql({ schema, source })).toEqual({
+        data: {
+          test: {
+            arg: 'null',
+            validationErrors: [{ message: 'invalid object', path: ['arg'] }],
+          },
+        },
+      });
+    });
+
+    it('reports undefined as an error', async (): Promise<void> => {
+      mockValidate.mockReturnValue(undefined);
+      expect(await graphql({ schema, source })).toEqual({
+        data: {
+          test: {
+            arg: 'null',
+            validationErrors: [
+              { message: 'validation returned undefined', path: ['arg'] },
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe('field arguments validation', (): void => {
+    const mockValidate = jest.fn();
+    const mockResolver = jest.fn(
+      (args, { validationErrors }: ValidationErrorsResolverInfo) => ({
+        args: JSON.stringify(args),
+        validationErrors,
+      }),
+    );
+
+    class TestDirective extends ValidateDirectiveVisitorNonTyped {
+      public static defaultName = name;
+
+      // eslint-disable-next-line class-methods-use-this
+      public getValidationForArgs(): ValidateFunction {
+        return (x: unknown): unknown => x;
+      }
+
+      public visitFieldArguments(field: GraphQLField<unknown, object>): void {
+        addFieldArgumentsValidation(
+          field,
+          mockValidate,
+          ValidateDirectiveVisitorNonTyped.validationErrorsArgumentName,
+          this.args.policy,
+        );
+      }
+
+      // eslint-disable-next-line class-methods-use-this
+      public visitFieldDefinition(): void {}
+    }
+
+    const schema = new TestDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            test: (_, args, __, info): object => mockResolver(args, info),
+          },
+        },
+        typeDefs: [
+          ...basicTypeDefs,
+          gql`
+            type Result {
+              args: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(n: Int @${name}): Result @${name}
+            }
+          `,
+        ],
+      }),
+    );
+    const source = print(gql`
+      query {
+        test(n: 1) {
+          args
+          validationErrors {
+            message
+            path
+          }
+        }
+      }
+    `);
+
+    beforeEach((): void => {
+      mockValidate.mockReset();
+      mockResolver.mockClear();
+    });
+
+    it('replaces the arguments with the validated value', async (): Promise<void> => {
+      mockValidate.mockImplementation(async (args: { n: number }) => ({
+        n: args.n * 2,
+      }));
+      expect(await graphql({ schema, source })).toEqual({
+        data: { test: { args: '{"n":2}', validationErrors: null } },
+      });
+      expect(mockValidate).toBeCalledTimes(1);
+    });
+
+    it('keeps the arguments on errors', async (): Promise<void> => {
+      mockValidate.mockImplementation((): void => {
+        throw new ValidationError('invalid arguments');
+      });
+      expect(await graphql({ schema, source })).toEqual({
+        data: {
+          test: {
+            args: '{"n":1}',
+            validationErrors: [{ message: 'invalid arguments', path: [] }],
+          },
+        },
+      });
+    });
+
+    it('reports undefined as an error', async (): Promise<void> => {
+      mockValidate.mockReturnValue(undefined);
+      expect(await graphql({ schema, source })).toEqual({
+        data: {
+          test: {
+            args: '{"n":1}',
+            validationErrors: [
+              { message: 'validation returned undefined', path: [] },
+            ],
+          },
+        },
+      });
+    });
+  });
+
   describe('input object validation', (): void => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const mockValidate = jest.fn((x: unknown): any => {
@@ -2043,6 +2816,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
         undefined,
         { arg: [{ nonNullable: value, notValidated: 42 }] },
         ['arg', '0', 'nonNullable'],
+        { nonNullable: value, notValidated: 42 },
       );
       expect(mockResolver).toBeCalledTimes(1);
     });
@@ -2143,6 +2917,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
           other: { list: [1] },
         },
         ['arg', '0', 'nullable'],
+        { nullable: value, nullableString: null },
       );
       expect(mockValidate).toBeCalledWith(
         { list: [1] },
@@ -2160,6 +2935,10 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
           other: { list: [1] },
         },
         ['other'],
+        {
+          arg: [{ nullable: value, nullableString: null }],
+          other: { list: [1] },
+        },
       );
       expect(mockResolver).toBeCalledTimes(1);
     });
@@ -2243,6 +3022,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
         undefined,
         { arg: { value } },
         ['arg', 'value'],
+        { value },
       );
       expect(mockValidate).toBeCalledWith(
         value * 2,
@@ -2253,6 +3033,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
         undefined,
         { arg: { value } },
         ['arg', 'value'],
+        { value },
       );
       expect(mockValidate).toBeCalledWith(
         { value },
@@ -2263,6 +3044,7 @@ ${validationDirectionEnumTypeDefs(capitalizedName)}
         undefined,
         { arg: { value } },
         ['arg'],
+        { arg: { value } },
       );
       expect(mockResolver).toBeCalledTimes(1);
     });
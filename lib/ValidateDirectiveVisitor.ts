@@ -9,6 +9,7 @@ import {
   GraphQLScalarType,
   GraphQLString,
   isInputObjectType,
+  isObjectType,
 } from 'graphql';
 import type {
   DocumentNode,
@@ -32,6 +33,7 @@ import EasyDirectiveVisitor, {
 
 import capitalize from './capitalize.js';
 import ValidationError from './errors/ValidationError.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
 
 export enum ValidateDirectivePolicy {
   RESOLVER = 'RESOLVER',
@@ -65,6 +67,10 @@ export type ValidateFunction<TContext = object> = {
     resolverSource: unknown,
     resolverArgs: AnyObject,
     path?: Array<string>,
+    // the value of the input object (or field arguments) containing the
+    // validated input value, as received before its entries are validated.
+    // Use it to access sibling values. Not given for output values.
+    parent?: AnyObject,
   ): unknown;
   readonly validateProperties?: ValidateFunctionProperties;
 };
@@ -77,9 +83,18 @@ export type ValidatedArgumentsGraphQLField<TContext = object> = GraphQLField<
   unknown,
   TContext
 > &
-  ValidatedContainerMustValidateInput;
-export type ValidatedGraphQLInputObjectType = GraphQLInputObjectType &
-  ValidatedContainerMustValidateInput;
+  ValidatedContainerMustValidateInput &
+  // validation and policy of the arguments as a whole,
+  // see addFieldArgumentsValidation()
+  ValidatedEntryExtension<TContext> & {
+    // subscription root fields validate their arguments when the
+    // subscription starts, as well as on every emitted payload
+    validateArgumentsOnSubscribe?: boolean;
+  };
+export type ValidatedGraphQLInputObjectType<TContext = object> =
+  GraphQLInputObjectType &
+    ValidatedContainerMustValidateInput &
+    ValidatedEntryExtension<TContext>;
 
 type ValidatedEntryExtension<TContext = object> = {
   validation?: ValidateFunction<TContext>;
@@ -98,7 +113,7 @@ export type ValidatedGraphQLInputField<TContext = object> = GraphQLInputField &
   ValidatedEntryExtension<TContext>;
 
 type ValidatedContainer<TContext> =
-  | ValidatedGraphQLInputObjectType
+  | ValidatedGraphQLInputObjectType<TContext>
   | ValidatedArgumentsGraphQLField<TContext>;
 type ValidatedEntry<TContext = object> =
   | ValidatedGraphQLInputField<TContext>
@@ -121,7 +136,7 @@ type ValidatedEntry<TContext = object> =
  */
 export const addContainerEntryValidation = <TContext>(
   container: ValidatedContainer<TContext>,
-  entry: ValidatedEntry<TContext>,
+  entry: ValidatedEntry<TContext> | ValidatedContainer<TContext>,
   validate: ValidateFunction<TContext> | undefined,
   policy: ValidateDirectivePolicy | undefined,
 ): void => {
@@ -142,8 +157,8 @@ export const addContainerEntryValidation = <TContext>(
 
   let validation: ValidateFunction<TContext> = validate;
   if (previousValidation !== undefined) {
-    validation = (value: unknown, ...rest): unknown =>
-      validate(previousValidation(value, ...rest), ...rest);
+    validation = async (value: unknown, ...rest): Promise<unknown> =>
+      validate(await previousValidation(value, ...rest), ...rest);
     Object.defineProperty(validation, 'validateProperties', {
       value: {
         ...validate.validateProperties,
@@ -157,6 +172,26 @@ export const addContainerEntryValidation = <TContext>(
   entry.validation = validation;
 };
 
+/**
+ * Mark the input object as requiring validation and add a validation
+ * function that receives the whole input object value, after its fields
+ * were validated. If a previous validation exists, then it will be called
+ * before the given validation function is called!
+ *
+ * The validation may throw `InputFieldValidationError` to report which
+ * field caused the error.
+ *
+ * @param object the input object to be validated as a whole.
+ * @param validate the input object validation function.
+ * @param policy how to handle the validation errors.
+ */
+export const addInputObjectValidation = <TContext>(
+  object: ValidatedGraphQLInputObjectType<TContext>,
+  validate: ValidateFunction<TContext>,
+  policy: ValidateDirectivePolicy | undefined,
+): void =>
+  addContainerEntryValidation<TContext>(object, object, validate, policy);
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyObject = { [key: string]: any };
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -236,70 +271,175 @@ const checkMustValidateInput = (
   return false;
 };
 
+type ContainerEntryDefinition<TContext> = {
+  entry: number | string;
+  type: GraphQLInputType;
+  validation: ValidateFunction<TContext> | undefined;
+  containerType: GraphQLArgument | GraphQLInputObjectType | GraphQLObjectType;
+  policy: ValidateDirectivePolicy | undefined;
+};
+
+type ContainerEntryResult = {
+  entryErrors: ValidatedInputError[];
+  failed: boolean;
+  value: unknown;
+};
+
+const isErrorRegistered = (
+  registered: ValidatedInputError[],
+  error: Error,
+): boolean => !!registered.find(entry => entry.error === error);
+
+// Validates the given container entries concurrently, so asynchronous
+// validations of siblings do not wait on each other. Errors are
+// registered and failures are re-thrown in the entries order, making the
+// outcome the same as if the entries were validated sequentially.
+//
 // it does not modifies `container` in-place if the validated value changed!
-const validateContainerEntry = <TContext>(
+const validateContainerEntries = async <TContext>(
   container: AnyObject,
-  entry: number | string,
-  type: GraphQLInputType,
-  validation: ValidateFunction<TContext> | undefined,
+  entries: ContainerEntryDefinition<TContext>[],
   path: string[],
   errors: ValidatedInputError[],
-  containerType: GraphQLArgument | GraphQLInputObjectType | GraphQLObjectType,
   fieldResolveParameters: ResolverParameters<TContext>,
-  policy: ValidateDirectivePolicy | undefined,
-): AnyObject => {
+): Promise<AnyObject> => {
   // istanbul ignore if  (shouldn't reach)
   if (!container) return container;
-  const originalValue = container[entry];
-  // eslint-disable-next-line @typescript-eslint/no-use-before-define
-  const validatedValue = validateEntryValue(
-    originalValue,
-    type,
-    validation,
-    path.concat([entry.toString()]),
-    errors,
-    containerType,
-    fieldResolveParameters,
-    policy,
+
+  const results = await Promise.all(
+    entries.map(
+      async ({
+        entry,
+        type,
+        validation,
+        containerType,
+        policy,
+      }): Promise<ContainerEntryResult> => {
+        const entryErrors: ValidatedInputError[] = [];
+        try {
+          // eslint-disable-next-line @typescript-eslint/no-use-before-define
+          const value = await validateEntryValue(
+            container[entry],
+            type,
+            validation,
+            path.concat([entry.toString()]),
+            entryErrors,
+            containerType,
+            fieldResolveParameters,
+            policy,
+            container,
+          );
+          return { entryErrors, failed: false, value };
+        } catch (error) {
+          return { entryErrors, failed: true, value: error };
+        }
+      },
+    ),
   );
-  if (validatedValue !== originalValue) {
-    if (Array.isArray(container)) {
-      const arrayCpy = [...container];
-      arrayCpy[entry as number] = validatedValue;
-      return arrayCpy;
+
+  let validatedContainer = container;
+  let failure: ContainerEntryResult | undefined;
+  results.forEach((result, i): void => {
+    const { entryErrors, failed, value } = result;
+    entryErrors.forEach(entryError => {
+      if (!isErrorRegistered(errors, entryError.error)) {
+        errors.push(entryError);
+      }
+    });
+    if (failed) {
+      if (!failure) failure = result;
+      return;
     }
-    return {
-      ...container,
-      [entry]: validatedValue,
-    };
+    const { entry } = entries[i];
+    if (value !== container[entry]) {
+      if (validatedContainer === container) {
+        validatedContainer = Array.isArray(container)
+          ? [...container]
+          : { ...container };
+      }
+      validatedContainer[entry] = value;
+    }
+  });
+
+  if (failure) {
+    throw failure.value;
+  }
+  return validatedContainer;
+};
+
+// Applies the validation of the arguments as a whole, see
+// addFieldArgumentsValidation(). There is no value to be replaced
+// with `null`, then unless the policy says to throw, the arguments are
+// kept and the resolver must check the `validationErrors`
+const validateWholeFieldArguments = async <TContext>(
+  args: AnyObject,
+  field: ValidatedArgumentsGraphQLField<TContext>,
+  errors: ValidatedInputError[],
+  fieldResolveParameters: ResolverParameters<TContext>,
+): Promise<AnyObject> => {
+  const { validation, policy } = field;
+  if (!validation) return args;
+
+  try {
+    const value = await validation(
+      args,
+      field.type,
+      fieldResolveParameters.info.parentType,
+      fieldResolveParameters.context,
+      fieldResolveParameters.info,
+      fieldResolveParameters.source,
+      fieldResolveParameters.args,
+      [],
+    );
+    if (value === undefined) {
+      // mimics `GraphQLScalarType.serialize()` behavior
+      throw new ValidationError('validation returned undefined');
+    }
+    return value as AnyObject;
+  } catch (ex) {
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    handleValidationError(
+      ex,
+      false,
+      validation,
+      ex instanceof InputFieldValidationError ? [ex.field] : [],
+      errors,
+      policy,
+    );
+    return args;
   }
-  return container;
 };
 
 // it will not change the fieldResolveParameters args in-place!
-const validateFieldArguments = <TContext>(
+const validateFieldArguments = async <TContext>(
   fieldResolveParameters: ResolverParameters<TContext>,
-  definitions: readonly GraphQLArgument[],
+  field: ValidatedArgumentsGraphQLField<TContext>,
   validationErrorsArgumentName: string,
-): AnyObject => {
-  let validatedArgs = fieldResolveParameters.args;
-  const path: string[] = [];
+): Promise<AnyObject> => {
   const errors: ValidatedInputError[] =
     fieldResolveParameters.info[validationErrorsArgumentName] || [];
-  definitions.forEach((arg: ValidatedGraphQLArgument<TContext>): void => {
-    const { name, type, validation, policy } = arg;
-    validatedArgs = validateContainerEntry(
-      validatedArgs,
-      name,
-      type,
-      validation,
-      path,
+  const validatedArgs = await validateWholeFieldArguments(
+    await validateContainerEntries(
+      fieldResolveParameters.args,
+      field.args.map(
+        (
+          arg: ValidatedGraphQLArgument<TContext>,
+        ): ContainerEntryDefinition<TContext> => ({
+          containerType: arg,
+          entry: arg.name,
+          policy: arg.policy,
+          type: arg.type,
+          validation: arg.validation,
+        }),
+      ),
+      [],
       errors,
-      arg,
       fieldResolveParameters,
-      policy,
-    );
-  });
+    ),
+    field,
+    errors,
+    fieldResolveParameters,
+  );
 
   // eslint-disable-next-line no-param-reassign
   fieldResolveParameters.info[validationErrorsArgumentName] =
@@ -307,45 +447,98 @@ const validateFieldArguments = <TContext>(
   return validatedArgs;
 };
 
-// it will not change the object in-place!
-const validateInputObject = <TContext>(
+// Applies the validation of the input object as a whole, see
+// addInputObjectValidation()
+const validateWholeInputObject = async <TContext>(
   obj: AnyObject,
-  objectType: ValidatedGraphQLInputObjectType,
+  objectType: ValidatedGraphQLInputObjectType<TContext>,
+  type: GraphQLInputType,
   path: string[],
   errors: ValidatedInputError[],
   fieldResolveParameters: ResolverParameters<TContext>,
-): AnyObject => {
-  let validatedObj = obj;
-  if (!checkMustValidateInput(objectType) && !containsNonNull(objectType)) {
-    return validatedObj;
-  }
+  parent: AnyObject,
+): Promise<unknown> => {
+  const { validation, policy } = objectType;
+  if (!validation) return obj;
 
-  Object.values(objectType.getFields()).forEach(
-    ({
-      name,
+  try {
+    const value = await validation(
+      obj,
       type,
+      objectType,
+      fieldResolveParameters.context,
+      fieldResolveParameters.info,
+      fieldResolveParameters.source,
+      fieldResolveParameters.args,
+      path,
+      parent,
+    );
+    if (value === undefined) {
+      // mimics `GraphQLScalarType.serialize()` behavior
+      throw new ValidationError('validation returned undefined');
+    }
+    return value;
+  } catch (ex) {
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    return handleValidationError(
+      ex,
+      type instanceof GraphQLNonNull,
       validation,
+      ex instanceof InputFieldValidationError ? path.concat([ex.field]) : path,
+      errors,
       policy,
-    }: ValidatedGraphQLInputField<TContext>): void => {
-      validatedObj = validateContainerEntry(
-        validatedObj,
+    );
+  }
+};
+
+// it will not change the object in-place!
+const validateInputObject = async <TContext>(
+  obj: AnyObject,
+  objectType: ValidatedGraphQLInputObjectType<TContext>,
+  originalType: GraphQLInputType,
+  path: string[],
+  errors: ValidatedInputError[],
+  fieldResolveParameters: ResolverParameters<TContext>,
+  parent: AnyObject,
+): Promise<unknown> => {
+  if (!checkMustValidateInput(objectType) && !containsNonNull(objectType)) {
+    return obj;
+  }
+
+  const validatedObj = await validateContainerEntries(
+    obj,
+    Object.values(objectType.getFields()).map(
+      ({
         name,
         type,
         validation,
-        path,
-        errors,
-        objectType,
-        fieldResolveParameters,
         policy,
-      );
-    },
+      }: ValidatedGraphQLInputField<TContext>): ContainerEntryDefinition<TContext> => ({
+        containerType: objectType,
+        entry: name,
+        policy,
+        type,
+        validation,
+      }),
+    ),
+    path,
+    errors,
+    fieldResolveParameters,
   );
 
-  return validatedObj;
+  return validateWholeInputObject(
+    validatedObj,
+    objectType,
+    originalType,
+    path,
+    errors,
+    fieldResolveParameters,
+    parent,
+  );
 };
 
 // it will not change the array in-place!
-const validateList = <TContext>(
+const validateList = async <TContext>(
   array: AnyArray,
   itemType: GraphQLInputType & ValidatedContainerMustValidateInput,
   path: string[],
@@ -354,28 +547,26 @@ const validateList = <TContext>(
   mustValidateInput: boolean | undefined,
   fieldResolveParameters: ResolverParameters<TContext>,
   policy: ValidateDirectivePolicy | undefined,
-): AnyArray => {
-  let validatedArray = array;
+): Promise<AnyArray> => {
   if (!mustValidateInput && !containsNonNull(itemType)) {
-    return validatedArray;
-  }
-
-  const { length } = validatedArray;
-  for (let i = 0; i < length; i += 1) {
-    validatedArray = validateContainerEntry(
-      validatedArray,
-      i,
-      itemType,
-      undefined,
-      path,
-      errors,
-      container,
-      fieldResolveParameters,
-      policy,
-    ) as AnyArray;
+    return array;
   }
 
-  return validatedArray;
+  return validateContainerEntries(
+    array,
+    array.map(
+      (_, i): ContainerEntryDefinition<TContext> => ({
+        containerType: container,
+        entry: i,
+        policy,
+        type: itemType,
+        validation: undefined,
+      }),
+    ),
+    path,
+    errors,
+    fieldResolveParameters,
+  ) as Promise<AnyArray>;
 };
 
 const validateNonNull = (value: unknown, type: GraphQLInputType): unknown => {
@@ -396,7 +587,7 @@ type Container = (
 // See validateEntryValue() for the version that tries
 // to catch and replace with `null` if nullable, then
 // appends to errors.
-const validateEntryValueThrowing = <TContext>(
+const validateEntryValueThrowing = async <TContext>(
   originalValue: unknown,
   originalType: GraphQLInputType,
   validation: ValidateFunction<TContext> | undefined,
@@ -405,12 +596,13 @@ const validateEntryValueThrowing = <TContext>(
   container: Container,
   fieldResolveParameters: ResolverParameters<TContext>,
   policy: ValidateDirectivePolicy | undefined,
-): unknown => {
+  parent: AnyObject,
+): Promise<unknown> => {
   let type = originalType;
   let value = originalValue;
 
   if (validation !== undefined) {
-    value = validation(
+    value = await validation(
       value,
       originalType,
       container,
@@ -419,6 +611,7 @@ const validateEntryValueThrowing = <TContext>(
       fieldResolveParameters.source,
       fieldResolveParameters.args,
       path,
+      parent,
     );
 
     if (value === undefined && value !== originalValue) {
@@ -438,12 +631,14 @@ const validateEntryValueThrowing = <TContext>(
 
   if (type instanceof GraphQLInputObjectType) {
     return validateNonNull(
-      validateInputObject(
+      await validateInputObject(
         value as AnyObject,
         type,
+        originalType,
         path,
         errors,
         fieldResolveParameters,
+        parent,
       ),
       originalType,
     );
@@ -451,7 +646,7 @@ const validateEntryValueThrowing = <TContext>(
 
   if (type instanceof GraphQLList) {
     return validateNonNull(
-      validateList(
+      await validateList(
         value as AnyArray,
         type.ofType,
         path,
@@ -480,14 +675,9 @@ const validateEntryValueThrowing = <TContext>(
   throw new TypeError(`unsupported type ${inspect(type)}`);
 };
 
-const isErrorRegistered = (
-  registered: ValidatedInputError[],
-  error: Error,
-): boolean => !!registered.find(entry => entry.error === error);
-
 // Validates and catches exceptions, replacing values that failed validation
 // with `null` if the type is null-able (in such case, appends to `errors`)
-const validateEntryValue = <TContext>(
+const validateEntryValue = async <TContext>(
   originalValue: unknown,
   type: GraphQLInputType,
   validation: ValidateFunction<TContext> | undefined,
@@ -496,9 +686,10 @@ const validateEntryValue = <TContext>(
   container: GraphQLArgument | GraphQLInputObjectType | GraphQLObjectType,
   fieldResolveParameters: ResolverParameters<TContext>,
   policy: ValidateDirectivePolicy | undefined,
-): unknown => {
+  parent: AnyObject,
+): Promise<unknown> => {
   try {
-    return validateEntryValueThrowing(
+    return await validateEntryValueThrowing(
       originalValue,
       type,
       validation,
@@ -507,50 +698,69 @@ const validateEntryValue = <TContext>(
       container,
       fieldResolveParameters,
       policy,
+      parent,
     );
   } catch (ex) {
-    const error: ValidateDirectiveError =
-      ex instanceof Error
-        ? ex
-        : /* istanbul ignore next: should never happen, but let's be safe */
-          new Error(`unknown error: ${ex}`);
-
-    if (!isErrorRegistered(errors, error)) {
-      // eventually the error was registered and we shouldn't do it again
-      errors.push({
-        error,
-        message: error.message,
-        path,
-      });
-    }
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    return handleValidationError(
+      ex,
+      type instanceof GraphQLNonNull,
+      validation,
+      ex instanceof InputFieldValidationError ? path.concat([ex.field]) : path,
+      errors,
+      policy,
+    );
+  }
+};
 
-    if (policy === undefined) {
-      throw error;
-    }
+// Registers the error and, if the type is null-able and the policy allows,
+// returns `null` to replace the value that failed validation. Otherwise
+// the error is thrown.
+const handleValidationError = <TContext>(
+  ex: unknown,
+  isNonNull: boolean,
+  validation: ValidateFunction<TContext> | undefined,
+  path: string[],
+  errors: ValidatedInputError[],
+  policy: ValidateDirectivePolicy | undefined,
+): null => {
+  const error: ValidateDirectiveError =
+    ex instanceof Error
+      ? ex
+      : /* istanbul ignore next: should never happen, but let's be safe */
+        new Error(`unknown error: ${ex}`);
+
+  if (!isErrorRegistered(errors, error)) {
+    // eventually the error was registered and we shouldn't do it again
+    errors.push({
+      error,
+      message: error.message,
+      path,
+    });
+  }
 
-    const isThrowPolicy = policy === ValidateDirectivePolicy.THROW;
-    if (
-      error.validationDirectiveShouldThrow ||
-      type instanceof GraphQLNonNull ||
-      isThrowPolicy
-    ) {
-      if (error.validationDirectiveShouldThrow === undefined && isThrowPolicy) {
-        error.validationDirectiveShouldThrow = true;
-      }
-      // istanbul ignore if  (shouldn't reach with newer graphql, but used to happen before)
-      if (error.extensions === undefined) {
-        error.extensions = {};
-      }
-      if (error.extensions.validation === undefined) {
-        error.extensions.validation = {
-          path,
-          properties: validation?.validateProperties,
-        };
-      }
-      throw error;
+  if (policy === undefined) {
+    throw error;
+  }
+
+  const isThrowPolicy = policy === ValidateDirectivePolicy.THROW;
+  if (error.validationDirectiveShouldThrow || isNonNull || isThrowPolicy) {
+    if (error.validationDirectiveShouldThrow === undefined && isThrowPolicy) {
+      error.validationDirectiveShouldThrow = true;
     }
-    return null;
+    // istanbul ignore if  (shouldn't reach with newer graphql, but used to happen before)
+    if (error.extensions === undefined) {
+      error.extensions = {};
+    }
+    if (error.extensions.validation === undefined) {
+      error.extensions.validation = {
+        path,
+        properties: validation?.validateProperties,
+      };
+    }
+    throw error;
   }
+  return null;
 };
 
 const commonValidatedInputErrorFields = {
@@ -603,7 +813,8 @@ const validatedErrorOutputType = new GraphQLObjectType({
 // Makes sure `field` is flagged as `mustValidateInput: true` and if it wasn't
 // already, then declare the `$validationErrorsArgumentName` argument and
 // wrap the field resolver so it first validates the arguments before
-// calling the wrapped resolver.
+// calling the wrapped resolver. Subscription root fields also wrap the
+// `subscribe` function.
 const wrapFieldResolverValidateArgument = <TContext>(
   field: ValidatedArgumentsGraphQLField<TContext>,
   argument: GraphQLArgument,
@@ -620,23 +831,71 @@ const wrapFieldResolverValidateArgument = <TContext>(
     return;
   }
 
-  const { resolve = defaultFieldResolver } = field;
-  // eslint-disable-next-line no-param-reassign
-  field.resolve = function (...resolveArgs): unknown {
-    const fieldResolveParameters: ResolverParameters<TContext> = {
-      args: resolveArgs[1],
-      context: resolveArgs[2],
-      info: resolveArgs[3],
-      source: resolveArgs[0],
-    };
+  // eslint-disable-next-line @typescript-eslint/no-use-before-define
+  wrapFieldResolverValidateArguments(field, validationErrorsArgumentName);
+};
+
+const wrapFieldResolverValidateArguments = <TContext>(
+  field: ValidatedArgumentsGraphQLField<TContext>,
+  validationErrorsArgumentName: string,
+): void => {
+  // graphql-js gives new arguments to resolve() on each payload, then
+  // subscriptions validate them again, so both get the same arguments
+  const resolverNames: Array<'resolve' | 'subscribe'> =
+    field.validateArgumentsOnSubscribe ? ['subscribe', 'resolve'] : ['resolve'];
+  resolverNames.forEach(resolverName => {
+    const { [resolverName]: resolve = defaultFieldResolver } = field;
     // eslint-disable-next-line no-param-reassign
-    resolveArgs[1] = validateFieldArguments(
-      fieldResolveParameters,
-      field.args,
-      validationErrorsArgumentName,
-    );
-    return resolve.apply(this, resolveArgs);
-  };
+    field[resolverName] = async function (...resolveArgs): Promise<unknown> {
+      const fieldResolveParameters: ResolverParameters<TContext> = {
+        args: resolveArgs[1],
+        context: resolveArgs[2],
+        info: resolveArgs[3],
+        source: resolveArgs[0],
+      };
+      // eslint-disable-next-line no-param-reassign
+      resolveArgs[1] = await validateFieldArguments(
+        fieldResolveParameters,
+        field,
+        validationErrorsArgumentName,
+      );
+      return resolve.apply(this, resolveArgs);
+    };
+  });
+};
+
+/**
+ * Add a validation function that receives all the field arguments as an
+ * object, after each argument was validated. If a previous validation
+ * exists, then it will be called before the given validation function
+ * is called!
+ *
+ * The validation may throw `InputFieldValidationError` to report which
+ * argument caused the error. Since there is no value to be replaced with
+ * `null`, the `RESOLVER` policy keeps the arguments and the resolver
+ * must check `validationErrors`.
+ *
+ * @note the field resolver (and `subscribe` for subscription root fields)
+ *       is wrapped if it was not already, the new functions must be
+ *       copied to the field config being mapped, if any.
+ *
+ * @param field the field to have its arguments validated.
+ * @param validate the arguments validation function.
+ * @param validationErrorsArgumentName where to store the validation errors.
+ * @param policy how to handle the validation errors.
+ */
+export const addFieldArgumentsValidation = <TContext>(
+  field: ValidatedArgumentsGraphQLField<TContext>,
+  validate: ValidateFunction<TContext>,
+  validationErrorsArgumentName: string,
+  policy: ValidateDirectivePolicy | undefined,
+): void => {
+  const { mustValidateInput: alreadyValidated = false } = field;
+
+  addContainerEntryValidation(field, field, validate, policy);
+  if (alreadyValidated) return;
+
+  wrapFieldResolverValidateArguments(field, validationErrorsArgumentName);
 };
 
 // wrap the field.resolver, calling `validate(resolvedValue)`
@@ -657,7 +916,7 @@ export const setFieldResolveToApplyOriginalResolveAndThenValidateResult = <
   field.resolve = async function (...args): Promise<unknown> {
     const originalValue = await resolve.apply(this, args);
 
-    const validatedValue = validate(
+    const validatedValue = await validate(
       originalValue,
       type,
       objectType,
@@ -685,12 +944,49 @@ export const setFieldResolveToValidateAndThenApplyOriginalResolve = <TContext>(
   const { resolve = defaultFieldResolver, type } = field;
   // eslint-disable-next-line no-param-reassign
   field.resolve = async function (...args): Promise<unknown> {
-    validate(undefined, type, objectType, args[2], args[3], args[0], args[1]);
+    await validate(
+      undefined,
+      type,
+      objectType,
+      args[2],
+      args[3],
+      args[0],
+      args[1],
+    );
 
     return resolve.apply(this, args);
   };
 };
 
+// Validates before the subscription starts, the validated value is
+// ignored as there is no value yet. See
+// setFieldResolveToValidateAndThenApplyOriginalResolve()
+export const setFieldSubscribeToValidateAndThenApplyOriginalSubscribe = <
+  TContext,
+>(
+  field:
+    | GraphQLFieldConfig<unknown, TContext>
+    | GraphQLField<unknown, TContext>,
+  validate: ValidateFunction<TContext>,
+  objectType: GraphQLObjectType,
+): void => {
+  const { subscribe = defaultFieldResolver, type } = field;
+  // eslint-disable-next-line no-param-reassign
+  field.subscribe = async function (...args): Promise<unknown> {
+    await validate(
+      undefined,
+      type,
+      objectType,
+      args[2],
+      args[3],
+      args[0],
+      args[1],
+    );
+
+    return subscribe.apply(this, args);
+  };
+};
+
 // Fields that have argument may require validation if their input
 // object requires it (see markInputObjectsRequiringValidation()),
 // even if the argument itself does not have a validation function.
@@ -774,9 +1070,56 @@ const visitInputObjectsAndFieldsWithDirective = <
 };
 
 /**
- * Receives an array of GraphQLField and search for directives on their arguments.
- * Calls visitor.visitArgumentDefinition for each argument having a directive
+ * Ensures every input object requiring validation is only used by arguments
+ * of fields that will validate them, that is root operation fields
+ * (Query, Mutation and Subscription), fields with an argument
+ * annotated with the directive or, if the directive validates the
+ * arguments as a whole (`visitFieldArguments()`), fields annotated
+ * with the directive.
+ *
+ * @param {GraphQLSchema} schema GraphQLSchema in use
+ * @param {string} directiveName Name of the directive to search for
+ * @param {boolean} validatesFieldArguments if the directive implements
+ *        `visitFieldArguments()`
+ * @throws {Error} if an argument requiring validation would not be validated
+ */
+const assertInputObjectsAreValidated = (
+  schema: GraphQLSchema,
+  directiveName: string,
+  validatesFieldArguments: boolean,
+): void => {
+  const rootTypes = [
+    schema.getQueryType(),
+    schema.getMutationType(),
+    schema.getSubscriptionType(),
+  ];
+  Object.values(schema.getTypeMap()).forEach(type => {
+    if (!isObjectType(type) || rootTypes.includes(type)) return;
+    Object.values(type.getFields()).forEach(field => {
+      const isFieldValidated =
+        (validatesFieldArguments &&
+          getDirective(schema, field, directiveName)?.[0]) ||
+        field.args.some(arg => getDirective(schema, arg, directiveName)?.[0]);
+      if (isFieldValidated) return;
+      field.args.forEach(arg => {
+        if (checkMustValidateInput(arg.type)) {
+          throw new Error(
+            `${type.name}.${field.name}(${arg.name}:) uses ${getFinalType(
+              arg.type,
+            )} that requires @${directiveName} validation, but it is not validated`,
+          );
+        }
+      });
+    });
+  });
+};
+
+/**
+ * Receives an array of GraphQLField and search for directives on them and their arguments.
+ * Calls visitor.visitArgumentDefinition for each argument having a directive,
+ * then visitor.visitFieldArguments for each field having a directive
  *
+ * @param {GraphQLObjectType} objectType The type containing the fields
  * @param {Array<GraphQLField>} fields Array of GraphQLFields
  * @param {GraphQLSchema} schema GraphQLSchema in use
  * @param {string} directiveName Name of the directive to search for
@@ -786,6 +1129,7 @@ const visitArgumentsWithDirectiveInObjectFields = <
   TArgs extends ValidationDirectiveArgs,
   TContext extends object,
 >(
+  objectType: GraphQLObjectType<unknown, TContext>,
   fields: Array<GraphQLField<unknown, TContext, TArgs>>,
   schema: GraphQLSchema,
   directiveName: string,
@@ -802,6 +1146,12 @@ const visitArgumentsWithDirectiveInObjectFields = <
         }
       });
     }
+    const [directiveOnField] = getDirective(schema, field, directiveName) ?? [];
+    if (directiveOnField) {
+      // eslint-disable-next-line no-param-reassign
+      visitor.args = directiveOnField as TArgs;
+      visitor.visitFieldArguments(field, { objectType });
+    }
   });
 };
 
@@ -851,6 +1201,7 @@ abstract class ValidateDirectiveVisitor<
   TContext,
   | DirectiveLocation.QUERY
   | DirectiveLocation.MUTATION
+  | DirectiveLocation.SUBSCRIPTION
   | DirectiveLocation.ARGUMENT_DEFINITION
   | DirectiveLocation.INPUT_FIELD_DEFINITION
   | DirectiveLocation.INPUT_OBJECT
@@ -876,6 +1227,11 @@ abstract class ValidateDirectiveVisitor<
   public readonly applyValidationToOutputTypesAfterOriginalResolver: Boolean =
     true;
 
+  // input objects are not bound to a root operation type, they are
+  // visited by the first root visited, see visitInputObjectsOnce()
+  private readonly schemasWithVisitedInputObjects =
+    new WeakSet<GraphQLSchema>();
+
   public static getDirectiveDeclaration(
     givenDirectiveName?: string,
     schema?: GraphQLSchema,
@@ -948,6 +1304,10 @@ abstract class ValidateDirectiveVisitor<
    * this means GraphQL modifiers must be handled:
    *  - `null` for nullable fields;
    *  - `Array` for list fields.
+   *
+   * The function may return a `Promise`, in such case the validated value
+   * is awaited before the resolver is called. Sibling entries (arguments,
+   * input object fields and list items) are validated concurrently.
    */
   public abstract getValidationForArgs(
     location: DirectiveLocation,
@@ -1077,14 +1437,34 @@ abstract class ValidateDirectiveVisitor<
     });
   }
 
+  // Input objects must be visited before any root operation fields are
+  // wrapped, as that depends on input objects being marked as requiring
+  // validation. Since the root operation types are visited in the
+  // schema types order, do it on the first one and only once per schema.
+  protected visitInputObjectsOnce(
+    schema: GraphQLSchema,
+    directiveName: string,
+  ): void {
+    if (this.schemasWithVisitedInputObjects.has(schema)) return;
+    this.schemasWithVisitedInputObjects.add(schema);
+    visitInputObjectsAndFieldsWithDirective(schema, directiveName, this);
+    assertInputObjectsAreValidated(
+      schema,
+      directiveName,
+      this.visitFieldArguments !==
+        EasyDirectiveVisitor.prototype.visitFieldArguments,
+    );
+  }
+
   public visitQuery(
     query: GraphQLObjectType<unknown, TContext>,
     schema: GraphQLSchema,
     directiveName: string,
   ): GraphQLObjectType<unknown, TContext> {
     const queryFields = Object.values(query.getFields());
-    visitInputObjectsAndFieldsWithDirective(schema, directiveName, this);
+    this.visitInputObjectsOnce(schema, directiveName);
     visitArgumentsWithDirectiveInObjectFields(
+      query,
       queryFields,
       schema,
       directiveName,
@@ -1097,14 +1477,15 @@ abstract class ValidateDirectiveVisitor<
     return query;
   }
 
-  // eslint-disable-next-line class-methods-use-this
   public visitMutation(
     mutation: GraphQLObjectType<unknown, TContext>,
     schema: GraphQLSchema,
     directiveName: string,
   ): GraphQLObjectType<unknown, TContext> {
     const mutationFields = Object.values(mutation.getFields());
+    this.visitInputObjectsOnce(schema, directiveName);
     visitArgumentsWithDirectiveInObjectFields(
+      mutation,
       mutationFields,
       schema,
       directiveName,
@@ -1116,6 +1497,55 @@ abstract class ValidateDirectiveVisitor<
     );
     return mutation;
   }
+
+  // Subscription arguments are validated in `subscribe()`, when the
+  // subscription starts, and in `resolve()`, that is given the raw
+  // arguments on each emitted payload. Output validations are applied to
+  // the field `resolve()` by `visitFieldDefinition()`, then they run on
+  // each emitted payload. Validations that must run before the resolver
+  // (ie: permissions) are also applied to `subscribe()`, so the
+  // subscription is not even started.
+  public visitSubscription(
+    subscription: GraphQLObjectType<unknown, TContext>,
+    schema: GraphQLSchema,
+    directiveName: string,
+  ): GraphQLObjectType<unknown, TContext> {
+    const subscriptionFields = Object.values(subscription.getFields());
+    this.visitInputObjectsOnce(schema, directiveName);
+    subscriptionFields.forEach(
+      (field: ValidatedArgumentsGraphQLField<TContext>): void => {
+        // eslint-disable-next-line no-param-reassign
+        field.validateArgumentsOnSubscribe = true;
+
+        if (this.applyValidationToOutputTypesAfterOriginalResolver) return;
+        const [directiveArgs] =
+          getDirective(schema, field, directiveName) ?? [];
+        if (!directiveArgs) return;
+        this.args = directiveArgs as TArgs;
+        const validate = this.getValidationForArgs(
+          DirectiveLocation.FIELD_DEFINITION,
+        );
+        if (!validate) return;
+        setFieldSubscribeToValidateAndThenApplyOriginalSubscribe(
+          field,
+          validate,
+          subscription,
+        );
+      },
+    );
+    visitArgumentsWithDirectiveInObjectFields(
+      subscription,
+      subscriptionFields,
+      schema,
+      directiveName,
+      this,
+    );
+    wrapFieldsRequiringValidation(
+      subscriptionFields,
+      ValidateDirectiveVisitor.validationErrorsArgumentName,
+    );
+    return subscription;
+  }
 }
 
 export default ValidateDirectiveVisitor;
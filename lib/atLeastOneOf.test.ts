@@ -0,0 +1,193 @@
+import type { GraphQLResolveInfo } from 'graphql';
+import { graphql, subscribe } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import AtLeastOneOf from './atLeastOneOf.js';
+import capitalize from './capitalize.js';
+import ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@atLeastOneOf()', (): void => {
+  const name = 'atLeastOneOf';
+  const directiveTypeDefs = AtLeastOneOf.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""At least one of the fields (or arguments) must be provided (not null)"""
+directive @${name}(
+  """The fields (or arguments) to check. If null, all of them are checked"""
+  fields: [String!]
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on FIELD_DEFINITION | INPUT_OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      AtLeastOneOf.getTypeDefs().map(print),
+    );
+  });
+
+  const mockSubscribe = jest.fn(async function* (): AsyncGenerator<object> {
+    yield { updated: 'done' };
+  });
+
+  const schema = new AtLeastOneOf().applyToSchema(
+    makeExecutableSchema({
+      resolvers: {
+        Mutation: {
+          update: (
+            _,
+            args,
+            __,
+            { validationErrors }: ValidationErrorsResolverInfo,
+          ): object => ({
+            args: JSON.stringify(args),
+            validationErrors,
+          }),
+        },
+        Subscription: { updated: { subscribe: mockSubscribe } },
+      },
+      typeDefs: [
+        ...directiveTypeDefs,
+        ...AtLeastOneOf.getMissingCommonTypeDefs(),
+        gql`
+          input UserPatch @${name} {
+            name: String
+            email: String
+          }
+          type Result {
+            args: String
+            validationErrors: [ValidatedInputErrorOutput!]
+          }
+          type Query {
+            dummy: Int
+          }
+          type Mutation {
+            update(patch: UserPatch): Result
+          }
+          type Subscription {
+            updated(id: ID, email: String): String
+              @${name}(policy: THROW)
+          }
+        `,
+      ],
+    }),
+  );
+
+  beforeEach((): void => {
+    mockSubscribe.mockClear();
+  });
+
+  it('accepts all', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema,
+        source: print(gql`
+          mutation {
+            update(patch: { name: "a", email: "b" }) {
+              args
+              validationErrors {
+                message
+                path
+              }
+            }
+          }
+        `),
+      }),
+    ).toEqual({
+      data: {
+        update: {
+          args: '{"patch":{"name":"a","email":"b"}}',
+          validationErrors: null,
+        },
+      },
+    });
+  });
+
+  it('rejects none', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema,
+        source: print(gql`
+          mutation {
+            update(patch: {}) {
+              args
+              validationErrors {
+                message
+                path
+              }
+            }
+          }
+        `),
+      }),
+    ).toEqual({
+      data: {
+        update: {
+          args: '{"patch":null}',
+          validationErrors: [
+            {
+              message: 'at least one of name, email must be provided',
+              path: ['patch'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('works on subscriptions', async (): Promise<void> => {
+    const iterator = (await subscribe({
+      document: gql`
+        subscription {
+          updated(id: "1")
+        }
+      `,
+      schema,
+    })) as AsyncIterableIterator<object>;
+    expect(await iterator.next()).toEqual({
+      done: false,
+      value: { data: { updated: 'done' } },
+    });
+    expect(mockSubscribe).toBeCalledTimes(1);
+  });
+
+  it('does not start subscriptions on errors', async (): Promise<void> => {
+    const expectedError = new ValidationError(
+      'at least one of id, email must be provided',
+    );
+    expectedError.extensions.validation = {
+      path: [],
+      properties: {
+        args: { policy: 'THROW' },
+        directive: name,
+      },
+    };
+    expect(
+      await subscribe({
+        document: gql`
+          subscription {
+            updated
+          }
+        `,
+        schema,
+      }),
+    ).toEqual({ errors: [expectedError] });
+    expect(mockSubscribe).not.toBeCalled();
+  });
+});
@@ -0,0 +1,10 @@
+import createPresentFieldsDirective from './presentFieldsCommon.js';
+
+export default createPresentFieldsDirective({
+  defaultName: 'atLeastOneOf',
+  description:
+    'At least one of the fields (or arguments) must be provided (not null)',
+  max: Number.POSITIVE_INFINITY,
+  min: 1,
+  quantifier: 'at least one of',
+});
@@ -0,0 +1,149 @@
+import type { GraphQLResolveInfo } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import AtMostOneOf from './atMostOneOf.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@atMostOneOf()', (): void => {
+  const name = 'atMostOneOf';
+  const directiveTypeDefs = AtMostOneOf.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""At most one of the fields (or arguments) may be provided (not null)"""
+directive @${name}(
+  """The fields (or arguments) to check. If null, all of them are checked"""
+  fields: [String!]
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on FIELD_DEFINITION | INPUT_OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      AtMostOneOf.getTypeDefs().map(print),
+    );
+  });
+
+  const resolve = (
+    _: unknown,
+    args: object,
+    __: unknown,
+    { validationErrors }: ValidationErrorsResolverInfo,
+  ): object => ({
+    args: JSON.stringify(args),
+    validationErrors,
+  });
+
+  const schema = new AtMostOneOf().applyToSchema(
+    makeExecutableSchema({
+      resolvers: { Query: { argsTest: resolve, inputTest: resolve } },
+      typeDefs: [
+        ...directiveTypeDefs,
+        ...AtMostOneOf.getMissingCommonTypeDefs(),
+        gql`
+          input Filter @${name}(fields: ["byName", "byEmail"]) {
+            byName: String
+            byEmail: String
+            limit: Int
+          }
+          type Result {
+            args: String
+            validationErrors: [ValidatedInputErrorOutput!]
+          }
+          type Query {
+            inputTest(filter: Filter!): Result
+            argsTest(first: Int, last: Int): Result @${name}
+          }
+        `,
+      ],
+    }),
+  );
+
+  const doTest = async (field: string): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          ${field} {
+            args
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  it('accepts none', async (): Promise<void> => {
+    expect(await doTest('inputTest(filter: { limit: 1 })')).toEqual({
+      data: {
+        inputTest: {
+          args: '{"filter":{"limit":1}}',
+          validationErrors: null,
+        },
+      },
+    });
+    expect(await doTest('argsTest')).toEqual({
+      data: { argsTest: { args: '{}', validationErrors: null } },
+    });
+  });
+
+  it('accepts one', async (): Promise<void> => {
+    expect(await doTest('argsTest(first: 1, last: null)')).toEqual({
+      data: {
+        argsTest: { args: '{"first":1,"last":null}', validationErrors: null },
+      },
+    });
+  });
+
+  it('rejects more than one', async (): Promise<void> => {
+    expect(await doTest('argsTest(first: 1, last: 2)')).toEqual({
+      data: {
+        argsTest: {
+          args: '{"first":1,"last":2}',
+          validationErrors: [
+            {
+              message: 'at most one of first, last must be provided',
+              path: ['last'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('throws on non-null input objects', async (): Promise<void> => {
+    const result = await doTest(
+      'inputTest(filter: { byName: "a", byEmail: "b" })',
+    );
+    expect(result).toEqual({
+      data: { inputTest: null },
+      errors: [
+        expect.objectContaining({
+          message: 'at most one of byName, byEmail must be provided',
+          path: ['inputTest'],
+        }),
+      ],
+    });
+  });
+});
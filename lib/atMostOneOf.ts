@@ -0,0 +1,10 @@
+import createPresentFieldsDirective from './presentFieldsCommon.js';
+
+export default createPresentFieldsDirective({
+  defaultName: 'atMostOneOf',
+  description:
+    'At most one of the fields (or arguments) may be provided (not null)',
+  max: 1,
+  min: 0,
+  quantifier: 'at most one of',
+});
@@ -1,11 +1,12 @@
-import type { GraphQLResolveInfo } from 'graphql';
-import { graphql } from 'graphql';
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql, subscribe } from 'graphql';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { gql } from 'graphql-tag';
 
 import print from './utils/printer.js';
 
 import AuthDirective from './auth.js';
+import PublicDirective from './public.js';
 import AuthenticationError from './errors/AuthenticationError.js';
 
 describe('@auth()', (): void => {
@@ -16,7 +17,7 @@ describe('@auth()', (): void => {
     expect(directiveTypeDefs.map(print)).toEqual([
       `\
 """ensures is authenticated before calling the resolver"""
-directive @${name} on OBJECT | FIELD_DEFINITION
+directive @${name} on SCHEMA | OBJECT | FIELD_DEFINITION | ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION
 `,
     ]);
   });
@@ -323,4 +324,658 @@ directive @${name} on OBJECT | FIELD_DEFINITION
       expect(mockResolver).not.toHaveBeenCalled();
     });
   });
+
+  describe('works on subscription fields', (): void => {
+    const mockSubscribe = jest.fn(async function* (): AsyncGenerator<object> {
+      yield { testSubscription: 42 };
+    });
+    const schema = new AuthDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Subscription: {
+            testSubscription: { subscribe: mockSubscribe },
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Query {
+              test: Int
+            }
+            type Subscription {
+              testSubscription: Int @${name}
+              defaultSubscribe: Int @${name}
+              otherSubscription: Int
+            }
+          `,
+        ],
+      }),
+    );
+    const document = gql`
+      subscription {
+        testSubscription
+      }
+    `;
+
+    beforeEach(() => {
+      mockSubscribe.mockClear();
+    });
+
+    it('if authenticated, subscribes', async (): Promise<void> => {
+      const contextValue = AuthDirective.createDirectiveContext({
+        isAuthenticated: true,
+      });
+      const result = (await subscribe({
+        contextValue,
+        document,
+        schema,
+      })) as AsyncGenerator<unknown>;
+      expect(await result.next()).toEqual({
+        done: false,
+        value: { data: { testSubscription: 42 } },
+      });
+      expect(mockSubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('if NOT authenticated, throws error and does not subscribe', async (): Promise<void> => {
+      const contextValue = AuthDirective.createDirectiveContext({
+        isAuthenticated: false,
+      });
+      const result = await subscribe({
+        contextValue,
+        document,
+        schema,
+      });
+      expect(result).toEqual({
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
+    it('works with default subscribe', async (): Promise<void> => {
+      const contextValue = AuthDirective.createDirectiveContext({
+        isAuthenticated: true,
+      });
+      const result = (await subscribe({
+        contextValue,
+        document: gql`
+          subscription {
+            defaultSubscribe
+          }
+        `,
+        rootValue: {
+          async *defaultSubscribe(): AsyncGenerator<object> {
+            yield { defaultSubscribe: 1 };
+          },
+        },
+        schema,
+      })) as AsyncGenerator<unknown>;
+      expect(await result.next()).toEqual({
+        done: false,
+        value: { data: { defaultSubscribe: 1 } },
+      });
+    });
+  });
+  describe('works on arguments', (): void => {
+    const schema = new AuthDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Mutation: {
+            publish: (_, { notify }): string => `notify: ${notify}`,
+          },
+          Query: {
+            posts: (_, { includeDrafts, limit }): string =>
+              `includeDrafts: ${includeDrafts}, limit: ${limit}`,
+            user: (): object => ({ nickname: 'bob' }),
+          },
+          User: {
+            posts: (_, { includeDrafts }): string =>
+              `includeDrafts: ${includeDrafts}`,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type User {
+              posts(includeDrafts: Boolean @${name}): String
+              nickname(full: Boolean @${name}): String
+            }
+            type Query {
+              posts(includeDrafts: Boolean @${name}, limit: Int = 10 @${name}): String
+              user: User
+            }
+            type Mutation {
+              publish(notify: Boolean = false @${name}): String
+            }
+          `,
+        ],
+      }),
+    );
+    const anonymous = AuthDirective.createDirectiveContext({
+      isAuthenticated: false,
+    });
+
+    it('if NOT authenticated, accepts missing and default arguments', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: anonymous,
+        schema,
+        source: print(gql`
+          query {
+            posts(limit: 10)
+            user {
+              posts
+              nickname
+            }
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          posts: 'includeDrafts: undefined, limit: 10',
+          user: { nickname: 'bob', posts: 'includeDrafts: undefined' },
+        },
+      });
+    });
+
+    it('if NOT authenticated, rejects given arguments', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: anonymous,
+        schema,
+        source: print(gql`
+          query {
+            posts(includeDrafts: false)
+            user {
+              posts(includeDrafts: true)
+            }
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          posts: null,
+          user: { posts: null },
+        },
+        errors: [
+          new AuthenticationError('Unauthenticated'),
+          new AuthenticationError('Unauthenticated'),
+        ],
+      });
+    });
+
+    it('if NOT authenticated, rejects given mutation arguments', async (): Promise<void> => {
+      const source = print(gql`
+        mutation {
+          default: publish
+          given: publish(notify: true)
+        }
+      `);
+      const result = await graphql({
+        contextValue: anonymous,
+        schema,
+        source,
+      });
+      expect(result).toEqual({
+        data: {
+          default: 'notify: false',
+          given: null,
+        },
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+    });
+
+    it('if authenticated, accepts given arguments', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: AuthDirective.createDirectiveContext({
+          isAuthenticated: true,
+        }),
+        schema,
+        source: print(gql`
+          query {
+            posts(includeDrafts: true, limit: 2)
+            user {
+              posts(includeDrafts: true)
+            }
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          posts: 'includeDrafts: true, limit: 2',
+          user: { posts: 'includeDrafts: true' },
+        },
+      });
+    });
+  });
+
+  describe('works on input fields', (): void => {
+    const resolve = (_: unknown, args: object): string => JSON.stringify(args);
+    const schema = new AuthDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            posts: resolve,
+            user: (): object => ({}),
+          },
+          User: {
+            posts: resolve,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            input PostsFilter {
+              status: String
+              includeDrafts: Boolean @${name}
+              tags: [String!] = [] @${name}
+            }
+            input PostsInput {
+              filter: PostsFilter!
+              orFilters: [PostsFilter!]
+            }
+            type User {
+              posts(filter: PostsFilter, first: Int): String
+            }
+            type Query {
+              posts(input: PostsInput!): String
+              user: User
+            }
+          `,
+        ],
+      }),
+    );
+    const anonymous = AuthDirective.createDirectiveContext({
+      isAuthenticated: false,
+    });
+
+    it('if NOT authenticated, accepts missing and default input fields', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: anonymous,
+        schema,
+        source: print(gql`
+          query {
+            posts(
+              input: {
+                filter: { status: "published" }
+                orFilters: [{ tags: [] }]
+              }
+            )
+            user {
+              posts(filter: null, first: 1)
+            }
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          posts: JSON.stringify({
+            input: {
+              filter: { status: 'published', tags: [] },
+              orFilters: [{ tags: [] }],
+            },
+          }),
+          user: { posts: JSON.stringify({ filter: null, first: 1 }) },
+        },
+      });
+    });
+
+    it('if NOT authenticated, rejects given input fields', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: anonymous,
+        schema,
+        source: print(gql`
+          query {
+            posts(
+              input: {
+                filter: { status: "published" }
+                orFilters: [{ status: "draft" }, { tags: ["private"] }]
+              }
+            )
+            user {
+              posts(filter: { includeDrafts: false })
+            }
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          posts: null,
+          user: { posts: null },
+        },
+        errors: [
+          new AuthenticationError('Unauthenticated'),
+          new AuthenticationError('Unauthenticated'),
+        ],
+      });
+    });
+
+    it('if authenticated, accepts given input fields', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: AuthDirective.createDirectiveContext({
+          isAuthenticated: true,
+        }),
+        schema,
+        source: print(gql`
+          query {
+            user {
+              posts(filter: { includeDrafts: true })
+            }
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          user: {
+            posts: JSON.stringify({
+              filter: { includeDrafts: true, tags: [] },
+            }),
+          },
+        },
+      });
+    });
+  });
+
+  describe('works on subscription arguments and input fields', (): void => {
+    const mockSubscribe = jest.fn(async function* (): AsyncGenerator<object> {
+      yield { byArgument: 1, byInputField: 2 };
+    });
+    const schema = new AuthDirective().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Subscription: {
+            byArgument: { subscribe: mockSubscribe },
+            byInputField: { subscribe: mockSubscribe },
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            input EventsFilter {
+              includePrivate: Boolean @${name}
+            }
+            type Query {
+              test: Int
+            }
+            type Subscription {
+              byArgument(includePrivate: Boolean @${name}): Int
+              byInputField(filter: EventsFilter): Int
+            }
+          `,
+        ],
+      }),
+    );
+    const contextValue = AuthDirective.createDirectiveContext({
+      isAuthenticated: false,
+    });
+
+    beforeEach(() => {
+      mockSubscribe.mockClear();
+    });
+
+    it('if NOT authenticated, subscribes without them', async (): Promise<void> => {
+      const result = (await subscribe({
+        contextValue,
+        document: gql`
+          subscription {
+            byArgument
+          }
+        `,
+        schema,
+      })) as AsyncGenerator<unknown>;
+      expect(await result.next()).toEqual({
+        done: false,
+        value: { data: { byArgument: 1 } },
+      });
+      expect(mockSubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('if NOT authenticated, does not subscribe with the argument', async (): Promise<void> => {
+      const result = await subscribe({
+        contextValue,
+        document: gql`
+          subscription {
+            byArgument(includePrivate: true)
+          }
+        `,
+        schema,
+      });
+      expect(result).toEqual({
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
+    it('if NOT authenticated, does not subscribe with the input field', async (): Promise<void> => {
+      const result = await subscribe({
+        contextValue,
+        document: gql`
+          subscription {
+            byInputField(filter: { includePrivate: true })
+          }
+        `,
+        schema,
+      });
+      expect(result).toEqual({
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+  });
+  describe('requires authentication by default on the schema', (): void => {
+    const mockSubscribe = jest.fn(async function* (): AsyncGenerator<object> {
+      yield { events: 1, status: 2 };
+    });
+    const auth = new AuthDirective();
+    const schema = auth.applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Mutation: {
+            login: (): string => 'token',
+            logout: (): boolean => true,
+          },
+          Subscription: {
+            events: { subscribe: mockSubscribe },
+            status: { subscribe: mockSubscribe },
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...PublicDirective.getTypeDefs(),
+          gql`
+            schema @${name} {
+              query: Query
+              mutation: Mutation
+              subscription: Subscription
+            }
+            type Query {
+              me: String
+              secret: String @${name}
+              version: String @public
+            }
+            type Mutation {
+              login: String @public
+              logout: Boolean
+            }
+            type Subscription {
+              events: Int
+              status: Int @public
+            }
+          `,
+        ],
+      }),
+    );
+    const rootValue = {
+      me: 'bob',
+      secret: 'shh',
+      version: '1.0',
+    };
+    const anonymous = AuthDirective.createDirectiveContext({
+      isAuthenticated: false,
+    });
+
+    beforeEach(() => {
+      mockSubscribe.mockClear();
+    });
+
+    it('reports the public fields', (): void => {
+      expect(auth.publicFields).toEqual([
+        'Mutation.login',
+        'Query.version',
+        'Subscription.status',
+      ]);
+    });
+
+    it('if authenticated, returns all', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: AuthDirective.createDirectiveContext({
+          isAuthenticated: true,
+        }),
+        rootValue,
+        schema,
+        source: print(gql`
+          query {
+            me
+            secret
+            version
+          }
+        `),
+      });
+      expect(result).toEqual({ data: rootValue });
+    });
+
+    it('if NOT authenticated, returns only public query fields', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: anonymous,
+        rootValue,
+        schema,
+        source: print(gql`
+          query {
+            me
+            secret
+            version
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          me: null,
+          secret: null,
+          version: rootValue.version,
+        },
+        errors: [
+          new AuthenticationError('Unauthenticated'),
+          new AuthenticationError('Unauthenticated'),
+        ],
+      });
+    });
+
+    it('if NOT authenticated, performs only public mutations', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: anonymous,
+        schema,
+        source: print(gql`
+          mutation {
+            login
+            logout
+          }
+        `),
+      });
+      expect(result).toEqual({
+        data: {
+          login: 'token',
+          logout: null,
+        },
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+    });
+
+    it('if NOT authenticated, subscribes only to public fields', async (): Promise<void> => {
+      const rejected = await subscribe({
+        contextValue: anonymous,
+        document: gql`
+          subscription {
+            events
+          }
+        `,
+        schema,
+      });
+      expect(rejected).toEqual({
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+      expect(mockSubscribe).not.toHaveBeenCalled();
+
+      const result = (await subscribe({
+        contextValue: anonymous,
+        document: gql`
+          subscription {
+            status
+          }
+        `,
+        schema,
+      })) as AsyncGenerator<unknown>;
+      expect(await result.next()).toEqual({
+        done: false,
+        value: { data: { status: 2 } },
+      });
+      expect(mockSubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('requireAuthentication option', (): void => {
+    const createSchema = (schemaDirective: string): GraphQLSchema =>
+      makeExecutableSchema({
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...PublicDirective.getTypeDefs(),
+          gql`
+            schema ${schemaDirective} {
+              query: Query
+            }
+            type Query {
+              me: String
+              secret: String @${name}
+              version: String @public
+            }
+          `,
+        ],
+      });
+    const source = print(gql`
+      query {
+        me
+        version
+      }
+    `);
+    const rootValue = { me: 'bob', version: '1.0' };
+    const contextValue = AuthDirective.createDirectiveContext({
+      isAuthenticated: false,
+    });
+
+    it('requires authentication by default if true', async (): Promise<void> => {
+      const auth = new AuthDirective();
+      const schema = auth.applyToSchema(createSchema(''), {
+        requireAuthentication: true,
+      });
+      expect(auth.publicFields).toEqual(['Query.version']);
+      const result = await graphql({ contextValue, rootValue, schema, source });
+      expect(result).toEqual({
+        data: { me: null, version: rootValue.version },
+        errors: [new AuthenticationError('Unauthenticated')],
+      });
+    });
+
+    it('overrides the schema directive if false', async (): Promise<void> => {
+      const auth = new AuthDirective();
+      const schema = auth.applyToSchema(createSchema(`@${name}`), {
+        requireAuthentication: false,
+      });
+      expect(auth.publicFields).toEqual(['Query.me', 'Query.version']);
+      const result = await graphql({ contextValue, rootValue, schema, source });
+      expect(result).toEqual({ data: rootValue });
+    });
+
+    it('reports fields without @auth if not given', (): void => {
+      const auth = new AuthDirective();
+      auth.applyToSchema(createSchema(''));
+      expect(auth.publicFields).toEqual(['Query.me', 'Query.version']);
+    });
+  });
 });
@@ -1,7 +1,18 @@
-import { defaultFieldResolver, DirectiveLocation } from 'graphql';
+import {
+  defaultFieldResolver,
+  DirectiveLocation,
+  getNamedType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+} from 'graphql';
 import type {
+  GraphQLArgument,
   GraphQLField,
   GraphQLFieldResolver,
+  GraphQLInputObjectType,
+  GraphQLInputType,
   GraphQLInterfaceType,
   GraphQLObjectType,
   GraphQLFieldConfig,
@@ -9,9 +20,12 @@ import type {
 } from 'graphql';
 
 import { getDirective } from '@graphql-tools/utils';
+import isEqual from 'lodash.isequal';
 
 import EasyDirectiveVisitor from './EasyDirectiveVisitor.js';
 import AuthenticationError from './errors/AuthenticationError.js';
+import { getDefaultValue } from './hasPermissions.js';
+import PublicDirectiveVisitor from './public.js';
 
 type ResolverArgs<TContext extends object = object> = Parameters<
   GraphQLFieldResolver<unknown, TContext>
@@ -21,26 +35,88 @@ export type AuthContext<TContext extends object = object> = {
   isAuthenticated: (...args: ResolverArgs<TContext>) => boolean;
 };
 
+export type AuthApplyToSchemaOptions = {
+  // every Query, Mutation and Subscription field requires authentication,
+  // unless marked with @public. Defaults to whether the schema uses @auth
+  requireAuthentication?: boolean;
+};
+
+type FieldResolverKey = 'resolve' | 'subscribe';
+
+// whether the arguments use something marked with @auth
+type IsUsingAuthInput = (args: Record<string, unknown>) => boolean;
+
+// as in @hasPermissions, the default value does not require authentication
+const isGivenValue = (value: unknown, defaultValue: unknown): boolean =>
+  value !== undefined && !isEqual(value, defaultValue);
+
+// input object => its fields using @auth
+type AuthInputFields = Map<GraphQLInputObjectType, Set<string>>;
+
+// input objects with fields using @auth, directly or not
+const getInputObjectsUsingAuth = (
+  authInputFields: AuthInputFields,
+  inputObjects: GraphQLInputObjectType[],
+): Set<GraphQLInputObjectType> => {
+  const usingAuth = new Set(authInputFields.keys());
+  let { size } = usingAuth;
+  do {
+    ({ size } = usingAuth);
+    inputObjects.forEach(inputObject => {
+      if (usingAuth.has(inputObject)) return;
+      const fields = Object.values(inputObject.getFields());
+      if (
+        fields.some(field => {
+          const type = getNamedType(field.type);
+          return isInputObjectType(type) && usingAuth.has(type);
+        })
+      ) {
+        usingAuth.add(inputObject);
+      }
+    });
+  } while (usingAuth.size !== size);
+  return usingAuth;
+};
+
 class AuthDirectiveVisitor<
   TContext extends AuthContext,
 > extends EasyDirectiveVisitor<
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   any,
   TContext,
+  | DirectiveLocation.SCHEMA
   | DirectiveLocation.QUERY
   | DirectiveLocation.OBJECT
   | DirectiveLocation.FIELD_DEFINITION
+  | DirectiveLocation.ARGUMENT_DEFINITION
+  | DirectiveLocation.INPUT_FIELD_DEFINITION
   | DirectiveLocation.MUTATION
+  | DirectiveLocation.SUBSCRIPTION
 > {
   public errorMessage = 'Unauthenticated';
 
   public static readonly config: (typeof EasyDirectiveVisitor)['config'] = {
     description: 'ensures is authenticated before calling the resolver',
-    locations: [DirectiveLocation.OBJECT, DirectiveLocation.FIELD_DEFINITION],
+    locations: [
+      DirectiveLocation.SCHEMA,
+      DirectiveLocation.OBJECT,
+      DirectiveLocation.FIELD_DEFINITION,
+      DirectiveLocation.ARGUMENT_DEFINITION,
+      DirectiveLocation.INPUT_FIELD_DEFINITION,
+    ],
   };
 
   public static readonly defaultName: string = 'auth';
 
+  /**
+   * The Query, Mutation and Subscription fields that can be called without
+   * authentication (ie: `Query.version`), sorted. It's filled by
+   * `applyToSchema()`, so it can be reviewed or checked at build time.
+   */
+  public publicFields: string[] = [];
+
+  protected requireAuthentication = false;
+
   public static createDirectiveContext({
     isAuthenticated,
   }: {
@@ -79,7 +155,14 @@ class AuthDirectiveVisitor<
     };
   }
 
-  // eslint-disable-next-line class-methods-use-this
+  // the arguments are only checked if given and not the default value
+  public visitArgumentDefinition(
+    argument: GraphQLArgument,
+    { field }: { field: GraphQLField<unknown, TContext> },
+  ): void {
+    this.visitArgumentDefinitionForResolver(argument, field, 'resolve');
+  }
+
   public visitQuery(
     query: GraphQLObjectType<unknown, TContext>,
     schema: GraphQLSchema,
@@ -87,11 +170,11 @@ class AuthDirectiveVisitor<
   ): GraphQLObjectType<unknown, TContext> {
     const fields = Object.values(query.getFields());
     fields.forEach(field => {
-      const [directive] = getDirective(schema, field, directiveName) ?? [];
-      if (directive) {
+      if (this.isAuthenticationRequired(query, field, schema, directiveName)) {
         this.visitFieldDefinition(field);
       }
     });
+    this.visitArgumentsDefinitions(query, schema, directiveName, 'resolve');
 
     return query;
   }
@@ -103,13 +186,206 @@ class AuthDirectiveVisitor<
   ): GraphQLObjectType<unknown, TContext> {
     const fields = Object.values(query.getFields());
     fields.forEach(field => {
-      const [directive] = getDirective(schema, field, directiveName) ?? [];
-      if (directive) {
+      if (this.isAuthenticationRequired(query, field, schema, directiveName)) {
         this.visitFieldDefinition(field);
       }
     });
+    this.visitArgumentsDefinitions(query, schema, directiveName, 'resolve');
     return query;
   }
+
+  // the field resolve() is handled by visitFieldDefinition(), here
+  // the subscribe() is wrapped so the subscription is not even started
+  public visitSubscription(
+    subscription: GraphQLObjectType<unknown, TContext>,
+    schema: GraphQLSchema,
+    directiveName: string,
+  ): GraphQLObjectType<unknown, TContext> {
+    const { errorMessage } = this;
+    const fields = Object.values(subscription.getFields());
+    fields.forEach(field => {
+      if (
+        !this.isAuthenticationRequired(
+          subscription,
+          field,
+          schema,
+          directiveName,
+        )
+      ) {
+        return;
+      }
+      const { subscribe = defaultFieldResolver } = field;
+      // eslint-disable-next-line no-param-reassign
+      field.subscribe = function (...args): unknown {
+        const { isAuthenticated } = args[2];
+        if (!isAuthenticated.apply(this, args)) {
+          throw new AuthenticationError(errorMessage);
+        }
+
+        return subscribe.apply(this, args);
+      };
+    });
+    // the arguments are also given to subscribe()
+    this.visitArgumentsDefinitions(
+      subscription,
+      schema,
+      directiveName,
+      'subscribe',
+    );
+    return subscription;
+  }
+
+  // input fields may be used by any field arguments, after the whole
+  // schema is mapped they are all known
+  public applyToSchema(
+    schema: GraphQLSchema,
+    { requireAuthentication }: AuthApplyToSchemaOptions = {},
+  ): GraphQLSchema {
+    const directiveName = (this.constructor as typeof EasyDirectiveVisitor)
+      .defaultName;
+    this.requireAuthentication =
+      requireAuthentication ??
+      !!getDirective(schema, schema, directiveName)?.length;
+    this.publicFields = [];
+    const mappedSchema = super.applyToSchema(schema);
+    this.publicFields.sort();
+    this.visitInputFieldsDefinitions(mappedSchema, directiveName);
+    return mappedSchema;
+  }
+
+  // root fields marked with @auth or, if deny-by-default, not marked
+  // with @public. The others are added to publicFields
+  protected isAuthenticationRequired(
+    object: GraphQLObjectType<unknown, TContext>,
+    field: GraphQLField<unknown, TContext>,
+    schema: GraphQLSchema,
+    directiveName: string,
+  ): boolean {
+    const isRequired =
+      !!getDirective(schema, field, directiveName)?.length ||
+      (this.requireAuthentication &&
+        !getDirective(schema, field, PublicDirectiveVisitor.defaultName)
+          ?.length);
+    if (!isRequired) this.publicFields.push(`${object.name}.${field.name}`);
+    return isRequired;
+  }
+
+  protected requireAuthenticationIfUsed(
+    field: GraphQLField<unknown, TContext>,
+    key: FieldResolverKey,
+    isUsingAuthInput: IsUsingAuthInput,
+  ): void {
+    const { [key]: resolve = defaultFieldResolver } = field;
+    const { errorMessage } = this;
+
+    // eslint-disable-next-line no-param-reassign
+    field[key] = function (...args): unknown {
+      const { isAuthenticated } = args[2];
+      if (isUsingAuthInput(args[1]) && !isAuthenticated.apply(this, args)) {
+        throw new AuthenticationError(errorMessage);
+      }
+
+      return resolve.apply(this, args);
+    };
+  }
+
+  protected visitArgumentDefinitionForResolver(
+    argument: GraphQLArgument,
+    field: GraphQLField<unknown, TContext>,
+    key: FieldResolverKey,
+  ): void {
+    const defaultValue = getDefaultValue(argument);
+    this.requireAuthenticationIfUsed(field, key, args =>
+      isGivenValue(args[argument.name], defaultValue),
+    );
+  }
+
+  // root operations are not visited as objects, so their arguments are
+  // handled here
+  protected visitArgumentsDefinitions(
+    object: GraphQLObjectType<unknown, TContext>,
+    schema: GraphQLSchema,
+    directiveName: string,
+    key: FieldResolverKey,
+  ): void {
+    Object.values(object.getFields()).forEach(field => {
+      field.args.forEach(argument => {
+        const [directive] = getDirective(schema, argument, directiveName) ?? [];
+        if (directive) {
+          this.visitArgumentDefinitionForResolver(argument, field, key);
+        }
+      });
+    });
+  }
+
+  protected visitInputFieldsDefinitions(
+    schema: GraphQLSchema,
+    directiveName: string,
+  ): void {
+    const types = Object.values(schema.getTypeMap());
+    const inputObjects = types.filter(isInputObjectType);
+    const authInputFields: AuthInputFields = new Map();
+    inputObjects.forEach(inputObject => {
+      const names = Object.values(inputObject.getFields())
+        .filter(field => getDirective(schema, field, directiveName)?.length)
+        .map(field => field.name);
+      if (names.length > 0) authInputFields.set(inputObject, new Set(names));
+    });
+    if (authInputFields.size === 0) return;
+
+    const inputObjectsUsingAuth = getInputObjectsUsingAuth(
+      authInputFields,
+      inputObjects,
+    );
+    const isUsingInputObjectType = (type: GraphQLInputType): boolean => {
+      const namedType = getNamedType(type);
+      return (
+        isInputObjectType(namedType) && inputObjectsUsingAuth.has(namedType)
+      );
+    };
+    const isUsingAuthInput = (
+      type: GraphQLInputType,
+      value: unknown,
+    ): boolean => {
+      if (value === null || value === undefined) return false;
+      if (isNonNullType(type)) return isUsingAuthInput(type.ofType, value);
+      // lists are always coerced to arrays
+      if (isListType(type)) {
+        return (value as unknown[]).some(item =>
+          isUsingAuthInput(type.ofType, item),
+        );
+      }
+      if (!isUsingInputObjectType(type)) return false;
+      const inputObject = type as GraphQLInputObjectType;
+      const authFields = authInputFields.get(inputObject);
+      const inputValue = value as Record<string, unknown>;
+      return Object.values(inputObject.getFields()).some(
+        field =>
+          (authFields?.has(field.name) &&
+            isGivenValue(
+              inputValue[field.name],
+              getDefaultValue(inputObject, [field.name]),
+            )) ||
+          isUsingAuthInput(field.type, inputValue[field.name]),
+      );
+    };
+
+    const subscription = schema.getSubscriptionType();
+    types.filter(isObjectType).forEach(object => {
+      const key = object === subscription ? 'subscribe' : 'resolve';
+      Object.values(object.getFields()).forEach(field => {
+        const argumentsUsingAuth = field.args.filter(argument =>
+          isUsingInputObjectType(argument.type),
+        );
+        if (argumentsUsingAuth.length === 0) return;
+        this.requireAuthenticationIfUsed(field, key, args =>
+          argumentsUsingAuth.some(argument =>
+            isUsingAuthInput(argument.type, args[argument.name]),
+          ),
+        );
+      });
+    });
+  }
 }
 
 export default AuthDirectiveVisitor;
@@ -0,0 +1,161 @@
+import type { GraphQLSchema } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import Case, {
+  caseDirectiveSchemaEnumName,
+  CaseMode,
+  createValidate as createCaseDirectiveValidate,
+  DEFAULT_CASE_MODE,
+} from './case.js';
+import capitalize from './capitalize.js';
+
+import type { CreateSchemaConfig } from './test-utils.test.js';
+import {
+  testEasyDirective,
+  validationDirectionEnumTypeDefs,
+  validationDirectivePolicyArgs,
+} from './test-utils.test.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
+
+type RootValue = {
+  arrayTest?: (string | null)[] | null;
+  test?: string | null;
+};
+
+const directiveName = 'case';
+
+const createSchema = ({
+  name,
+  testCase: { directiveArgs },
+}: CreateSchemaConfig<RootValue>): GraphQLSchema =>
+  new Case().applyToSchema(
+    makeExecutableSchema({
+      typeDefs: [
+        ...Case.getTypeDefs(name, undefined, true, true),
+        gql`
+                type Query {
+                  test: String @${name}${directiveArgs}
+                  arrayTest: [String] @${name}${directiveArgs}
+                }
+              `,
+      ],
+    }),
+  );
+
+describe('directive @case error tests', () => {
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('should throw an error when "mode" is invalid', () => {
+    const invalidMode = 'INVALID_MODE' as CaseMode;
+    expect(() =>
+      createCaseDirectiveValidate({
+        mode: invalidMode,
+        policy: ValidateDirectivePolicy.RESOLVER,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidMode} is not accepted by this argument`,
+      ),
+    );
+  });
+});
+
+testEasyDirective({
+  createSchema,
+  DirectiveVisitor: Case,
+  expectedArgsTypeDefs: `\
+(
+  """
+  The BCP 47 language tag used to convert the case, ie: "tr" maps "i" to "İ". If null, locale independent rules are used
+  """
+  locale: String
+  mode: ${caseDirectiveSchemaEnumName}! = ${DEFAULT_CASE_MODE}
+  ${validationDirectivePolicyArgs(capitalize(directiveName))}
+)`,
+  expectedUnknownTypeDefs: `enum ${caseDirectiveSchemaEnumName} {
+  """The value of this field will be lower case"""
+  ${CaseMode.LOWER}
+  """The value of this field will be upper case"""
+  ${CaseMode.UPPER}
+  """
+  The value of this field will have the first letter of each word in upper case and the others in lower case
+  """
+  ${CaseMode.TITLE}
+}
+${validationDirectionEnumTypeDefs(capitalize(directiveName))}`,
+  name: directiveName,
+  testCases: [
+    {
+      directiveArgs: '(locale: "not a locale")',
+      error: new RangeError('@case(locale) is invalid: not a locale'),
+    },
+    {
+      directiveArgs: '',
+      operation: '{ test }',
+      tests: [
+        {
+          expected: { data: { test: 'john doe' } },
+          rootValue: { test: 'John DOE' },
+        },
+        {
+          expected: { data: { test: 'istanbul' } },
+          rootValue: { test: 'ISTANBUL' },
+        },
+        { rootValue: { test: null } },
+      ],
+    },
+    {
+      directiveArgs: `(mode: ${CaseMode.LOWER}, locale: "tr")`,
+      operation: '{ test }',
+      tests: [
+        {
+          expected: { data: { test: 'ıstanbul' } },
+          rootValue: { test: 'ISTANBUL' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(mode: ${CaseMode.UPPER})`,
+      operation: '{ arrayTest }',
+      tests: [
+        {
+          expected: { data: { arrayTest: ['JOHN DOE', 'STRASSE', null] } },
+          rootValue: { arrayTest: ['John Doe', 'straße', null] },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(mode: ${CaseMode.UPPER}, locale: "tr")`,
+      operation: '{ test }',
+      tests: [
+        {
+          expected: { data: { test: 'İZMİR' } },
+          rootValue: { test: 'izmir' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(mode: ${CaseMode.TITLE})`,
+      operation: '{ test }',
+      tests: [
+        {
+          expected: {
+            data: { test: "John O'neil-Smith (Jr.) Émile 2nd" },
+          },
+          rootValue: { test: "jOHN o'NEIL-smith (jr.) éMILE 2ND" },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(mode: ${CaseMode.TITLE}, locale: "tr")`,
+      operation: '{ test }',
+      tests: [
+        {
+          // the lower case of "I" is the dotless "ı" in Turkish
+          expected: { data: { test: 'İzmir Istanbul' } },
+          rootValue: { test: 'izmir ISTANBUL' },
+        },
+      ],
+    },
+  ],
+});
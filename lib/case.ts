@@ -0,0 +1,107 @@
+import { GraphQLEnumType, GraphQLNonNull, GraphQLString } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import neverAssertion from './utils/neverAssertion.js';
+import createPatternHandler from './patternCommon.js';
+
+export enum CaseMode {
+  LOWER = 'LOWER',
+  UPPER = 'UPPER',
+  TITLE = 'TITLE',
+}
+
+export const DEFAULT_CASE_MODE = CaseMode.LOWER;
+
+export const caseDirectiveSchemaEnumName = 'CaseDirectiveMode';
+
+type CaseDirectiveArgs = ValidationDirectiveArgs & {
+  mode: CaseMode;
+  locale?: string | null;
+};
+
+type Convert = (value: string) => string;
+
+// the first letter of each word, that is, not preceded by letters,
+// marks, digits or apostrophes (ie: "o'neil" becomes "O'neil")
+const titleCaseRegExp = /(^|[^\p{L}\p{M}\p{N}'\u2019])(\p{L})/gu;
+
+const checkLocale = (locale: string | null | undefined): void => {
+  if (locale === null || locale === undefined) return;
+  try {
+    // throws RangeError on invalid language tags
+    ''.toLocaleLowerCase(locale);
+  } catch (e) {
+    throw new RangeError(`@case(locale) is invalid: ${locale}`);
+  }
+};
+
+export const createValidate = ({
+  mode,
+  locale,
+}: CaseDirectiveArgs): ValidateFunction => {
+  checkLocale(locale);
+  const toLower: Convert = locale
+    ? (value: string): string => value.toLocaleLowerCase(locale)
+    : (value: string): string => value.toLowerCase();
+  const toUpper: Convert = locale
+    ? (value: string): string => value.toLocaleUpperCase(locale)
+    : (value: string): string => value.toUpperCase();
+  switch (mode) {
+    case CaseMode.LOWER:
+      return createPatternHandler(toLower);
+    case CaseMode.UPPER:
+      return createPatternHandler(toUpper);
+    case CaseMode.TITLE:
+      return createPatternHandler((value: string): string =>
+        toLower(value).replace(
+          titleCaseRegExp,
+          (_, separator: string, letter: string): string =>
+            separator + toUpper(letter),
+        ),
+      );
+    default:
+      return neverAssertion(mode);
+  }
+};
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'case',
+  directiveConfig: {
+    args: {
+      locale: {
+        description:
+          'The BCP 47 language tag used to convert the case, ie: "tr" maps "i" to "İ". If null, locale independent rules are used',
+        type: GraphQLString,
+      },
+      mode: {
+        defaultValue: DEFAULT_CASE_MODE,
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({
+            name: caseDirectiveSchemaEnumName,
+            values: {
+              [CaseMode.LOWER]: {
+                description: 'The value of this field will be lower case',
+                value: CaseMode.LOWER,
+              },
+              [CaseMode.UPPER]: {
+                description: 'The value of this field will be upper case',
+                value: CaseMode.UPPER,
+              },
+              [CaseMode.TITLE]: {
+                description:
+                  'The value of this field will have the first letter of each word in upper case and the others in lower case',
+                value: CaseMode.TITLE,
+              },
+            },
+          }),
+        ),
+      },
+    },
+    description: 'converts the case of a string based on the selected mode',
+  },
+});
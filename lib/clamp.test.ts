@@ -0,0 +1,139 @@
+import type { GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import Clamp from './clamp.js';
+import capitalize from './capitalize.js';
+
+describe('@clamp()', (): void => {
+  const name = 'clamp';
+  const directiveTypeDefs = Clamp.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Coerces numbers to the nearest boundary. If used on lists, applies to every item.
+"""
+directive @${name}(
+  """
+  Values greater than this are replaced by it. If null, no upper limit is applied
+  """
+  max: Float = null
+  """
+  Values less than this are replaced by it. If null, no lower limit is applied
+  """
+  min: Float = null
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      Clamp.getTypeDefs().map(print),
+    );
+  });
+
+  const createSchema = (directiveArgs: string): GraphQLSchema =>
+    new Clamp().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            input: (_, { arg }): number => arg.value,
+            list: (_, { arg }): string => JSON.stringify(arg),
+            test: (_, { arg }): number => arg,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...Clamp.getMissingCommonTypeDefs(),
+          gql`
+            input Input {
+              value: Float @${name}${directiveArgs}
+            }
+            type Query {
+              test(arg: Float @${name}${directiveArgs}): Float
+              input(arg: Input!): Float
+              list(arg: [Float] @${name}${directiveArgs}): String
+              output: [Float] @${name}${directiveArgs}
+              stringOutput: String @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const clamp = async (
+    schema: GraphQLSchema,
+    value: number,
+  ): Promise<unknown> => graphql({ schema, source: `{ test(arg: ${value}) }` });
+
+  it('fails if max is less than min', (): void => {
+    expect(() => createSchema('(min: 2, max: 1)')).toThrow(
+      new RangeError('@clamp(max) must be at least equal to min'),
+    );
+  });
+
+  it('does nothing without bounds', async (): Promise<void> => {
+    expect(await clamp(createSchema(''), -1e10)).toEqual({
+      data: { test: -1e10 },
+    });
+  });
+
+  it.each([
+    ['(min: 0, max: 10)', -1, 0],
+    ['(min: 0, max: 10)', 0, 0],
+    ['(min: 0, max: 10)', 5.5, 5.5],
+    ['(min: 0, max: 10)', 10, 10],
+    ['(min: 0, max: 10)', 10.1, 10],
+    ['(min: 1.5)', -100, 1.5],
+    ['(min: 1.5)', 100, 100],
+    ['(max: -1.5)', -100, -100],
+    ['(max: -1.5)', 100, -1.5],
+    ['(min: 1, max: 1)', 2, 1],
+  ])('%s coerces %d to %d', async (directiveArgs, value, expected) => {
+    expect(await clamp(createSchema(directiveArgs), value)).toEqual({
+      data: { test: expected },
+    });
+  });
+
+  it('works on input fields', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema: createSchema('(min: 0)'),
+        source: '{ input(arg: { value: -3 }) }',
+      }),
+    ).toEqual({ data: { input: 0 } });
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema: createSchema('(min: 0, max: 1)'),
+        source: '{ list(arg: [-1, 0.5, null, 2]) }',
+      }),
+    ).toEqual({ data: { list: '[0,0.5,null,1]' } });
+  });
+
+  it('works on output', async (): Promise<void> => {
+    expect(
+      await graphql({
+        rootValue: { output: [-1, 0.5, null, 2], stringOutput: '-1' },
+        schema: createSchema('(min: 0, max: 1)'),
+        source: '{ output stringOutput }',
+      }),
+    ).toEqual({ data: { output: [0, 0.5, null, 1], stringOutput: '-1' } });
+  });
+});
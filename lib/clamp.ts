@@ -0,0 +1,54 @@
+import { GraphQLFloat } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+
+type ClampDirectiveArgs = {
+  min: number | null;
+  max: number | null;
+} & ValidationDirectiveArgs;
+
+// istanbul ignore next (args set by default to null)
+const createValidate = ({
+  min = null,
+  max = null,
+}: ClampDirectiveArgs): ValidateFunction | undefined => {
+  if (min === null && max === null) return undefined;
+  if (min !== null && max !== null && max < min) {
+    throw new RangeError('@clamp(max) must be at least equal to min');
+  }
+  const lower = min === null ? -Infinity : min;
+  const upper = max === null ? Infinity : max;
+  return (value: unknown): unknown => {
+    if (typeof value !== 'number') return value;
+    if (value < lower) return lower;
+    if (value > upper) return upper;
+    return value;
+  };
+};
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'clamp',
+  directiveConfig: {
+    args: {
+      max: {
+        defaultValue: null,
+        description:
+          'Values greater than this are replaced by it. If null, no upper limit is applied',
+        type: GraphQLFloat,
+      },
+      min: {
+        defaultValue: null,
+        description:
+          'Values less than this are replaced by it. If null, no lower limit is applied',
+        type: GraphQLFloat,
+      },
+    },
+    description:
+      'Coerces numbers to the nearest boundary. If used on lists, applies to every item.',
+  },
+});
@@ -0,0 +1,97 @@
+import type { GraphQLSchema } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import CollapseWhitespace from './collapseWhitespace.js';
+import capitalize from './capitalize.js';
+
+import type { CreateSchemaConfig } from './test-utils.test.js';
+import {
+  testEasyDirective,
+  validationDirectivePolicyArgs,
+} from './test-utils.test.js';
+
+type RootValue = {
+  arrayTest?: (string | null)[] | null;
+  test?: string | null;
+  number?: number;
+};
+
+const directiveName = 'collapseWhitespace';
+
+const createSchema = ({
+  name,
+  testCase: { directiveArgs },
+}: CreateSchemaConfig<RootValue>): GraphQLSchema =>
+  new CollapseWhitespace().applyToSchema(
+    makeExecutableSchema({
+      typeDefs: [
+        ...CollapseWhitespace.getTypeDefs(name, undefined, true, true),
+        gql`
+                type Query {
+                  test: String @${name}${directiveArgs}
+                  arrayTest: [String] @${name}${directiveArgs}
+                  number: Int @${name}${directiveArgs}
+                }
+              `,
+      ],
+    }),
+  );
+
+testEasyDirective({
+  createSchema,
+  DirectiveVisitor: CollapseWhitespace,
+  expectedArgsTypeDefs: `\
+(
+  ${validationDirectivePolicyArgs(capitalize(directiveName))}
+)`,
+  name: directiveName,
+  testCases: [
+    {
+      directiveArgs: '',
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: 'John Doe' } },
+        {
+          expected: { data: { test: 'John Doe' } },
+          rootValue: { test: 'John  \t Doe' },
+        },
+        {
+          expected: { data: { test: 'first line second line' } },
+          rootValue: { test: 'first line\r\n\nsecond line' },
+        },
+        {
+          expected: { data: { test: 'no break space ideographic space' } },
+          rootValue: {
+            test: 'no\u00a0break\u00a0\u00a0space ideographic\u3000space',
+          },
+        },
+        {
+          expected: { data: { test: '  leading and trailing \n' } },
+          rootValue: { test: '  leading   and  trailing \n' },
+        },
+        { rootValue: { test: null } },
+      ],
+    },
+    {
+      directiveArgs: '',
+      operation: '{ arrayTest }',
+      tests: [
+        {
+          expected: { data: { arrayTest: ['a b', null] } },
+          rootValue: { arrayTest: ['a  b', null] },
+        },
+      ],
+    },
+    {
+      directiveArgs: '',
+      operation: '{ number }',
+      tests: [
+        {
+          expected: { data: { number: 12 } },
+          rootValue: { number: 12 },
+        },
+      ],
+    },
+  ],
+});
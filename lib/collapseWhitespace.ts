@@ -0,0 +1,22 @@
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import createPatternHandler from './patternCommon.js';
+
+// whitespace between non-whitespace characters, leading and trailing
+// whitespace are left to @trim
+const internalWhitespaceRegExp = /(?<=\S)\s+(?=\S)/gu;
+
+const collapseWhitespaceHandler = createPatternHandler(
+  (value: string): string => value.replace(internalWhitespaceRegExp, ' '),
+);
+
+export const createValidate = (): ValidateFunction => collapseWhitespaceHandler;
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'collapseWhitespace',
+  directiveConfig: {
+    description:
+      'replaces each sequence of whitespace (including tabs, new lines and Unicode spaces) inside a string with a single space',
+  },
+});
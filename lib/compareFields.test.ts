@@ -0,0 +1,301 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql, GraphQLInputObjectType } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import type { CompareFieldsOperator } from './compareFields.js';
+import CompareFields from './compareFields.js';
+import capitalize from './capitalize.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@compareFields()', (): void => {
+  const name = 'compareFields';
+  const directiveTypeDefs = CompareFields.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Compares two fields of the input object. Ignored if any of them is null.
+"""
+directive @${name}(
+  """The name of the field at the left of the comparison"""
+  left: String!
+  """The comparison operator"""
+  op: CompareFieldsOperator!
+  """The name of the field at the right of the comparison"""
+  right: String!
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on INPUT_OBJECT
+`,
+      `\
+enum CompareFieldsOperator {
+  """left must be equal to right"""
+  EQ
+  """left must be different from right"""
+  NE
+  """left must be less than right"""
+  LT
+  """left must be less than or equal to right"""
+  LTE
+  """left must be greater than right"""
+  GT
+  """left must be greater than or equal to right"""
+  GTE
+}
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      CompareFields.getTypeDefs().map(print),
+    );
+  });
+
+  const createSchema = (inputs: string): GraphQLSchema =>
+    new CompareFields().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            test: (
+              _,
+              { arg },
+              __,
+              { validationErrors }: ValidationErrorsResolverInfo,
+            ): object => ({
+              arg: JSON.stringify(arg),
+              validationErrors,
+            }),
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...CompareFields.getMissingCommonTypeDefs(),
+          gql`
+            ${inputs}
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: TestInput): Result
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (schema: GraphQLSchema, arg: string): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${arg}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  describe('fails on input object definition', (): void => {
+    it('left field not provided', (): void => {
+      expect(() =>
+        createSchema(`
+          input TestInput @${name}(left: "a", op: LT, right: "end") {
+            end: Int
+          }
+        `),
+      ).toThrow(
+        new RangeError(
+          '@compareFields(left) must be a field of TestInput, got: a',
+        ),
+      );
+    });
+
+    it('right field not provided', (): void => {
+      expect(() =>
+        createSchema(`
+          input TestInput @${name}(left: "start", op: LT, right: "b") {
+            start: Int
+          }
+        `),
+      ).toThrow(
+        new RangeError(
+          '@compareFields(right) must be a field of TestInput, got: b',
+        ),
+      );
+    });
+  });
+
+  describe('works with operators', (): void => {
+    const cases: [string, string, string, string | undefined][] = [
+      ['EQ', '1', '1', undefined],
+      ['EQ', '1', '2', 'start must be equal to end'],
+      ['NE', '1', '2', undefined],
+      ['NE', '1', '1', 'start must be different from end'],
+      ['LT', '1', '2', undefined],
+      ['LT', '2', '2', 'start must be less than end'],
+      ['LTE', '2', '2', undefined],
+      ['LTE', '3', '2', 'start must be less than or equal to end'],
+      ['GT', '3', '2', undefined],
+      ['GT', '2', '2', 'start must be greater than end'],
+      ['GTE', '2', '2', undefined],
+      ['GTE', '1', '2', 'start must be greater than or equal to end'],
+    ];
+    cases.forEach(([op, start, end, message]): void => {
+      it(`${start} ${op} ${end} ${
+        message ? 'fails' : 'works'
+      }`, async (): Promise<void> => {
+        const schema = createSchema(`
+          input TestInput @${name}(left: "start", op: ${op}, right: "end") {
+            start: Float
+            end: Float
+          }
+        `);
+        const arg = `{"start":${start},"end":${end}}`;
+        expect(
+          await doTest(schema, `{ start: ${start}, end: ${end} }`),
+        ).toEqual({
+          data: {
+            test: message
+              ? {
+                  arg: 'null',
+                  validationErrors: [{ message, path: ['arg', 'start'] }],
+                }
+              : { arg, validationErrors: null },
+          },
+        });
+      });
+    });
+  });
+
+  describe('works with dates as strings', (): void => {
+    const schema = createSchema(`
+      input TestInput @${name}(left: "startDate", op: LT, right: "endDate") {
+        startDate: String
+        endDate: String
+      }
+    `);
+
+    it('works if valid', async (): Promise<void> => {
+      const arg = '{"startDate":"2020-01-01","endDate":"2020-01-02"}';
+      expect(
+        await doTest(
+          schema,
+          '{ startDate: "2020-01-01", endDate: "2020-01-02" }',
+        ),
+      ).toEqual({
+        data: { test: { arg, validationErrors: null } },
+      });
+    });
+
+    it('ignores null and missing fields', async (): Promise<void> => {
+      const arg = '{"startDate":"2020-01-01","endDate":null}';
+      expect(
+        await doTest(schema, '{ startDate: "2020-01-01", endDate: null }'),
+      ).toEqual({
+        data: { test: { arg, validationErrors: null } },
+      });
+      expect(await doTest(schema, '{ endDate: "2020-01-01" }')).toEqual({
+        data: {
+          test: {
+            arg: JSON.stringify({ endDate: '2020-01-01' }),
+            validationErrors: null,
+          },
+        },
+      });
+    });
+
+    it('ignores null input objects', async (): Promise<void> => {
+      expect(await doTest(schema, 'null')).toEqual({
+        data: { test: { arg: 'null', validationErrors: null } },
+      });
+    });
+  });
+
+  describe('fails with values that cannot be compared', (): void => {
+    const schema = createSchema(`
+      input TestInput @${name}(left: "a", op: LT, right: "b") {
+        a: Int
+        b: String
+      }
+    `);
+
+    it('reports the left field', async (): Promise<void> => {
+      expect(await doTest(schema, '{ a: 1, b: "2" }')).toEqual({
+        data: {
+          test: {
+            arg: 'null',
+            validationErrors: [
+              { message: 'a and b cannot be compared', path: ['arg', 'a'] },
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe('works with THROW policy', (): void => {
+    const schema = createSchema(`
+      input TestInput @${name}(
+        left: "min"
+        op: LTE
+        right: "max"
+        policy: THROW
+      ) {
+        min: Int
+        max: Int
+      }
+    `);
+
+    it('throws and does not call the resolver', async (): Promise<void> => {
+      const expectedError = new InputFieldValidationError(
+        'min must be less than or equal to max',
+        'min',
+      );
+      expectedError.extensions.validation = {
+        path: ['arg', 'min'],
+        properties: undefined,
+      };
+      expectedError.locations = [{ column: 3, line: 2 }];
+      expectedError.path = ['test'];
+      expect(await doTest(schema, '{ min: 2, max: 1 }')).toEqual({
+        data: { test: null },
+        errors: [expectedError],
+      });
+    });
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "op" is invalid', (): void => {
+    const directive = new CompareFields();
+    const invalidOp = 'INVALID_OP' as CompareFieldsOperator;
+    directive.args = { left: 'a', op: invalidOp, right: 'b' };
+    const validate = directive.getValidationForArgs();
+    const type = new GraphQLInputObjectType({ fields: {}, name: 'TestInput' });
+    expect(() =>
+      validate({ a: 1, b: 2 }, type, type, {}, {}, undefined, {}),
+    ).toThrow(
+      new TypeError(`The value ${invalidOp} is not accepted by this argument`),
+    );
+  });
+});
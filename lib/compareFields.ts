@@ -0,0 +1,191 @@
+import type { GraphQLInputObjectType } from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLEnumType,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import isEqual from 'lodash.isequal';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import {
+  addInputObjectValidation,
+  ValidateDirectiveVisitorNonTyped,
+} from './ValidateDirectiveVisitor.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
+import neverAssertion from './utils/neverAssertion.js';
+
+export enum CompareFieldsOperator {
+  EQ = 'EQ',
+  NE = 'NE',
+  LT = 'LT',
+  LTE = 'LTE',
+  GT = 'GT',
+  GTE = 'GTE',
+}
+
+export const compareFieldsDirectiveSchemaEnumName = 'CompareFieldsOperator';
+
+export type CompareFieldsDirectiveArgs = {
+  left: string;
+  op: CompareFieldsOperator;
+  right: string;
+} & ValidationDirectiveArgs;
+
+type Comparable = number | string;
+
+const isComparable = (value: unknown): value is Comparable =>
+  typeof value === 'number' || typeof value === 'string';
+
+const operatorDescriptions: Record<CompareFieldsOperator, string> = {
+  [CompareFieldsOperator.EQ]: 'equal to',
+  [CompareFieldsOperator.NE]: 'different from',
+  [CompareFieldsOperator.LT]: 'less than',
+  [CompareFieldsOperator.LTE]: 'less than or equal to',
+  [CompareFieldsOperator.GT]: 'greater than',
+  [CompareFieldsOperator.GTE]: 'greater than or equal to',
+};
+
+const compare = (
+  left: unknown,
+  op: CompareFieldsOperator,
+  right: unknown,
+): boolean | undefined => {
+  switch (op) {
+    case CompareFieldsOperator.EQ:
+      return isEqual(left, right);
+    case CompareFieldsOperator.NE:
+      return !isEqual(left, right);
+    default:
+  }
+
+  if (
+    !isComparable(left) ||
+    !isComparable(right) ||
+    typeof left !== typeof right
+  ) {
+    return undefined;
+  }
+
+  switch (op) {
+    case CompareFieldsOperator.LT:
+      return left < right;
+    case CompareFieldsOperator.LTE:
+      return left <= right;
+    case CompareFieldsOperator.GT:
+      return left > right;
+    case CompareFieldsOperator.GTE:
+      return left >= right;
+    default:
+      return neverAssertion(op);
+  }
+};
+
+/*
+  graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
+  you'll get this error: "Type 'typeof Your_Directive_Class' is not assignable to type 'typeof SchemaDirectiveVisitor'.".
+  If you are using the old graphql-tools, you can use:
+  extends ValidateDirectiveVisitor<CompareFieldsDirectiveArgs, TContext>
+*/
+export default class CompareFieldsDirective extends ValidateDirectiveVisitorNonTyped {
+  public getValidationForArgs(): ValidateFunction {
+    const { left, op, right } = this.args as CompareFieldsDirectiveArgs;
+    const errorMessage = `${left} must be ${operatorDescriptions[op]} ${right}`;
+    const notComparableErrorMessage = `${left} and ${right} cannot be compared`;
+    return (value: unknown): unknown => {
+      const { [left]: leftValue, [right]: rightValue } = value as Record<
+        string,
+        unknown
+      >;
+      if (
+        leftValue === undefined ||
+        leftValue === null ||
+        rightValue === undefined ||
+        rightValue === null
+      ) {
+        return value;
+      }
+      const result = compare(leftValue, op, rightValue);
+      if (result === undefined) {
+        throw new InputFieldValidationError(notComparableErrorMessage, left);
+      }
+      if (!result) {
+        throw new InputFieldValidationError(errorMessage, left);
+      }
+      return value;
+    };
+  }
+
+  public visitInputObject(object: GraphQLInputObjectType): void {
+    const { left, right, policy } = this.args as CompareFieldsDirectiveArgs;
+    const fields = object.getFields();
+    if (!fields[left]) {
+      throw new RangeError(
+        `@compareFields(left) must be a field of ${object.name}, got: ${left}`,
+      );
+    }
+    if (!fields[right]) {
+      throw new RangeError(
+        `@compareFields(right) must be a field of ${object.name}, got: ${right}`,
+      );
+    }
+    addInputObjectValidation(object, this.getValidationForArgs(), policy);
+  }
+
+  public static readonly config: (typeof ValidateDirectiveVisitorNonTyped)['config'] =
+    {
+      args: {
+        left: {
+          description: 'The name of the field at the left of the comparison',
+          type: new GraphQLNonNull(GraphQLString),
+        },
+        op: {
+          description: 'The comparison operator',
+          type: new GraphQLNonNull(
+            new GraphQLEnumType({
+              name: compareFieldsDirectiveSchemaEnumName,
+              values: {
+                [CompareFieldsOperator.EQ]: {
+                  description: 'left must be equal to right',
+                  value: CompareFieldsOperator.EQ,
+                },
+                [CompareFieldsOperator.NE]: {
+                  description: 'left must be different from right',
+                  value: CompareFieldsOperator.NE,
+                },
+                [CompareFieldsOperator.LT]: {
+                  description: 'left must be less than right',
+                  value: CompareFieldsOperator.LT,
+                },
+                [CompareFieldsOperator.LTE]: {
+                  description: 'left must be less than or equal to right',
+                  value: CompareFieldsOperator.LTE,
+                },
+                [CompareFieldsOperator.GT]: {
+                  description: 'left must be greater than right',
+                  value: CompareFieldsOperator.GT,
+                },
+                [CompareFieldsOperator.GTE]: {
+                  description: 'left must be greater than or equal to right',
+                  value: CompareFieldsOperator.GTE,
+                },
+              },
+            }),
+          ),
+        },
+        right: {
+          description: 'The name of the field at the right of the comparison',
+          type: new GraphQLNonNull(GraphQLString),
+        },
+      },
+      description:
+        'Compares two fields of the input object. Ignored if any of them is null.',
+      locations: [DirectiveLocation.INPUT_OBJECT],
+    };
+
+  public static readonly defaultName: string = 'compareFields';
+}
@@ -26,6 +26,10 @@ export const createMapper = <T extends DirectiveLocation>(
     visitor.visitMutation(mutation, schema, directiveName);
     return mutation;
   },
+  [MapperKind.SUBSCRIPTION](subscription, schema): GraphQLObjectType {
+    visitor.visitSubscription(subscription, schema, directiveName);
+    return subscription;
+  },
   [MapperKind.OBJECT_TYPE](type, schema): GraphQLObjectType {
     Object.values(type.getFields()).forEach(field => {
       field.args.forEach(arg => {
@@ -37,6 +41,12 @@ export const createMapper = <T extends DirectiveLocation>(
           field,
         });
       });
+      const [fieldDirective] = getDirective(schema, field, directiveName) ?? [];
+      if (fieldDirective) {
+        // eslint-disable-next-line no-param-reassign
+        visitor.args = fieldDirective;
+        visitor.visitFieldArguments(field, { objectType: type });
+      }
     });
     const [directive] = getDirective(schema, type, directiveName) ?? [];
     if (!directive) return type;
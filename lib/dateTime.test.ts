@@ -0,0 +1,400 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import DateTime, {
+  createValidate as createDateTimeDirectiveValidate,
+  DateTimeFormat,
+  dateTimeDirectiveSchemaEnumName,
+  DEFAULT_DATE_TIME_FORMAT,
+} from './dateTime.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@dateTime()', (): void => {
+  const name = 'dateTime';
+  const directiveTypeDefs = DateTime.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+ensures value is a date-time string in the given format. If used on lists, applies to every item.
+"""
+directive @${name}(
+  format: ${dateTimeDirectiveSchemaEnumName}! = ${DEFAULT_DATE_TIME_FORMAT}
+  """
+  The maximum date-time (inclusive, ISO 8601) to allow. If null, no upper limit is applied
+  """
+  max: String
+  """
+  The maximum number of days before now to allow. If null, any past date is allowed
+  """
+  maxAgeDays: Int
+  """
+  The minimum date-time (inclusive, ISO 8601) to allow. If null, no lower limit is applied
+  """
+  min: String
+  """
+  The value of this field will be converted to UTC, as Date.toISOString(). DATE_ONLY values are kept as is
+  """
+  normalizeToUtc: Boolean! = false
+  """Rejects dates after now"""
+  notInFuture: Boolean! = false
+  """Rejects dates before now"""
+  notInPast: Boolean! = false
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+enum ${dateTimeDirectiveSchemaEnumName} {
+  """
+  ISO 8601 date, optionally with time and offset (UTC if not given), such as 2021-12-31T23:59Z
+  """
+  ${DateTimeFormat.ISO8601}
+  """
+  RFC 3339 date-time, with seconds and offset, such as 2021-12-31T23:59:59-03:00
+  """
+  ${DateTimeFormat.RFC3339}
+  """Date without time, such as 2021-12-31"""
+  ${DateTimeFormat.DATE_ONLY}
+}
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      DateTime.getTypeDefs().map(print),
+    );
+  });
+
+  const now = Date.parse('2022-06-15T12:00:00Z');
+  const contextValue = DateTime.createDirectiveContext({ now: () => now });
+
+  it('createDirectiveContext()', (): void => {
+    expect(contextValue.now()).toBe(now);
+    expect(DateTime.createDirectiveContext().now).toBe(Date.now);
+  });
+
+  const createSchema = (
+    directiveArgs = '',
+    argType = 'String',
+  ): GraphQLSchema =>
+    new DateTime().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            test: (
+              _,
+              { arg },
+              __,
+              { validationErrors }: ValidationErrorsResolverInfo,
+            ): object => ({
+              arg: JSON.stringify(arg),
+              validationErrors,
+            }),
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...DateTime.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: ${argType} @${name}${directiveArgs}): Result
+              output: [String] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    arg: string,
+    context: object | null = contextValue,
+  ): Promise<unknown> =>
+    graphql({
+      contextValue: context,
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${arg}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  const expectValid = async (
+    schema: GraphQLSchema,
+    value: string,
+    expected: string = value,
+  ): Promise<void> => {
+    expect(await doTest(schema, JSON.stringify(value))).toEqual({
+      data: {
+        test: { arg: JSON.stringify(expected), validationErrors: null },
+      },
+    });
+  };
+
+  const expectInvalid = async (
+    schema: GraphQLSchema,
+    value: string,
+    message: string,
+  ): Promise<void> => {
+    expect(await doTest(schema, JSON.stringify(value))).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [{ message, path: ['arg'] }],
+        },
+      },
+    });
+  };
+
+  describe('fails on definition', (): void => {
+    it.each([
+      [
+        '(min: "yesterday")',
+        '@dateTime(min) must be an ISO 8601 date-time, got: yesterday',
+      ],
+      [
+        '(max: "2021-02-30")',
+        '@dateTime(max) must be an ISO 8601 date-time, got: 2021-02-30',
+      ],
+      [
+        '(min: "2022-01-02", max: "2022-01-01")',
+        '@dateTime(max) must be at least equal to min',
+      ],
+      ['(maxAgeDays: -1)', '@dateTime(maxAgeDays) must be at least 0'],
+      [
+        '(notInPast: true, notInFuture: true)',
+        '@dateTime(notInPast, notInFuture) cannot be both true, but for DATE_ONLY',
+      ],
+    ])('%s', (directiveArgs, message): void => {
+      expect(() => createSchema(directiveArgs)).toThrow(
+        new RangeError(message),
+      );
+    });
+  });
+
+  describe('ISO8601', (): void => {
+    it.each([
+      '2021-12-31',
+      '2021-12-31T23:59',
+      '2021-12-31T23:59:59',
+      '2021-12-31T23:59:59.123456Z',
+      '2021-12-31T23:59:59,5+05',
+      '2021-12-31T23:59-0330',
+      '2020-02-29T00:00:00-23:59',
+      '0001-01-01',
+    ])('accepts %s', async (value): Promise<void> => {
+      await expectValid(createSchema(), value);
+    });
+
+    it.each([
+      '2021-12-31 23:59',
+      '2021-12-31T23',
+      '2021-13-01',
+      '2021-02-29',
+      '2021-04-31',
+      '2021-12-31T24:00',
+      '2021-12-31T23:60',
+      '2021-12-31T23:59:60',
+      '2021-12-31T23:59+24:00',
+      '2021-12-31T23:59+05:60',
+      '21-12-31',
+      '2021-12-31t23:59Z',
+    ])('rejects %s', async (value): Promise<void> => {
+      await expectInvalid(createSchema(), value, 'Invalid ISO 8601 date-time');
+    });
+
+    it('normalizes to UTC', async (): Promise<void> => {
+      const schema = createSchema('(normalizeToUtc: true)');
+      await expectValid(
+        schema,
+        '2021-12-31T21:30-03:00',
+        '2022-01-01T00:30:00.000Z',
+      );
+      await expectValid(schema, '2021-12-31', '2021-12-31T00:00:00.000Z');
+      await expectValid(
+        schema,
+        '0099-01-01T00:00:00.9999Z',
+        '0099-01-01T00:00:00.999Z',
+      );
+    });
+  });
+
+  describe('RFC3339', (): void => {
+    it.each([
+      '2021-12-31T23:59:59Z',
+      '2021-12-31t23:59:59z',
+      '2021-12-31 23:59:59.5-03:00',
+    ])('accepts %s', async (value): Promise<void> => {
+      await expectValid(createSchema('(format: RFC3339)'), value);
+    });
+
+    it.each([
+      '2021-12-31',
+      '2021-12-31T23:59Z',
+      '2021-12-31T23:59:59',
+      '2021-12-31T23:59:59+0300',
+      '2021-12-31T23:59:59,5Z',
+    ])('rejects %s', async (value): Promise<void> => {
+      await expectInvalid(
+        createSchema('(format: RFC3339)'),
+        value,
+        'Invalid RFC 3339 date-time',
+      );
+    });
+  });
+
+  describe('DATE_ONLY', (): void => {
+    it('accepts only dates and keeps them as is', async (): Promise<void> => {
+      const schema = createSchema('(format: DATE_ONLY, normalizeToUtc: true)');
+      await expectValid(schema, '2021-12-31');
+      await expectInvalid(
+        schema,
+        '2021-12-31T00:00Z',
+        'Invalid date, expected YYYY-MM-DD',
+      );
+    });
+
+    it('compares to the current day', async (): Promise<void> => {
+      const schema = createSchema(
+        '(format: DATE_ONLY, notInPast: true, notInFuture: true)',
+      );
+      await expectValid(schema, '2022-06-15');
+      await expectInvalid(schema, '2022-06-14', 'Date is in the past');
+      await expectInvalid(schema, '2022-06-16', 'Date is in the future');
+    });
+  });
+
+  it('checks min and max', async (): Promise<void> => {
+    const schema = createSchema(
+      '(min: "2022-01-01", max: "2022-12-31T23:59:59.999-03:00")',
+    );
+    await expectValid(schema, '2022-01-01');
+    await expectValid(schema, '2023-01-01T02:59:59.999Z');
+    await expectInvalid(
+      schema,
+      '2021-12-31T23:59:59.999Z',
+      'Date is before 2022-01-01',
+    );
+    await expectInvalid(
+      schema,
+      '2023-01-01T03:00Z',
+      'Date is after 2022-12-31T23:59:59.999-03:00',
+    );
+  });
+
+  it('checks notInPast and notInFuture', async (): Promise<void> => {
+    await expectValid(createSchema('(notInPast: true)'), '2022-06-15T12:00Z');
+    await expectInvalid(
+      createSchema('(notInPast: true)'),
+      '2022-06-15T11:59:59Z',
+      'Date is in the past',
+    );
+    await expectValid(createSchema('(notInFuture: true)'), '2022-06-15T12:00Z');
+    await expectInvalid(
+      createSchema('(notInFuture: true)'),
+      '2022-06-15T12:00:01Z',
+      'Date is in the future',
+    );
+  });
+
+  it('checks maxAgeDays', async (): Promise<void> => {
+    const schema = createSchema('(maxAgeDays: 7)');
+    await expectValid(schema, '2022-06-08T12:00Z');
+    await expectValid(schema, '2030-01-01');
+    await expectInvalid(
+      schema,
+      '2022-06-08T11:59Z',
+      'Date is older than 7 days',
+    );
+  });
+
+  it('uses Date.now() without directive context', async (): Promise<void> => {
+    const schema = createSchema('(notInPast: true)');
+    expect(await doTest(schema, '"2000-01-01"', null)).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [{ message: 'Date is in the past', path: ['arg'] }],
+        },
+      },
+    });
+    expect(await doTest(schema, '"9999-12-31"', {})).toEqual({
+      data: { test: { arg: '"9999-12-31"', validationErrors: null } },
+    });
+  });
+
+  it('rejects non-strings', async (): Promise<void> => {
+    expect(await doTest(createSchema('', 'Int'), '1')).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [
+            {
+              message: 'dateTime directive only works on strings',
+              path: ['arg'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    expect(
+      await graphql({
+        contextValue,
+        rootValue: { output: ['2021-12-31T21:30-03:00', null] },
+        schema: createSchema('(normalizeToUtc: true)'),
+        source: '{ output }',
+      }),
+    ).toEqual({ data: { output: ['2022-01-01T00:30:00.000Z', null] } });
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "format" is invalid', (): void => {
+    const invalidFormat = 'INVALID_FORMAT' as DateTimeFormat;
+    expect(() =>
+      createDateTimeDirectiveValidate({
+        format: invalidFormat,
+        normalizeToUtc: false,
+        notInFuture: false,
+        notInPast: false,
+        policy: ValidateDirectivePolicy.RESOLVER,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidFormat} is not accepted by this argument`,
+      ),
+    );
+  });
+});
@@ -0,0 +1,311 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLInt,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import { ValidateDirectiveVisitorNonTyped } from './ValidateDirectiveVisitor.js';
+import validateArrayOrValue from './validateArrayOrValue.js';
+import ValidationError from './errors/ValidationError.js';
+import neverAssertion from './utils/neverAssertion.js';
+
+export enum DateTimeFormat {
+  ISO8601 = 'ISO8601',
+  RFC3339 = 'RFC3339',
+  DATE_ONLY = 'DATE_ONLY',
+}
+
+export const DEFAULT_DATE_TIME_FORMAT = DateTimeFormat.ISO8601;
+
+export const dateTimeDirectiveSchemaEnumName = 'DateTimeDirectiveFormat';
+
+// milliseconds since the epoch, like Date.now()
+export type Clock = () => number;
+
+export type DateTimeContext<_ extends object = object> = {
+  now: Clock;
+};
+
+export type Args = {
+  format: DateTimeFormat;
+  min?: string | null;
+  max?: string | null;
+  notInPast: boolean;
+  notInFuture: boolean;
+  maxAgeDays?: number | null;
+  normalizeToUtc: boolean;
+} & ValidationDirectiveArgs;
+
+const millisecondsPerDay = 24 * 60 * 60 * 1000;
+
+// the time and the offset are optional, without offset it's taken as UTC
+const iso8601RegExp =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?(Z|[+-]\d{2}(?::?\d{2})?)?)?$/;
+
+// https://datatracker.ietf.org/doc/html/rfc3339#section-5.6
+const rfc3339RegExp =
+  /^(\d{4})-(\d{2})-(\d{2})[Tt ](\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?([Zz]|[+-]\d{2}:\d{2})$/;
+
+const dateOnlyRegExp = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const toNumber = (digits: string | undefined): number =>
+  digits ? Number(digits) : 0;
+
+// Z, +hh, +hhmm or +hh:mm
+const parseOffsetMinutes = (offset: string | undefined): number | null => {
+  if (!offset || offset.toUpperCase() === 'Z') return 0;
+  const digits = offset.slice(1).replace(':', '');
+  const hours = toNumber(digits.slice(0, 2));
+  const minutes = toNumber(digits.slice(2));
+  if (hours > 23 || minutes > 59) return null;
+  return (offset[0] === '-' ? -1 : 1) * (hours * 60 + minutes);
+};
+
+// returns the milliseconds since the epoch or null if the date is invalid,
+// such as 2021-02-30 or 25:00
+const parse = (re: RegExp, value: string): number | null => {
+  const match = re.exec(value);
+  if (!match) return null;
+  // DATE_ONLY has no time groups, then they are taken as 0
+  const [, year, month, day, hours, minutes, seconds] = Array.from(
+    { length: 7 },
+    (_, i) => toNumber(match[i]),
+  );
+  const offsetMinutes = parseOffsetMinutes(match[8]);
+  if (offsetMinutes === null || hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+  // Date.UTC() would map years 0 to 99 to 1900 to 1999
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  const milliseconds = Math.floor(toNumber(`0.${match[7] || 0}`) * 1000);
+  date.setUTCHours(hours, minutes, seconds, milliseconds);
+  return date.getTime() - offsetMinutes * 60 * 1000;
+};
+
+const getFormatRegExpAndErrorMessage = (
+  format: DateTimeFormat,
+): [RegExp, string] => {
+  switch (format) {
+    case DateTimeFormat.ISO8601:
+      return [iso8601RegExp, 'Invalid ISO 8601 date-time'];
+    case DateTimeFormat.RFC3339:
+      return [rfc3339RegExp, 'Invalid RFC 3339 date-time'];
+    case DateTimeFormat.DATE_ONLY:
+      return [dateOnlyRegExp, 'Invalid date, expected YYYY-MM-DD'];
+    default:
+      return neverAssertion(format);
+  }
+};
+
+const parseBound = (
+  name: string,
+  value: string | null | undefined,
+): number | null => {
+  if (value === null || value === undefined) return null;
+  const time = parse(iso8601RegExp, value);
+  if (time === null) {
+    throw new RangeError(
+      `@dateTime(${name}) must be an ISO 8601 date-time, got: ${value}`,
+    );
+  }
+  return time;
+};
+
+// time and reference (now) are milliseconds since the epoch
+type TimeCheck = (time: number, reference: number) => void;
+
+type BoundCheck = (time: number) => void;
+
+export const createValidate = ({
+  format,
+  min,
+  max,
+  notInPast,
+  notInFuture,
+  maxAgeDays,
+  normalizeToUtc,
+}: Args): ValidateFunction<Partial<DateTimeContext> | null | undefined> => {
+  const [re, invalidErrorMessage] = getFormatRegExpAndErrorMessage(format);
+  const minTime = parseBound('min', min);
+  const maxTime = parseBound('max', max);
+  if (minTime !== null && maxTime !== null && maxTime < minTime) {
+    throw new RangeError('@dateTime(max) must be at least equal to min');
+  }
+  // only the exact current instant would be accepted. Dates are compared
+  // to the current day instead, then both mean "today"
+  if (notInPast && notInFuture && format !== DateTimeFormat.DATE_ONLY) {
+    throw new RangeError(
+      '@dateTime(notInPast, notInFuture) cannot be both true, but for DATE_ONLY',
+    );
+  }
+  if (maxAgeDays !== null && maxAgeDays !== undefined && maxAgeDays < 0) {
+    throw new RangeError('@dateTime(maxAgeDays) must be at least 0');
+  }
+
+  const boundChecks: BoundCheck[] = [];
+  if (minTime !== null) {
+    const errorMessage = `Date is before ${min}`;
+    boundChecks.push((time: number): void => {
+      if (time < minTime) throw new ValidationError(errorMessage);
+    });
+  }
+  if (maxTime !== null) {
+    const errorMessage = `Date is after ${max}`;
+    boundChecks.push((time: number): void => {
+      if (time > maxTime) throw new ValidationError(errorMessage);
+    });
+  }
+  const clockChecks: TimeCheck[] = [];
+  if (notInPast) {
+    clockChecks.push((time: number, reference: number): void => {
+      if (time < reference) throw new ValidationError('Date is in the past');
+    });
+  }
+  if (notInFuture) {
+    clockChecks.push((time: number, reference: number): void => {
+      if (time > reference) throw new ValidationError('Date is in the future');
+    });
+  }
+  if (maxAgeDays !== null && maxAgeDays !== undefined) {
+    const errorMessage = `Date is older than ${maxAgeDays} days`;
+    const maxAge = maxAgeDays * millisecondsPerDay;
+    clockChecks.push((time: number, reference: number): void => {
+      if (time < reference - maxAge) throw new ValidationError(errorMessage);
+    });
+  }
+
+  // dates are compared to the start of the current (UTC) day, so today
+  // is neither in the past nor in the future
+  const getReference =
+    format === DateTimeFormat.DATE_ONLY
+      ? (now: number): number =>
+          Math.floor(now / millisecondsPerDay) * millisecondsPerDay
+      : (now: number): number => now;
+  const normalize =
+    normalizeToUtc && format !== DateTimeFormat.DATE_ONLY
+      ? (time: number): string => new Date(time).toISOString()
+      : null;
+
+  return (
+    value: unknown,
+    _: unknown,
+    __: unknown,
+    context: Partial<DateTimeContext> | null | undefined,
+  ): unknown => {
+    if (typeof value !== 'string') {
+      if (value === null || value === undefined) {
+        return value;
+      }
+      throw new ValidationError('dateTime directive only works on strings');
+    }
+    const time = parse(re, value);
+    if (time === null) throw new ValidationError(invalidErrorMessage);
+    boundChecks.forEach(check => check(time));
+    if (clockChecks.length > 0) {
+      const now = context?.now ? context.now() : Date.now();
+      const reference = getReference(now);
+      clockChecks.forEach(check => check(time, reference));
+    }
+    return normalize ? normalize(time) : value;
+  };
+};
+
+/*
+  graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
+  you'll get this error: "Type 'typeof Your_Directive_Class' is not assignable to type 'typeof SchemaDirectiveVisitor'.".
+  If you are using the old graphql-tools, you can use:
+  extends ValidateDirectiveVisitor<Args, TContext>
+*/
+export default class DateTimeDirective<
+  _ extends DateTimeContext,
+> extends ValidateDirectiveVisitorNonTyped {
+  public getValidationForArgs(): ValidateFunction<
+    Partial<DateTimeContext> | null | undefined
+  > {
+    return validateArrayOrValue(createValidate(this.args));
+  }
+
+  public static readonly config: (typeof ValidateDirectiveVisitorNonTyped)['config'] =
+    {
+      ...ValidateDirectiveVisitorNonTyped.config,
+      args: {
+        format: {
+          defaultValue: DEFAULT_DATE_TIME_FORMAT,
+          type: new GraphQLNonNull(
+            new GraphQLEnumType({
+              name: dateTimeDirectiveSchemaEnumName,
+              values: {
+                [DateTimeFormat.ISO8601]: {
+                  description:
+                    'ISO 8601 date, optionally with time and offset (UTC if not given), such as 2021-12-31T23:59Z',
+                  value: DateTimeFormat.ISO8601,
+                },
+                [DateTimeFormat.RFC3339]: {
+                  description:
+                    'RFC 3339 date-time, with seconds and offset, such as 2021-12-31T23:59:59-03:00',
+                  value: DateTimeFormat.RFC3339,
+                },
+                [DateTimeFormat.DATE_ONLY]: {
+                  description: 'Date without time, such as 2021-12-31',
+                  value: DateTimeFormat.DATE_ONLY,
+                },
+              },
+            }),
+          ),
+        },
+        max: {
+          description:
+            'The maximum date-time (inclusive, ISO 8601) to allow. If null, no upper limit is applied',
+          type: GraphQLString,
+        },
+        maxAgeDays: {
+          description:
+            'The maximum number of days before now to allow. If null, any past date is allowed',
+          type: GraphQLInt,
+        },
+        min: {
+          description:
+            'The minimum date-time (inclusive, ISO 8601) to allow. If null, no lower limit is applied',
+          type: GraphQLString,
+        },
+        normalizeToUtc: {
+          defaultValue: false,
+          description:
+            'The value of this field will be converted to UTC, as Date.toISOString(). DATE_ONLY values are kept as is',
+          type: new GraphQLNonNull(GraphQLBoolean),
+        },
+        notInFuture: {
+          defaultValue: false,
+          description: 'Rejects dates after now',
+          type: new GraphQLNonNull(GraphQLBoolean),
+        },
+        notInPast: {
+          defaultValue: false,
+          description: 'Rejects dates before now',
+          type: new GraphQLNonNull(GraphQLBoolean),
+        },
+      },
+      description:
+        'ensures value is a date-time string in the given format. If used on lists, applies to every item.',
+    };
+
+  public static readonly defaultName: string = 'dateTime';
+
+  // the clock is used by notInPast, notInFuture and maxAgeDays,
+  // if not given Date.now() is used
+  public static createDirectiveContext(
+    ctx: { now?: Clock } = {},
+  ): DateTimeContext {
+    return { now: ctx.now || Date.now };
+  }
+}
@@ -0,0 +1,60 @@
+import { GraphQLString } from 'graphql';
+
+import isEqual from 'lodash.isequal';
+
+export type DistinctItemsDirectiveArgs = {
+  by?: string | null;
+};
+
+export const defaultArgs = {
+  by: {
+    defaultValue: null,
+    description:
+      'The key path (ie: "id" or "author.id") to compare the items. If null, the whole items are compared (deep equality)',
+    type: GraphQLString,
+  },
+};
+
+export type GetItemKey = (item: unknown) => unknown;
+
+export const createGetItemKey = (by: string | null | undefined): GetItemKey => {
+  if (!by) return (item: unknown): unknown => item;
+  const keys = by.split('.');
+  return (item: unknown): unknown =>
+    keys.reduce(
+      (value: unknown, key: string): unknown =>
+        value === null || value === undefined
+          ? undefined
+          : (value as Record<string, unknown>)[key],
+      item,
+    );
+};
+
+/*
+  Returns, for each item, the index of the first item with an equal key
+  (deep equality), that is, its own index if it's the first occurrence.
+
+  Items without a key (null or undefined) are ignored and get `undefined`.
+*/
+export const getFirstOccurrences = (
+  items: readonly unknown[],
+  getItemKey: GetItemKey,
+): (number | undefined)[] => {
+  // primitives are looked up in constant time, objects are deep compared
+  const primitives = new Map<unknown, number>();
+  const objects: { key: unknown; index: number }[] = [];
+  return items.map((item, index): number | undefined => {
+    const key = getItemKey(item);
+    if (key === null || key === undefined) return undefined;
+    if (typeof key !== 'object') {
+      const first = primitives.get(key);
+      if (first !== undefined) return first;
+      primitives.set(key, index);
+      return index;
+    }
+    const first = objects.find(entry => isEqual(entry.key, key));
+    if (first) return first.index;
+    objects.push({ index, key });
+    return index;
+  });
+};
@@ -0,0 +1,332 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import Email, {
+  createValidate as createEmailDirectiveValidate,
+  DEFAULT_EMAIL_MODE,
+  emailDirectiveSchemaEnumName,
+  EmailMode,
+} from './email.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@email()', (): void => {
+  const name = 'email';
+  const directiveTypeDefs = Email.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+ensures value is an email address. If used on lists, applies to every item.
+"""
+directive @${name}(
+  """
+  Only accept these domains (or their sub-domains). If null, all domains are accepted
+  """
+  allowedDomains: [String!] = null
+  """Allows internationalized domain names (IDN), such as user@exämple.com"""
+  allowIDN: Boolean! = false
+  """
+  Reject these domains (or their sub-domains). If null, no domain is rejected
+  """
+  blockedDomains: [String!] = null
+  """
+  The domain part of the value of this field will be converted to lowercase
+  """
+  lowercaseDomain: Boolean! = false
+  mode: ${emailDirectiveSchemaEnumName}! = ${DEFAULT_EMAIL_MODE}
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+enum ${emailDirectiveSchemaEnumName} {
+  """The syntax used by browsers to validate email inputs (WHATWG HTML)"""
+  ${EmailMode.HTML5}
+  """
+  The RFC 5322 syntax, allowing quoted local parts and IPv4 domain literals, but requiring a dot in the domain
+  """
+  ${EmailMode.RFC5322}
+}
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      Email.getTypeDefs().map(print),
+    );
+  });
+
+  const createSchema = (directiveArgs = ''): GraphQLSchema =>
+    new Email().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            list: (_, { arg }): string => JSON.stringify(arg),
+            test: (
+              _,
+              { arg },
+              __,
+              { validationErrors }: ValidationErrorsResolverInfo,
+            ): object => ({
+              arg: JSON.stringify(arg),
+              validationErrors,
+            }),
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...Email.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: String @${name}${directiveArgs}): Result
+              list(arg: [String] @${name}${directiveArgs}): String
+              output: [String] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    email: string,
+  ): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${JSON.stringify(email)}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  const expectValid = async (
+    schema: GraphQLSchema,
+    email: string,
+    expected: string = email,
+  ): Promise<void> => {
+    expect(await doTest(schema, email)).toEqual({
+      data: {
+        test: { arg: JSON.stringify(expected), validationErrors: null },
+      },
+    });
+  };
+
+  const expectInvalid = async (
+    schema: GraphQLSchema,
+    email: string,
+    message = 'Invalid email address',
+  ): Promise<void> => {
+    expect(await doTest(schema, email)).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [{ message, path: ['arg'] }],
+        },
+      },
+    });
+  };
+
+  describe('HTML5 mode', (): void => {
+    const schema = createSchema();
+
+    it.each([
+      'john.doe@Example.com',
+      'a+tag@sub.example.co.uk',
+      'user@localhost',
+      'x..y.@example.com',
+    ])('accepts %s', async (email): Promise<void> => {
+      await expectValid(schema, email);
+    });
+
+    it.each([
+      'john.doe',
+      'john@',
+      '@example.com',
+      'john doe@example.com',
+      'john@-example.com',
+      'john@example..com',
+      '"john doe"@example.com',
+      `${'a'.repeat(65)}@example.com`,
+      `john@${'a'.repeat(63)}.${'b'.repeat(63)}.${'c'.repeat(63)}.${'d'.repeat(
+        63,
+      )}`,
+    ])('rejects %s', async (email): Promise<void> => {
+      await expectInvalid(schema, email);
+    });
+  });
+
+  describe('RFC5322 mode', (): void => {
+    const schema = createSchema(`(mode: ${EmailMode.RFC5322})`);
+
+    it.each([
+      'john.doe@example.com',
+      '"john doe"@example.com',
+      '"quoted\\\\@"@example.com',
+      'root@[192.168.0.1]',
+    ])('accepts %s', async (email): Promise<void> => {
+      await expectValid(schema, email);
+    });
+
+    it.each([
+      'user@localhost',
+      'x..y@example.com',
+      '.x@example.com',
+      'root@[256.0.0.1]',
+    ])('rejects %s', async (email): Promise<void> => {
+      await expectInvalid(schema, email);
+    });
+  });
+
+  describe('internationalized domain names', (): void => {
+    it('rejects by default', async (): Promise<void> => {
+      await expectInvalid(createSchema(), 'user@exämple.com');
+    });
+
+    it.each(['user@exämple.com', 'user@xn--exmple-cua.com'])(
+      'accepts %s if allowed',
+      async (email): Promise<void> => {
+        await expectValid(createSchema('(allowIDN: true)'), email);
+      },
+    );
+
+    it.each([
+      'user@ex ämple.com',
+      'user@exä_mple.com',
+      'user@exämple.com/evil',
+      'user@exämple.com:80',
+      'user@exämple.com?x=1',
+      'user@exämple.com#z',
+      'user@exämple.com\\x',
+      'user@ex%41ämple.com',
+      'user@exämple.com\t',
+      'user@exä<mple.com',
+    ])('rejects invalid domain %s', async (email): Promise<void> => {
+      await expectInvalid(createSchema('(allowIDN: true)'), email);
+    });
+  });
+
+  describe('domain lists', (): void => {
+    it('accepts only the allowed domains and sub-domains', async (): Promise<void> => {
+      const schema = createSchema('(allowedDomains: ["Example.com"])');
+      await expectValid(schema, 'a@example.com');
+      await expectValid(schema, 'b@mail.EXAMPLE.com');
+      await expectInvalid(
+        schema,
+        'a@notexample.com',
+        'Email domain is not allowed: notexample.com',
+      );
+    });
+
+    it('rejects the blocked domains and sub-domains', async (): Promise<void> => {
+      const schema = createSchema('(blockedDomains: ["spam.com"])');
+      await expectValid(schema, 'a@example.com');
+      await expectValid(schema, 'b@notspam.com');
+      await expectInvalid(
+        schema,
+        'a@Spam.com',
+        'Email domain is not allowed: Spam.com',
+      );
+      await expectInvalid(
+        schema,
+        'b@x.spam.com',
+        'Email domain is not allowed: x.spam.com',
+      );
+    });
+
+    it('does not match a converted domain that is not the given one', async (): Promise<void> => {
+      await expectInvalid(
+        createSchema('(allowIDN: true, allowedDomains: ["good.com"])'),
+        'a@good.com/ä',
+      );
+    });
+
+    it('matches internationalized domain names in both forms', async (): Promise<void> => {
+      await expectValid(
+        createSchema(
+          '(allowIDN: true, allowedDomains: ["xn--exmple-cua.com"])',
+        ),
+        'user@exämple.com',
+      );
+      await expectValid(
+        createSchema('(allowIDN: true, allowedDomains: ["exämple.com"])'),
+        'user@exämple.com',
+      );
+    });
+  });
+
+  it('normalizes the domain to lowercase', async (): Promise<void> => {
+    await expectValid(
+      createSchema('(lowercaseDomain: true)'),
+      'John.Doe@Example.COM',
+      'John.Doe@example.com',
+    );
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    const schema = createSchema('(lowercaseDomain: true)');
+    expect(
+      await graphql({
+        schema,
+        source: '{ list(arg: ["a@X.com", null, "b@Y.com"]) }',
+      }),
+    ).toEqual({ data: { list: '["a@x.com",null,"b@y.com"]' } });
+    expect(
+      await graphql({
+        rootValue: { output: ['John@Example.COM', 'invalid'] },
+        schema,
+        source: '{ output }',
+      }),
+    ).toMatchObject({
+      data: { output: null },
+      errors: [{ message: 'Invalid email address', path: ['output'] }],
+    });
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "mode" is invalid', (): void => {
+    const invalidMode = 'INVALID_MODE' as EmailMode;
+    expect(() =>
+      createEmailDirectiveValidate({
+        allowedDomains: null,
+        allowIDN: false,
+        blockedDomains: null,
+        lowercaseDomain: false,
+        mode: invalidMode,
+        policy: ValidateDirectivePolicy.RESOLVER,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidMode} is not accepted by this argument`,
+      ),
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import createPatternHandler from './patternCommon.js';
+import ValidationError from './errors/ValidationError.js';
+import neverAssertion from './utils/neverAssertion.js';
+
+export enum EmailMode {
+  HTML5 = 'HTML5',
+  RFC5322 = 'RFC5322',
+}
+
+export const DEFAULT_EMAIL_MODE = EmailMode.HTML5;
+
+export const emailDirectiveSchemaEnumName = 'EmailDirectiveMode';
+
+type EmailDirectiveArgs = {
+  mode: EmailMode;
+  allowIDN: boolean;
+  allowedDomains: string[] | null;
+  blockedDomains: string[] | null;
+  lowercaseDomain: boolean;
+} & ValidationDirectiveArgs;
+
+// https://html.spec.whatwg.org/multipage/input.html#valid-e-mail-address
+const html5LocalPartRegExp = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+$/;
+const html5DomainRegExp =
+  /^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+
+// https://datatracker.ietf.org/doc/html/rfc5322#section-3.4.1
+// dot-atom or quoted-string local part (folding white spaces are accepted
+// as they are), obsolete forms are not supported
+const rfc5322LocalPartRegExp =
+  // eslint-disable-next-line no-control-regex
+  /^(?:[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+)*|"(?:[\x01-\x09\x0b\x0c\x0e-\x21\x23-\x5b\x5d-\x7f]|\\[\x01-\x09\x0b\x0c\x0e-\x7f])*")$/;
+// dot-atom domain with at least 2 labels or an IPv4 domain-literal
+const rfc5322DomainRegExp =
+  /^(?:(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?|\[(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\])$/;
+
+// https://datatracker.ietf.org/doc/html/rfc5321#section-4.5.3.1
+const maxLocalPartLength = 64;
+const maxAddressLength = 254;
+
+const getRegExps = (mode: EmailMode): [RegExp, RegExp] => {
+  switch (mode) {
+    case EmailMode.HTML5:
+      return [html5LocalPartRegExp, html5DomainRegExp];
+    case EmailMode.RFC5322:
+      return [rfc5322LocalPartRegExp, rfc5322DomainRegExp];
+    default:
+      return neverAssertion(mode);
+  }
+};
+
+// eslint-disable-next-line no-control-regex
+const isASCII = (str: string): boolean => /^[\x00-\x7f]*$/.test(str);
+
+// URL delimiters would be dropped (or decoded) by the URL parser, then
+// the validated host would not be the given domain, ie: "exämple.com/evil"
+const urlDelimitersRegExp = /[\s/?#:\\@%]/;
+
+// converts IDN (internationalized domain names) to their ASCII form
+// (punycode), returns undefined if it is not a valid domain
+const toASCIIDomain = (domain: string): string | undefined => {
+  if (urlDelimitersRegExp.test(domain)) return undefined;
+  try {
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return undefined;
+  }
+};
+
+// matches the domain itself or any of its sub-domains
+const createDomainMatcher = (
+  domains: string[],
+): ((domain: string) => boolean) => {
+  const normalized = domains.map(domain => domain.toLowerCase());
+  return (domain: string): boolean =>
+    normalized.some(entry => domain === entry || domain.endsWith(`.${entry}`));
+};
+
+export const createValidate = ({
+  mode,
+  allowIDN,
+  allowedDomains,
+  blockedDomains,
+  lowercaseDomain,
+}: EmailDirectiveArgs): ValidateFunction => {
+  const [localPartRegExp, domainRegExp] = getRegExps(mode);
+  const isAllowed = allowedDomains && createDomainMatcher(allowedDomains);
+  const isBlocked = blockedDomains && createDomainMatcher(blockedDomains);
+  const errorMessage = 'Invalid email address';
+
+  return createPatternHandler((strValue: string): string => {
+    const at = strValue.lastIndexOf('@');
+    const localPart = strValue.slice(0, at);
+    let domain = strValue.slice(at + 1);
+    if (
+      at < 1 ||
+      localPart.length > maxLocalPartLength ||
+      strValue.length > maxAddressLength ||
+      !localPartRegExp.test(localPart)
+    ) {
+      throw new ValidationError(errorMessage);
+    }
+
+    let asciiDomain: string | undefined = domain;
+    if (!isASCII(domain)) {
+      asciiDomain = allowIDN ? toASCIIDomain(domain) : undefined;
+    }
+    if (!asciiDomain || !domainRegExp.test(asciiDomain)) {
+      throw new ValidationError(errorMessage);
+    }
+
+    const lowerDomain = domain.toLowerCase();
+    const lowerASCIIDomain = asciiDomain.toLowerCase();
+    const matches = (matcher: (domain: string) => boolean): boolean =>
+      matcher(lowerDomain) || matcher(lowerASCIIDomain);
+    if (
+      (isAllowed && !matches(isAllowed)) ||
+      (isBlocked && matches(isBlocked))
+    ) {
+      throw new ValidationError(`Email domain is not allowed: ${domain}`);
+    }
+
+    if (lowercaseDomain) domain = lowerDomain;
+    return `${localPart}@${domain}`;
+  });
+};
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'email',
+  directiveConfig: {
+    args: {
+      allowedDomains: {
+        defaultValue: null,
+        description:
+          'Only accept these domains (or their sub-domains). If null, all domains are accepted',
+        type: new GraphQLList(new GraphQLNonNull(GraphQLString)),
+      },
+      allowIDN: {
+        defaultValue: false,
+        description:
+          'Allows internationalized domain names (IDN), such as user@exämple.com',
+        type: new GraphQLNonNull(GraphQLBoolean),
+      },
+      blockedDomains: {
+        defaultValue: null,
+        description:
+          'Reject these domains (or their sub-domains). If null, no domain is rejected',
+        type: new GraphQLList(new GraphQLNonNull(GraphQLString)),
+      },
+      lowercaseDomain: {
+        defaultValue: false,
+        description:
+          'The domain part of the value of this field will be converted to lowercase',
+        type: new GraphQLNonNull(GraphQLBoolean),
+      },
+      mode: {
+        defaultValue: DEFAULT_EMAIL_MODE,
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({
+            name: emailDirectiveSchemaEnumName,
+            values: {
+              [EmailMode.HTML5]: {
+                description:
+                  'The syntax used by browsers to validate email inputs (WHATWG HTML)',
+                value: EmailMode.HTML5,
+              },
+              [EmailMode.RFC5322]: {
+                description:
+                  'The RFC 5322 syntax, allowing quoted local parts and IPv4 domain literals, but requiring a dot in the domain',
+                value: EmailMode.RFC5322,
+              },
+            },
+          }),
+        ),
+      },
+    },
+    description:
+      'ensures value is an email address. If used on lists, applies to every item.',
+  },
+});
@@ -0,0 +1,16 @@
+import ValidationError from './ValidationError.js';
+
+// Thrown by validations of the whole input object (or list) to report the
+// field (or item index) that caused the error, it's appended to the
+// validated value path.
+export default class InputFieldValidationError extends ValidationError {
+  field: string;
+
+  constructor(message: string, field: string) {
+    super(message);
+    this.field = field;
+    Object.defineProperty(this, 'name', {
+      value: InputFieldValidationError.name,
+    });
+  }
+}
@@ -0,0 +1,389 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import ExactlyOneOf from './exactlyOneOf.js';
+import Trim from './trim.js';
+import capitalize from './capitalize.js';
+import applyDirectivesToSchema from './utils/applyDirectivesToSchema.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@exactlyOneOf()', (): void => {
+  const name = 'exactlyOneOf';
+  const directiveTypeDefs = ExactlyOneOf.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""Exactly one of the fields (or arguments) must be provided (not null)"""
+directive @${name}(
+  """The fields (or arguments) to check. If null, all of them are checked"""
+  fields: [String!]
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on FIELD_DEFINITION | INPUT_OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      ExactlyOneOf.getTypeDefs().map(print),
+    );
+  });
+
+  const resolve = (
+    _: unknown,
+    args: object,
+    __: unknown,
+    { validationErrors }: ValidationErrorsResolverInfo,
+  ): object => ({
+    args: JSON.stringify(args),
+    validationErrors,
+  });
+
+  const createSchema = (typeDefs: string): GraphQLSchema =>
+    applyDirectivesToSchema(
+      [ExactlyOneOf, Trim],
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            argsTest: resolve,
+            inputTest: resolve,
+            throwTest: resolve,
+          },
+        },
+        resolverValidationOptions: { requireResolversToMatchSchema: 'ignore' },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...Trim.getTypeDefs(),
+          ...ExactlyOneOf.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              args: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            ${typeDefs}
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    field: string,
+  ): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          ${field} {
+            args
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  describe('fails on definition', (): void => {
+    it('input object with unknown field', (): void => {
+      expect(() =>
+        createSchema(`
+          input UserLookup @${name}(fields: ["id", "name"]) {
+            id: ID
+          }
+          type Query {
+            inputTest(lookup: UserLookup): Result
+          }
+        `),
+      ).toThrow(
+        new RangeError(
+          '@exactlyOneOf(fields) must only contain fields of UserLookup, got: name',
+        ),
+      );
+    });
+
+    it('field with unknown argument', (): void => {
+      expect(() =>
+        createSchema(`
+          type Query {
+            argsTest(id: ID): Result @${name}(fields: ["id", "name"])
+          }
+        `),
+      ).toThrow(
+        new RangeError(
+          '@exactlyOneOf(fields) must only contain fields of Query.argsTest, got: name',
+        ),
+      );
+    });
+  });
+
+  describe('works on input objects', (): void => {
+    const schema = createSchema(`
+      input UserLookup @${name} {
+        id: ID
+        email: String
+        username: String
+      }
+      type Query {
+        inputTest(lookup: UserLookup): Result
+      }
+    `);
+    const message = 'exactly one of id, email, username must be provided';
+
+    it('accepts exactly one field', async (): Promise<void> => {
+      expect(
+        await doTest(schema, 'inputTest(lookup: { email: "x@y.com" })'),
+      ).toEqual({
+        data: {
+          inputTest: {
+            args: '{"lookup":{"email":"x@y.com"}}',
+            validationErrors: null,
+          },
+        },
+      });
+    });
+
+    it('rejects more than one field', async (): Promise<void> => {
+      expect(
+        await doTest(
+          schema,
+          'inputTest(lookup: { id: "1", email: "x@y.com", username: "x" })',
+        ),
+      ).toEqual({
+        data: {
+          inputTest: {
+            args: '{"lookup":null}',
+            validationErrors: [{ message, path: ['lookup', 'email'] }],
+          },
+        },
+      });
+    });
+
+    it('rejects no fields, ignoring nulls', async (): Promise<void> => {
+      expect(await doTest(schema, 'inputTest(lookup: { id: null })')).toEqual({
+        data: {
+          inputTest: {
+            args: '{"lookup":null}',
+            validationErrors: [{ message, path: ['lookup'] }],
+          },
+        },
+      });
+    });
+  });
+
+  describe('works on field arguments', (): void => {
+    const schema = createSchema(`
+      type Query {
+        argsTest(
+          id: ID
+          email: String @trim
+          other: Int
+        ): Result @${name}(fields: ["id", "email"])
+        throwTest(id: ID, email: String): Result @${name}(policy: THROW)
+      }
+    `);
+    const message = 'exactly one of id, email must be provided';
+
+    it('accepts exactly one argument', async (): Promise<void> => {
+      expect(
+        await doTest(schema, 'argsTest(email: " x@y.com ", other: 1)'),
+      ).toEqual({
+        data: {
+          argsTest: {
+            args: '{"email":"x@y.com","other":1}',
+            validationErrors: null,
+          },
+        },
+      });
+    });
+
+    it('reports more than one argument to the resolver', async (): Promise<void> => {
+      expect(
+        await doTest(schema, 'argsTest(id: "1", email: " x@y.com ")'),
+      ).toEqual({
+        data: {
+          argsTest: {
+            args: '{"id":"1","email":"x@y.com"}',
+            validationErrors: [{ message, path: ['email'] }],
+          },
+        },
+      });
+    });
+
+    it('reports no arguments to the resolver', async (): Promise<void> => {
+      expect(await doTest(schema, 'argsTest(other: 1)')).toEqual({
+        data: {
+          argsTest: {
+            args: '{"other":1}',
+            validationErrors: [{ message, path: [] }],
+          },
+        },
+      });
+    });
+
+    it('accepts exactly one argument with THROW policy', async (): Promise<void> => {
+      expect(await doTest(schema, 'throwTest(id: "1")')).toEqual({
+        data: {
+          throwTest: { args: '{"id":"1"}', validationErrors: null },
+        },
+      });
+    });
+
+    it('throws and does not call the resolver', async (): Promise<void> => {
+      const expectedError = new InputFieldValidationError(
+        'exactly one of id, email must be provided',
+        'email',
+      );
+      expectedError.extensions.validation = {
+        path: ['email'],
+        properties: {
+          args: { policy: 'THROW' },
+          directive: name,
+        },
+      };
+      expect(
+        await doTest(schema, 'throwTest(id: "1", email: "x@y.com")'),
+      ).toEqual({
+        data: { throwTest: null },
+        errors: [expectedError],
+      });
+    });
+  });
+
+  it('validates input objects used by fields of nested objects', async (): Promise<void> => {
+    const schema = new ExactlyOneOf().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Nested: { search: resolve },
+          Query: { nested: (): object => ({}) },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...ExactlyOneOf.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              args: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            input Filter @${name} {
+              a: Int
+              b: Int
+            }
+            type Nested {
+              search(x: String, y: String, f: Filter): Result @${name}(fields: ["x", "y"])
+            }
+            type Query {
+              nested: Nested
+            }
+          `,
+        ],
+      }),
+    );
+    expect(
+      await graphql({
+        schema,
+        source: print(gql`
+          query {
+            nested {
+              search(x: "x", f: { a: 1, b: 2 }) {
+                args
+                validationErrors {
+                  message
+                  path
+                }
+              }
+            }
+          }
+        `),
+      }),
+    ).toEqual({
+      data: {
+        nested: {
+          search: {
+            args: '{"x":"x","f":null}',
+            validationErrors: [
+              {
+                message: 'exactly one of a, b must be provided',
+                path: ['f', 'b'],
+              },
+            ],
+          },
+        },
+      },
+    });
+  });
+
+  it('works on fields of nested objects', async (): Promise<void> => {
+    const schema = new ExactlyOneOf().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Nested: { argsTest: resolve },
+          Query: { nested: (): object => ({}) },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...ExactlyOneOf.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              args: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Nested {
+              argsTest(a: Int, b: Int): Result @${name}
+            }
+            type Query {
+              nested: Nested
+            }
+          `,
+        ],
+      }),
+    );
+    expect(
+      await graphql({
+        schema,
+        source: print(gql`
+          query {
+            nested {
+              argsTest(a: 1, b: 2) {
+                args
+                validationErrors {
+                  message
+                  path
+                }
+              }
+            }
+          }
+        `),
+      }),
+    ).toEqual({
+      data: {
+        nested: {
+          argsTest: {
+            args: '{"a":1,"b":2}',
+            validationErrors: [
+              { message: 'exactly one of a, b must be provided', path: ['b'] },
+            ],
+          },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import createPresentFieldsDirective from './presentFieldsCommon.js';
+
+export default createPresentFieldsDirective({
+  defaultName: 'exactlyOneOf',
+  description:
+    'Exactly one of the fields (or arguments) must be provided (not null)',
+  max: 1,
+  min: 1,
+  quantifier: 'exactly one of',
+});
@@ -1,13 +1,16 @@
 import type {
+  ExecutionResult,
   GraphQLFieldConfig,
   GraphQLObjectType,
   GraphQLResolveInfo,
+  GraphQLSchema,
 } from 'graphql';
 import {
   defaultFieldResolver,
   DirectiveLocation,
   graphql,
   GraphQLError,
+  subscribe,
 } from 'graphql';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { gql } from 'graphql-tag';
@@ -15,8 +18,10 @@ import { gql } from 'graphql-tag';
 import print from './utils/printer.js';
 import type { MissingPermissionsResolverInfo } from './hasPermissions.js';
 import {
+  createWildcardFilterMissingPermissions,
   debugFilterMissingPermissions,
   debugGetErrorMessage,
+  getPermissionsCacheKey,
   HasPermissionsDirectiveVisitorNonTyped,
   prodFilterMissingPermissions,
   prodGetErrorMessage,
@@ -47,10 +52,14 @@ describe('@hasPermissions()', (): void => {
       `\
 """ensures it has permissions before calling the resolver"""
 directive @${name}(
+  """
+  Permissions expression, such as "admin | (posts:write & posts:own)", using ! (not), & (and), | (or) and parentheses. Must be fulfilled in addition to permissions
+  """
+  expression: String
   """
   All permissions required by this field (or object). All must be fulfilled
   """
-  permissions: [String!]!
+  permissions: [String!]! = []
   """How to handle missing permissions"""
   policy: HasPermissionsDirectivePolicy = THROW
 ) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
@@ -156,6 +165,113 @@ enum HasPermissionsDirectivePolicy {
     });
   });
 
+  describe('createWildcardFilterMissingPermissions()', (): void => {
+    const granted = new Set([
+      'org:1:posts:read',
+      'org:2',
+      'org:*:members:read',
+      'org:3:*',
+    ]);
+
+    it('returns all if nothing is granted', (): void => {
+      const required = ['org:1:posts:read'];
+      expect(
+        createWildcardFilterMissingPermissions()(undefined, required),
+      ).toBe(required);
+    });
+
+    it('matches exact, wildcard and hierarchical permissions', (): void => {
+      const filter = createWildcardFilterMissingPermissions({
+        reportAllMissing: true,
+      });
+      expect(
+        filter(granted, [
+          'org:1:posts:read',
+          'org:2',
+          'org:2:posts:write',
+          'org:9:members:read',
+          'org:3:posts',
+          'org:3:posts:write',
+        ]),
+      ).toBe(null);
+      expect(
+        filter(granted, [
+          'org:1:posts:write',
+          'org:1:posts',
+          'org:1',
+          'org:9:members:write',
+          'org:3',
+          'org',
+        ]),
+      ).toEqual([
+        'org:1:posts:write',
+        'org:1:posts',
+        'org:1',
+        'org:9:members:write',
+        'org:3',
+        'org',
+      ]);
+    });
+
+    it('supports non hierarchical and other separators', (): void => {
+      const filter = createWildcardFilterMissingPermissions({
+        hierarchical: false,
+        reportAllMissing: true,
+        separator: '.',
+      });
+      const dotGranted = new Set(['org.2', 'org.*.read']);
+      expect(filter(dotGranted, ['org.2', 'org.1.read'])).toBe(null);
+      expect(filter(dotGranted, ['org.2.write', 'org.1.read.x'])).toEqual([
+        'org.2.write',
+        'org.1.read.x',
+      ]);
+    });
+
+    it('returns only the first missing if not reportAllMissing', (): void => {
+      const filter = createWildcardFilterMissingPermissions({
+        reportAllMissing: false,
+      });
+      expect(filter(granted, ['org:2:x', 'org:1:x', 'org:4'])).toEqual([
+        'org:1:x',
+      ]);
+      expect(filter(granted, ['org:2:x'])).toBe(null);
+    });
+
+    it('a granted "*" matches everything if hierarchical', (): void => {
+      const filter = createWildcardFilterMissingPermissions();
+      expect(filter(new Set(['*']), ['a', 'b:c:d'])).toBe(null);
+    });
+
+    it('compiles the granted permissions once per set', (): void => {
+      const filter = createWildcardFilterMissingPermissions();
+      const grantedSet = new Set(['a:b']);
+      expect(filter(grantedSet, ['a:b:c', 'x'])).toEqual(['x']);
+      // the set is not expected to change, then the trie is not compiled again
+      grantedSet.add('x');
+      expect(filter(grantedSet, ['x'])).toEqual(['x']);
+      expect(filter(new Set(grantedSet), ['x'])).toBe(null);
+    });
+
+    it('may be used by createDirectiveContext()', (): void => {
+      const ctx = HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext(
+        {
+          filterMissingPermissions: createWildcardFilterMissingPermissions(),
+          grantedPermissions: ['org:1'],
+        },
+      );
+      expect(
+        ctx.checkMissingPermissions(
+          ['org:1:posts:read', 'org:2:posts:read'],
+          'ck1',
+          {},
+          {},
+          {},
+          {} as GraphQLResolveInfo,
+        ),
+      ).toEqual(['org:2:posts:read']);
+    });
+  });
+
   describe('getErrorMessage', (): void => {
     it('debugGetErrorMessage() is verbose', (): void => {
       expect(debugGetErrorMessage([permissionX, permissionY])).toBe(
@@ -1327,6 +1443,426 @@ enum HasPermissionsDirectivePolicy {
     });
   });
 
+  describe('works with permissions expression', (): void => {
+    const createSchema = (directiveArgs: string): GraphQLSchema =>
+      new HasPermissionsDirectiveVisitorNonTyped().applyToSchema(
+        makeExecutableSchema({
+          resolvers: {
+            Query: {
+              missing: (
+                _: unknown,
+                __: unknown,
+                ___: unknown,
+                { missingPermissions }: MissingPermissionsResolverInfo,
+              ): string[] | null => missingPermissions || null,
+            },
+          },
+          typeDefs: [
+            ...directiveTypeDefs,
+            gql`
+              type Query {
+                test: Boolean @${name}(${directiveArgs})
+                missing: [String!] @${name}(${directiveArgs}, policy: RESOLVER)
+              }
+            `,
+          ],
+        }),
+      );
+    const source = print(gql`
+      query {
+        test
+      }
+    `);
+    const rootValue = { test: true };
+    const check = async (
+      directiveArgs: string,
+      granted: string[] | undefined,
+      filterMissingPermissions = debugFilterMissingPermissions,
+    ): Promise<ExecutionResult> =>
+      graphql({
+        contextValue:
+          HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+            filterMissingPermissions,
+            grantedPermissions: granted,
+          }),
+        rootValue,
+        schema: createSchema(directiveArgs),
+        source,
+      });
+    const expression = 'expression: "admin | (posts:write & posts:own)"';
+
+    it('if fulfilled, returns the value', async (): Promise<void> => {
+      expect(await check(expression, ['admin'])).toEqual({
+        data: rootValue,
+      });
+      expect(
+        await check(
+          expression,
+          ['posts:own', 'posts:write'],
+          prodFilterMissingPermissions,
+        ),
+      ).toEqual({ data: rootValue });
+    });
+
+    it('if NOT fulfilled, reports the branches that failed', async (): Promise<void> => {
+      expect(await check(expression, ['posts:write'])).toEqual({
+        data: { test: null },
+        errors: [new ForbiddenError('Missing Permissions: admin | posts:own')],
+      });
+      expect(await check(expression, undefined)).toEqual({
+        data: { test: null },
+        errors: [
+          new ForbiddenError(
+            'Missing Permissions: admin | (posts:write & posts:own)',
+          ),
+        ],
+      });
+    });
+
+    it('supports not', async (): Promise<void> => {
+      const notExpression = 'expression: "posts:read & !(banned | muted)"';
+      expect(await check(notExpression, ['posts:read'])).toEqual({
+        data: rootValue,
+      });
+      expect(await check(notExpression, ['posts:read', 'muted'])).toEqual({
+        data: { test: null },
+        errors: [new ForbiddenError('Missing Permissions: !(banned | muted)')],
+      });
+      expect(await check('expression: "!!banned & !x"', ['x'])).toEqual({
+        data: { test: null },
+        errors: [new ForbiddenError('Missing Permissions: !!banned, !x')],
+      });
+    });
+
+    it('must be fulfilled in addition to permissions', async (): Promise<void> => {
+      const args = `permissions: ["${permissionX}"], ${expression}`;
+      expect(await check(args, [permissionX, 'admin'])).toEqual({
+        data: rootValue,
+      });
+      expect(await check(args, ['admin'])).toEqual({
+        data: { test: null },
+        errors: [new ForbiddenError(`Missing Permissions: ${permissionX}`)],
+      });
+      expect(await check(args, undefined)).toEqual({
+        data: { test: null },
+        errors: [
+          new ForbiddenError(
+            `Missing Permissions: ${permissionX}, admin | (posts:write & posts:own)`,
+          ),
+        ],
+      });
+    });
+
+    it('injects missingPermissions if policy: RESOLVER', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue:
+          HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+            grantedPermissions: ['c'],
+          }),
+        schema: createSchema('expression: "a | b | (c | d) & e"'),
+        source: '{ missing }',
+      });
+      expect(result).toEqual({
+        data: { missing: ['a | b | e'] },
+      });
+    });
+
+    it('checks each permission by itself, sharing the cache', async (): Promise<void> => {
+      const context =
+        HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+          grantedPermissions: ['x'],
+        });
+      const checkMissingPermissions = jest.fn(context.checkMissingPermissions);
+      await graphql({
+        contextValue: { checkMissingPermissions },
+        rootValue,
+        schema: createSchema('expression: "(x & y) | x"'),
+        source,
+      });
+      expect(
+        checkMissingPermissions.mock.calls.map(([permissions, cacheKey]) => [
+          permissions,
+          cacheKey,
+        ]),
+      ).toEqual([
+        [['x'], '["x"]'],
+        [['y'], '["y"]'],
+        [['x'], '["x"]'],
+      ]);
+    });
+
+    it('throws if the expression is invalid', (): void => {
+      [
+        ['a |', 'unexpected end'],
+        ['a b', 'unexpected "b"'],
+        ['(a & b', 'unexpected end'],
+        ['a & | b', 'unexpected "|"'],
+        ['a)', 'unexpected ")"'],
+        [' ', 'unexpected end'],
+      ].forEach(([invalidExpression, reason]) => {
+        expect(() =>
+          createSchema(`expression: "${invalidExpression}"`),
+        ).toThrow(
+          new RangeError(
+            `Invalid permissions expression "${invalidExpression}": ${reason}`,
+          ),
+        );
+      });
+    });
+
+    it('an empty expression has no effect', async (): Promise<void> => {
+      expect(await check('expression: ""', undefined)).toEqual({
+        data: rootValue,
+      });
+    });
+  });
+
+  describe('works with permissions templates', (): void => {
+    const schema = new HasPermissionsDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            expression: (): boolean => true,
+            flagged: (): boolean => true,
+            nested: (): boolean => true,
+            notBanned: (): boolean => true,
+            project: (): boolean => true,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            input ProjectInput {
+              id: ID
+            }
+            type Project {
+              id: ID!
+              secret: String
+                @${name}(permissions: ["project:{source.id}:secret"])
+            }
+            type Query {
+              project(projectId: ID!): Boolean
+                @${name}(permissions: ["base", "project:{args.projectId}:read"])
+              nested(input: ProjectInput): Boolean
+                @${name}(permissions: ["project:{args.input.id}:read"])
+              flagged(flag: Boolean): Boolean
+                @${name}(permissions: ["flag:{args.flag}"])
+              expression(projectId: ID): Boolean
+                @${name}(expression: "admin | project:{args.projectId}:write")
+              notBanned(projectId: ID): Boolean
+                @${name}(expression: "!project:{args.projectId}:banned")
+              projects: [Project]
+            }
+          `,
+        ],
+      }),
+    );
+    const run = async (
+      source: string,
+      granted: string[],
+      contextValue: object = HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext(
+        {
+          filterMissingPermissions: debugFilterMissingPermissions,
+          grantedPermissions: granted,
+        },
+      ),
+    ): Promise<ExecutionResult> =>
+      graphql({
+        contextValue,
+        rootValue: {
+          projects: [
+            { id: 1, secret: 's1' },
+            { id: '2', secret: 's2' },
+          ],
+        },
+        schema,
+        source,
+      });
+
+    it('interpolates the arguments', async (): Promise<void> => {
+      const context =
+        HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+          filterMissingPermissions: debugFilterMissingPermissions,
+          grantedPermissions: ['base', 'project:1:read'],
+        });
+      const checkMissingPermissions = jest.fn(context.checkMissingPermissions);
+      expect(
+        await run(
+          '{ a: project(projectId: "1") b: project(projectId: "2") c: project(projectId: "1") }',
+          [],
+          { checkMissingPermissions },
+        ),
+      ).toEqual({
+        data: { a: true, b: null, c: true },
+        errors: [new ForbiddenError('Missing Permissions: project:2:read')],
+      });
+      // the cacheKey is given by the resolved permissions
+      expect(checkMissingPermissions.mock.calls.map(([, key]) => key)).toEqual([
+        getPermissionsCacheKey(['base', 'project:1:read']),
+        getPermissionsCacheKey(['base', 'project:2:read']),
+        getPermissionsCacheKey(['base', 'project:1:read']),
+      ]);
+    });
+
+    it('interpolates nested arguments and scalars', async (): Promise<void> => {
+      expect(
+        await run('{ nested(input: { id: "1" }) flagged(flag: true) }', [
+          'project:1:read',
+          'flag:true',
+        ]),
+      ).toEqual({ data: { flagged: true, nested: true } });
+    });
+
+    it('interpolates the source (parent object)', async (): Promise<void> => {
+      expect(
+        await run('{ projects { id secret } }', ['project:1:secret']),
+      ).toEqual({
+        data: {
+          projects: [
+            { id: '1', secret: 's1' },
+            { id: '2', secret: null },
+          ],
+        },
+        errors: [new ForbiddenError('Missing Permissions: project:2:secret')],
+      });
+    });
+
+    it('if the value is missing, the template is missing', async (): Promise<void> => {
+      expect(
+        await run('{ nested flagged a: nested(input: {}) }', ['*']),
+      ).toEqual({
+        data: { a: null, flagged: null, nested: null },
+        errors: [
+          new ForbiddenError(
+            'Missing Permissions: project:{args.input.id}:read',
+          ),
+          new ForbiddenError('Missing Permissions: flag:{args.flag}'),
+          new ForbiddenError(
+            'Missing Permissions: project:{args.input.id}:read',
+          ),
+        ],
+      });
+    });
+
+    it('if the value changes the permission structure, the template is missing', async (): Promise<void> => {
+      const context =
+        HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+          filterMissingPermissions: createWildcardFilterMissingPermissions(),
+          grantedPermissions: ['project:1:read'],
+        });
+      expect(
+        await run(
+          '{ a: expression(projectId: "1:read") b: expression(projectId: "*") c: expression(projectId: "1 ") d: project(projectId: "1") }',
+          [],
+          context,
+        ),
+      ).toEqual({
+        data: { a: null, b: null, c: null, d: null },
+        errors: [
+          new ForbiddenError(
+            'Missing Permissions: admin | project:{args.projectId}:write',
+          ),
+          new ForbiddenError(
+            'Missing Permissions: admin | project:{args.projectId}:write',
+          ),
+          new ForbiddenError(
+            'Missing Permissions: admin | project:{args.projectId}:write',
+          ),
+          new ForbiddenError('Missing Permissions: base'),
+        ],
+      });
+    });
+
+    it('if the value is unresolved, negated templates are missing', async (): Promise<void> => {
+      const context =
+        HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+          filterMissingPermissions: createWildcardFilterMissingPermissions(),
+          grantedPermissions: ['project:1:banned'],
+        });
+      expect(
+        await run(
+          '{ a: notBanned(projectId: "1") b: notBanned(projectId: "2") c: notBanned(projectId: "1:x") d: notBanned(projectId: " 1") e: notBanned }',
+          [],
+          context,
+        ),
+      ).toEqual({
+        data: { a: null, b: true, c: null, d: null, e: null },
+        errors: [
+          new ForbiddenError('Missing Permissions: !project:1:banned'),
+          new ForbiddenError(
+            'Missing Permissions: !project:{args.projectId}:banned',
+          ),
+          new ForbiddenError(
+            'Missing Permissions: !project:{args.projectId}:banned',
+          ),
+          new ForbiddenError(
+            'Missing Permissions: !project:{args.projectId}:banned',
+          ),
+        ],
+      });
+    });
+
+    it('interpolates expressions', async (): Promise<void> => {
+      expect(
+        await run(
+          '{ a: expression(projectId: "1") b: expression(projectId: "2") c: expression }',
+          ['project:1:write'],
+        ),
+      ).toEqual({
+        data: { a: true, b: null, c: null },
+        errors: [
+          new ForbiddenError('Missing Permissions: admin | project:2:write'),
+          new ForbiddenError(
+            'Missing Permissions: admin | project:{args.projectId}:write',
+          ),
+        ],
+      });
+    });
+
+    it('throws if the template is invalid', (): void => {
+      const createSchema = (directiveArgs: string): GraphQLSchema =>
+        new HasPermissionsDirectiveVisitorNonTyped().applyToSchema(
+          makeExecutableSchema({
+            typeDefs: [
+              ...directiveTypeDefs,
+              gql`
+                type Query {
+                  test: Boolean @${name}(${directiveArgs})
+                }
+              `,
+            ],
+          }),
+        );
+      [
+        [
+          'a:{b}',
+          'unknown placeholder "{b}", expected {args.path} or {source.path}',
+        ],
+        [
+          'a:{args}',
+          'unknown placeholder "{args}", expected {args.path} or {source.path}',
+        ],
+        [
+          'a:{args.}',
+          'unknown placeholder "{args.}", expected {args.path} or {source.path}',
+        ],
+        ['a:{args.b', 'unbalanced braces'],
+        ['a:args.b}', 'unbalanced braces'],
+        ['a:{{args.b}}', 'unbalanced braces'],
+      ].forEach(([template, reason]) => {
+        const error = new RangeError(
+          `Invalid permission template "${template}": ${reason}`,
+        );
+        expect(() => createSchema(`permissions: ["${template}"]`)).toThrow(
+          error,
+        );
+        expect(() => createSchema(`expression: "x | ${template}"`)).toThrow(
+          error,
+        );
+      });
+    });
+  });
+
   describe('works on Mutations', () => {
     const mutationMockResolver = jest.fn(() => {
       return 'resolverReturn';
@@ -1409,6 +1945,80 @@ enum HasPermissionsDirectivePolicy {
     });
   });
 
+  describe('works on Subscriptions', () => {
+    const mockSubscribe = jest.fn(async function* (): AsyncGenerator<object> {
+      yield { testSubscription: 'payload' };
+    });
+
+    beforeEach((): void => {
+      mockSubscribe.mockClear();
+    });
+
+    const schema = new HasPermissionsDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            dummyQuery: () => 0,
+          },
+          Subscription: {
+            testSubscription: { subscribe: mockSubscribe },
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+          type Query {
+            dummyQuery: Int
+          }
+          type Subscription {
+            testSubscription: String @${name}(permissions: ["${permissionX}"])
+          }
+        `,
+        ],
+      }),
+    );
+    const document = gql`
+      subscription {
+        testSubscription
+      }
+    `;
+
+    it('should not subscribe if has no permissions', async (): Promise<void> => {
+      const contextValue =
+        HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+          filterMissingPermissions: debugFilterMissingPermissions,
+          grantedPermissions: [],
+        });
+      const result = await subscribe({
+        contextValue,
+        document,
+        schema,
+      });
+      expect(result).toEqual({
+        errors: [new ForbiddenError(`Missing Permissions: ${permissionX}`)],
+      });
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
+    it('should subscribe if have the permissions', async (): Promise<void> => {
+      const contextValue =
+        HasPermissionsDirectiveVisitorNonTyped.createDirectiveContext({
+          filterMissingPermissions: debugFilterMissingPermissions,
+          grantedPermissions: [permissionX],
+        });
+      const result = (await subscribe({
+        contextValue,
+        document,
+        schema,
+      })) as AsyncGenerator<unknown>;
+      expect(await result.next()).toEqual({
+        done: false,
+        value: { data: { testSubscription: 'payload' } },
+      });
+      expect(mockSubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it('throws if missingPermissions argument type is wrong', async (): Promise<void> => {
     /*
       graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
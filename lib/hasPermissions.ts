@@ -25,6 +25,17 @@ import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
 import ValidateDirectiveVisitor, {
   ValidateDirectivePolicy,
 } from './ValidateDirectiveVisitor.js';
+import {
+  filterMissingPermissionsExpression,
+  getPermissionsExpressionLeaves,
+  parsePermissionsExpression,
+  printPermissionsExpression,
+} from './permissionsExpression.js';
+import type { ResolvePermission } from './permissionsTemplate.js';
+import {
+  compilePermissionsTemplates,
+  compilePermissionTemplate,
+} from './permissionsTemplate.js';
 
 const isDebug = !!(
   process &&
@@ -82,6 +93,102 @@ export const prodFilterMissingPermissions = (
   return [missing];
 };
 
+type PermissionsTrieNode = {
+  children: Map<string, PermissionsTrieNode>;
+  // child matching any segment, from the "*" segment
+  wildcard: PermissionsTrieNode | null;
+  granted: boolean;
+};
+
+const createPermissionsTrieNode = (): PermissionsTrieNode => ({
+  children: new Map(),
+  granted: false,
+  wildcard: null,
+});
+
+export type WildcardFilterMissingPermissionsOptions = {
+  // splits the permissions in segments, defaults to ":"
+  separator?: string;
+  // granted "a:b" implies "a:b:c", defaults to true
+  hierarchical?: boolean;
+  // gather all missing permissions (debug) or only the first (prod),
+  // defaults to NODE_ENV !== 'production'
+  reportAllMissing?: boolean;
+};
+
+/*
+  Matches the permissions segment by segment, a granted "org:*:read"
+  matches "org:123:read" and, if hierarchical, a granted "org:123"
+  (or "org:123:*") also matches "org:123:posts:write".
+
+  The granted permissions are compiled in a trie once per set, that is,
+  once per context given by createDirectiveContext(), then each check
+  walks only the required permission segments.
+*/
+export const createWildcardFilterMissingPermissions = ({
+  separator = ':',
+  hierarchical = true,
+  reportAllMissing = isDebug,
+}: WildcardFilterMissingPermissionsOptions = {}): FilterMissingPermissions => {
+  const compiledTries = new WeakMap<Set<string>, PermissionsTrieNode>();
+
+  const compile = (grantedPermissions: Set<string>): PermissionsTrieNode => {
+    const root = createPermissionsTrieNode();
+    grantedPermissions.forEach(permission => {
+      let node = root;
+      permission.split(separator).forEach(segment => {
+        if (segment === '*') {
+          if (!node.wildcard) node.wildcard = createPermissionsTrieNode();
+          node = node.wildcard;
+          return;
+        }
+        let child = node.children.get(segment);
+        if (!child) {
+          child = createPermissionsTrieNode();
+          node.children.set(segment, child);
+        }
+        node = child;
+      });
+      node.granted = true;
+    });
+    compiledTries.set(grantedPermissions, root);
+    return root;
+  };
+
+  const isGranted = (
+    node: PermissionsTrieNode | null | undefined,
+    segments: string[],
+    index: number,
+  ): boolean => {
+    if (!node) return false;
+    if (index === segments.length) return node.granted;
+    if (hierarchical && node.granted) return true;
+    return (
+      isGranted(node.children.get(segments[index]), segments, index + 1) ||
+      isGranted(node.wildcard, segments, index + 1)
+    );
+  };
+
+  return (
+    grantedPermissions: Set<string> | undefined,
+    requiredPermissions: string[],
+  ): null | string[] => {
+    if (!grantedPermissions) {
+      return requiredPermissions;
+    }
+    const root =
+      compiledTries.get(grantedPermissions) || compile(grantedPermissions);
+    const isMissing = (permission: string): boolean =>
+      !isGranted(root, permission.split(separator), 0);
+    if (reportAllMissing) {
+      const missing = requiredPermissions.filter(isMissing);
+      return missing.length > 0 ? missing : null;
+    }
+    const missing = requiredPermissions.find(isMissing);
+    return missing === undefined ? null : [missing];
+  };
+};
+
 /* istanbul ignore next */
 const defaultFilterMissingPermissions = isDebug
   ? debugFilterMissingPermissions
@@ -96,11 +203,21 @@ export const debugGetErrorMessage = (missingPermissions: string[]): string =>
 
 export const prodGetErrorMessage = (): string => errorMessage;
 
+// the same permissions share the cache, no matter their order
+export const getPermissionsCacheKey = (permissions: string[]): string =>
+  JSON.stringify(Array.from(permissions).sort());
+
 export type HasPermissionsDirectiveArgs = {
   permissions: string[];
+  expression?: string | null;
   policy: ValidateDirectivePolicy;
 };
 
+type ExpressionLeaf = {
+  cacheKey: string;
+  resolvePermission: ResolvePermission | null;
+};
+
 const defaultPolicyOutsideClass: ValidateDirectivePolicy =
   ValidateDirectivePolicy.THROW;
 
@@ -133,7 +250,13 @@ export class HasPermissionsDirectiveVisitor<
 
   public static readonly config: (typeof ValidateDirectiveVisitor)['config'] = {
     args: {
+      expression: {
+        description:
+          'Permissions expression, such as "admin | (posts:write & posts:own)", using ! (not), & (and), | (or) and parentheses. Must be fulfilled in addition to permissions',
+        type: GraphQLString,
+      },
       permissions: {
+        defaultValue: [],
         description:
           'All permissions required by this field (or object). All must be fulfilled',
         type: new GraphQLNonNull(
@@ -219,8 +342,28 @@ export class HasPermissionsDirectiveVisitor<
     location: DirectiveLocation,
     // args: TArgs,
   ): ValidateFunction<TContext> | undefined {
-    const { permissions, policy } = this.args;
-    const cacheKey = JSON.stringify(Array.from(permissions).sort());
+    const { permissions, policy, expression } = this.args;
+    const cacheKey = getPermissionsCacheKey(permissions);
+    // templates such as "project:{args.projectId}:read" are compiled once,
+    // the cacheKey is then given by the resolved permissions
+    const resolvePermissions = compilePermissionsTemplates(permissions);
+    // parsed once, each permission is checked (and cached) by itself,
+    // as if it was given alone to permissions
+    const permissionsExpression = expression
+      ? parsePermissionsExpression(expression)
+      : null;
+    const expressionLeaves = new Map<string, ExpressionLeaf>(
+      (permissionsExpression
+        ? getPermissionsExpressionLeaves(permissionsExpression)
+        : []
+      ).map(permission => [
+        permission,
+        {
+          cacheKey: getPermissionsCacheKey([permission]),
+          resolvePermission: compilePermissionTemplate(permission),
+        },
+      ]),
+    );
     const isUsedOnInputOrArgument =
       location === DirectiveLocation.INPUT_FIELD_DEFINITION ||
       location === DirectiveLocation.INPUT_OBJECT ||
@@ -247,21 +390,87 @@ export class HasPermissionsDirectiveVisitor<
         }
       }
 
-      if (!permissions || !permissions.length) {
+      if (!permissionsExpression && (!permissions || !permissions.length)) {
         return value;
       }
 
       const { checkMissingPermissions } = context;
-      let missingPermissions = checkMissingPermissions.apply(this, [
-        permissions,
-        cacheKey,
-        resolverSource,
-        resolverArgs,
-        context,
-        resolverInfo as unknown as GraphQLResolveInfo,
-      ]);
-      if (!(missingPermissions && missingPermissions.length > 0)) {
-        missingPermissions = null;
+      const filterMissingPermissions = (
+        requiredPermissions: string[],
+        requiredPermissionsCacheKey: string,
+      ): string[] | null => {
+        const missing = checkMissingPermissions.apply(this, [
+          requiredPermissions,
+          requiredPermissionsCacheKey,
+          resolverSource,
+          resolverArgs,
+          context,
+          resolverInfo as unknown as GraphQLResolveInfo,
+        ]);
+        return missing && missing.length > 0 ? missing : null;
+      };
+      let missingPermissions: string[] | null = null;
+      if (resolvePermissions) {
+        const { resolved, unresolved } = resolvePermissions(
+          resolverSource,
+          resolverArgs,
+        );
+        missingPermissions =
+          resolved.length > 0
+            ? filterMissingPermissions(
+                resolved,
+                getPermissionsCacheKey(resolved),
+              )
+            : null;
+        if (unresolved.length > 0) {
+          missingPermissions = (missingPermissions || []).concat(unresolved);
+        }
+      } else if (permissions && permissions.length > 0) {
+        missingPermissions = filterMissingPermissions(permissions, cacheKey);
+      }
+      if (permissionsExpression) {
+        const resolvedLeaves = new Map<string, string>();
+        let hasUnresolvedLeaf = false;
+        expressionLeaves.forEach(({ resolvePermission }, permission) => {
+          if (!resolvePermission) return;
+          const resolved = resolvePermission(resolverSource, resolverArgs);
+          if (resolved === null) hasUnresolvedLeaf = true;
+          else resolvedLeaves.set(permission, resolved);
+        });
+        const printResolved = (permission: string): string =>
+          resolvedLeaves.get(permission) || permission;
+        if (hasUnresolvedLeaf) {
+          // a missing leaf fulfills its negation ("!project:{args.id}"),
+          // then the whole expression fails whatever its operators are
+          missingPermissions = (missingPermissions || []).concat(
+            printPermissionsExpression(permissionsExpression, printResolved),
+          );
+        } else {
+          // the branches that failed, ie: "admin | posts:own"
+          const missingExpressions = filterMissingPermissionsExpression(
+            permissionsExpression,
+            (permission: string): boolean => {
+              const resolved = resolvedLeaves.get(permission);
+              if (resolved === undefined) {
+                const { cacheKey: leafCacheKey } = expressionLeaves.get(
+                  permission,
+                ) as ExpressionLeaf;
+                return !!filterMissingPermissions([permission], leafCacheKey);
+              }
+              return !!filterMissingPermissions(
+                [resolved],
+                getPermissionsCacheKey([resolved]),
+              );
+            },
+          );
+          if (missingExpressions) {
+            missingPermissions = (missingPermissions || []).concat(
+              missingExpressions.map(missingExpression =>
+                printPermissionsExpression(missingExpression, printResolved),
+              ),
+            );
+          }
+        }
       }
 
       if (policy === ValidateDirectivePolicy.THROW && missingPermissions) {
@@ -0,0 +1,382 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql, GraphQLError } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { gql } from 'graphql-tag';
+
+import print from './utils/printer.js';
+import type { MissingRolesResolverInfo, RolesHierarchy } from './hasRole.js';
+import {
+  debugGetErrorMessage,
+  HasRoleDirectiveVisitorNonTyped,
+  prodGetErrorMessage,
+} from './hasRole.js';
+import { getPermissionsCacheKey } from './hasPermissions.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+
+describe('@hasRole()', (): void => {
+  const name = 'hasRole';
+  const directiveTypeDefs = HasRoleDirectiveVisitorNonTyped.getTypeDefs(name);
+
+  const hierarchy: RolesHierarchy = {
+    ADMIN: ['EDITOR', 'BILLING'],
+    EDITOR: ['VIEWER'],
+    OWNER: ['ADMIN'],
+  };
+
+  const checkMissingRoles = (
+    grantedRoles: string[] | undefined,
+    requiredRoles: string[],
+    rolesHierarchy: RolesHierarchy = hierarchy,
+  ): string[] | null =>
+    HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+      grantedRoles,
+      hierarchy: rolesHierarchy,
+    }).checkMissingRoles(
+      requiredRoles,
+      getPermissionsCacheKey(requiredRoles),
+      {},
+      {},
+      {},
+      {} as GraphQLResolveInfo,
+    );
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""ensures it has a role before calling the resolver"""
+directive @${name}(
+  """How to handle missing roles"""
+  policy: HasRoleDirectivePolicy = THROW
+  """
+  Roles allowed to use this field (or object). Any of them, or a role inheriting it, is enough
+  """
+  roles: [String!]!
+) on FIELD_DEFINITION | OBJECT
+`,
+      `\
+enum HasRoleDirectivePolicy {
+  """
+  Field resolver is responsible to evaluate it using \`missingRoles\` injected argument
+  """
+  RESOLVER
+  """
+  Field resolver is not called if roles are missing, it throws \`ForbiddenError\`
+  """
+  THROW
+}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      HasRoleDirectiveVisitorNonTyped.getTypeDefs().map(print),
+    );
+  });
+
+  describe('getErrorMessage', (): void => {
+    it('debugGetErrorMessage() is verbose', (): void => {
+      expect(debugGetErrorMessage(['EDITOR', 'ADMIN'])).toBe(
+        'Missing Roles: EDITOR, ADMIN',
+      );
+    });
+    it('prodGetErrorMessage() is terse', (): void => {
+      expect(prodGetErrorMessage()).toBe('Missing Roles');
+    });
+  });
+
+  describe('createDirectiveContext()', (): void => {
+    it('any of the roles is enough', (): void => {
+      expect(checkMissingRoles(['VIEWER'], ['EDITOR', 'VIEWER'])).toBe(null);
+      expect(checkMissingRoles(['VIEWER'], ['EDITOR', 'ADMIN'])).toEqual([
+        'EDITOR',
+        'ADMIN',
+      ]);
+    });
+
+    it('roles imply the inherited roles', (): void => {
+      expect(checkMissingRoles(['OWNER'], ['VIEWER'])).toBe(null);
+      expect(checkMissingRoles(['OWNER'], ['BILLING'])).toBe(null);
+      expect(checkMissingRoles(['EDITOR'], ['VIEWER'])).toBe(null);
+      expect(checkMissingRoles(['EDITOR'], ['ADMIN'])).toEqual(['ADMIN']);
+      expect(checkMissingRoles(['BILLING'], ['VIEWER'])).toEqual(['VIEWER']);
+    });
+
+    it('supports roles outside of the hierarchy', (): void => {
+      expect(checkMissingRoles(['SUPPORT'], ['SUPPORT'])).toBe(null);
+      expect(checkMissingRoles(['SUPPORT'], ['VIEWER'])).toEqual(['VIEWER']);
+    });
+
+    it('supports no granted role and no hierarchy', (): void => {
+      expect(checkMissingRoles(undefined, ['VIEWER'])).toEqual(['VIEWER']);
+      const ctx = HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+        grantedRoles: ['ADMIN'],
+      });
+      expect(
+        ctx.checkMissingRoles(
+          ['EDITOR'],
+          'ck1',
+          {},
+          {},
+          {},
+          {} as GraphQLResolveInfo,
+        ),
+      ).toEqual(['EDITOR']);
+    });
+
+    it('caches the checks', (): void => {
+      const ctx = HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+        grantedRoles: ['VIEWER'],
+        hierarchy,
+      });
+      const missingRoles = ctx.checkMissingRoles(
+        ['ADMIN'],
+        'ck1',
+        {},
+        {},
+        {},
+        {} as GraphQLResolveInfo,
+      );
+      expect(missingRoles).toEqual(['ADMIN']);
+      expect(
+        ctx.checkMissingRoles(
+          ['ADMIN'],
+          'ck1',
+          {},
+          {},
+          {},
+          {} as GraphQLResolveInfo,
+        ),
+      ).toBe(missingRoles); // cache must return the same list!
+    });
+
+    it('throws if the hierarchy has cycles', (): void => {
+      expect(() =>
+        checkMissingRoles(['A'], ['A'], { A: ['B'], B: ['C'], C: ['A'] }),
+      ).toThrow(
+        new RangeError('Roles hierarchy has a cycle: A -> B -> C -> A'),
+      );
+      expect(() => checkMissingRoles(['A'], ['A'], { A: ['A'] })).toThrow(
+        new RangeError('Roles hierarchy has a cycle: A -> A'),
+      );
+      expect(() =>
+        checkMissingRoles(['A'], ['A'], { A: ['B', 'C'], B: ['D'], C: ['D'] }),
+      ).not.toThrow();
+    });
+  });
+
+  describe('works on type object field', (): void => {
+    const schema = new HasRoleDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          SomeObject: {
+            missingRoles: (
+              _: unknown,
+              __: unknown,
+              ___: unknown,
+              { missingRoles }: MissingRolesResolverInfo,
+            ): string[] | null => missingRoles || null,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type SomeObject {
+              editorsOnly: Int @${name}(roles: ["EDITOR"])
+              missingRoles: [String!]
+                @${name}(roles: ["ADMIN", "BILLING"], policy: RESOLVER)
+              publicField: String
+              alsoPublic: String @${name}(roles: [])
+            }
+            type Query {
+              test: SomeObject
+            }
+          `,
+        ],
+      }),
+    );
+    const source =
+      '{ test { editorsOnly missingRoles publicField alsoPublic } }';
+    const rootValue = {
+      test: { alsoPublic: 'world', editorsOnly: 42, publicField: 'hello' },
+    };
+    const run = async (grantedRoles: string[] | undefined): Promise<unknown> =>
+      graphql({
+        contextValue: HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+          grantedRoles,
+          hierarchy,
+        }),
+        rootValue,
+        schema,
+        source,
+      });
+
+    it('if has role, returns all', async (): Promise<void> => {
+      expect(await run(['OWNER'])).toEqual({
+        data: { test: { ...rootValue.test, missingRoles: null } },
+      });
+    });
+
+    it('if NOT has role, returns partial', async (): Promise<void> => {
+      expect(await run(['VIEWER'])).toEqual({
+        data: {
+          test: {
+            ...rootValue.test,
+            editorsOnly: null,
+            missingRoles: ['ADMIN', 'BILLING'],
+          },
+        },
+        errors: [new ForbiddenError('Missing Roles: EDITOR')],
+      });
+      expect(await run(['BILLING'])).toEqual({
+        data: {
+          test: {
+            ...rootValue.test,
+            editorsOnly: null,
+            missingRoles: null,
+          },
+        },
+        errors: [new ForbiddenError('Missing Roles: EDITOR')],
+      });
+    });
+  });
+
+  describe('works on whole object', (): void => {
+    const createSchema = (): GraphQLSchema =>
+      new HasRoleDirectiveVisitorNonTyped().applyToSchema(
+        makeExecutableSchema({
+          typeDefs: [
+            ...directiveTypeDefs,
+            gql`
+              type Admin @${name}(roles: ["ADMIN"]) {
+                settings: String
+              }
+              type Query {
+                admin: Admin
+              }
+            `,
+          ],
+        }),
+      );
+
+    it('checks all fields', async (): Promise<void> => {
+      const schema = createSchema();
+      const rootValue = { admin: { settings: 'secret' } };
+      const source = '{ admin { settings } }';
+      expect(
+        await graphql({
+          contextValue: HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+            grantedRoles: ['OWNER'],
+            hierarchy,
+          }),
+          rootValue,
+          schema,
+          source,
+        }),
+      ).toEqual({ data: rootValue });
+      expect(
+        await graphql({
+          contextValue: HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+            grantedRoles: ['EDITOR'],
+            hierarchy,
+          }),
+          rootValue,
+          schema,
+          source,
+        }),
+      ).toEqual({
+        data: { admin: { settings: null } },
+        errors: [new ForbiddenError('Missing Roles: ADMIN')],
+      });
+    });
+  });
+
+  it('extends missingRoles of the object', async (): Promise<void> => {
+    const schema = new HasRoleDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Restricted: {
+            missingRoles: (
+              _: unknown,
+              __: unknown,
+              ___: unknown,
+              { missingRoles }: MissingRolesResolverInfo,
+            ): string[] | null => missingRoles || null,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Restricted @${name}(roles: ["OWNER"], policy: RESOLVER) {
+              missingRoles: [String!]
+                @${name}(roles: ["SUPPORT"], policy: RESOLVER)
+            }
+            type Query {
+              test: Restricted
+            }
+          `,
+        ],
+      }),
+    );
+    const run = async (grantedRoles: string[]): Promise<unknown> =>
+      graphql({
+        contextValue: HasRoleDirectiveVisitorNonTyped.createDirectiveContext({
+          grantedRoles,
+          hierarchy,
+        }),
+        rootValue: { test: {} },
+        schema,
+        source: '{ test { missingRoles } }',
+      });
+    expect(await run(['VIEWER'])).toEqual({
+      data: { test: { missingRoles: ['OWNER', 'SUPPORT'] } },
+    });
+    expect(await run(['SUPPORT'])).toEqual({
+      data: { test: { missingRoles: ['OWNER'] } },
+    });
+    expect(await run(['OWNER'])).toEqual({
+      data: { test: { missingRoles: ['SUPPORT'] } },
+    });
+    expect(await run(['OWNER', 'SUPPORT'])).toEqual({
+      data: { test: { missingRoles: null } },
+    });
+  });
+
+  it('throws if missingRoles argument type is wrong', async (): Promise<void> => {
+    const schema = new HasRoleDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Query {
+              test: Boolean @${name}(roles: ["ADMIN"], policy: RESOLVER)
+            }
+          `,
+        ],
+      }),
+    );
+    const result = await graphql({
+      contextValue: {
+        checkMissingRoles: (
+          _: string[],
+          __: string,
+          ___: unknown,
+          ____: unknown,
+          _____: unknown,
+          info: { missingRoles?: unknown },
+        ): null => {
+          // eslint-disable-next-line no-param-reassign
+          info.missingRoles = 'This should be an array!';
+          return null;
+        },
+      },
+      rootValue: { test: true },
+      schema,
+      source: '{ test }',
+    });
+    expect(result).toEqual({
+      data: { test: null },
+      errors: [new GraphQLError('The missingRoles field is not an array!')],
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import type {
+  GraphQLFieldResolver,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+  GraphQLDirective,
+} from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLEnumType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import EasyDirectiveVisitor from './EasyDirectiveVisitor.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import ValidateDirectiveVisitor, {
+  ValidateDirectivePolicy,
+} from './ValidateDirectiveVisitor.js';
+import { getPermissionsCacheKey } from './hasPermissions.js';
+
+const isDebug = !!(
+  process &&
+  process.env &&
+  process.env.NODE_ENV !== 'production'
+);
+
+type ResolverArgs<TContext extends object = object> = Parameters<
+  GraphQLFieldResolver<unknown, TContext>
+>;
+
+export interface MissingRolesResolverInfo extends GraphQLResolveInfo {
+  missingRoles?: string[];
+}
+
+export type CheckMissingRoles<TContext extends object = object> = (
+  requiredRoles: string[],
+  cacheKey: string,
+  ...args: ResolverArgs<TContext>
+) => null | string[];
+
+export type HasRoleContext<TContext extends object = object> = {
+  checkMissingRoles: CheckMissingRoles<TContext>;
+};
+
+/*
+  Each role lists the roles it inherits, that is, the roles it implies:
+
+    {
+      OWNER: ['ADMIN'],
+      ADMIN: ['EDITOR'],
+      EDITOR: ['VIEWER'],
+    }
+
+  A role may inherit many roles (it's a DAG), but it must not inherit
+  itself, directly or not.
+*/
+export type RolesHierarchy = Record<string, string[]>;
+
+// role => all the roles it implies, including itself
+type CompiledRolesHierarchy = Map<string, Set<string>>;
+
+const compiledRolesHierarchies = new WeakMap<
+  RolesHierarchy,
+  CompiledRolesHierarchy
+>();
+
+const compileRolesHierarchy = (
+  hierarchy: RolesHierarchy,
+): CompiledRolesHierarchy => {
+  const inheritedRoles = new Map(Object.entries(hierarchy));
+  const compiled: CompiledRolesHierarchy = new Map();
+  const visiting: string[] = [];
+  const visit = (role: string): Set<string> => {
+    const cached = compiled.get(role);
+    if (cached) return cached;
+    const cycleStart = visiting.indexOf(role);
+    if (cycleStart >= 0) {
+      const cycle = visiting.slice(cycleStart).concat(role).join(' -> ');
+      throw new RangeError(`Roles hierarchy has a cycle: ${cycle}`);
+    }
+    visiting.push(role);
+    const implied = new Set([role]);
+    (inheritedRoles.get(role) || []).forEach(inherited => {
+      visit(inherited).forEach(impliedRole => implied.add(impliedRole));
+    });
+    visiting.pop();
+    compiled.set(role, implied);
+    return implied;
+  };
+  inheritedRoles.forEach((_, role) => visit(role));
+  return compiled;
+};
+
+// the same hierarchy object is compiled (and checked) only once
+const getCompiledRolesHierarchy = (
+  hierarchy: RolesHierarchy,
+): CompiledRolesHierarchy => {
+  let compiled = compiledRolesHierarchies.get(hierarchy);
+  if (!compiled) {
+    compiled = compileRolesHierarchy(hierarchy);
+    compiledRolesHierarchies.set(hierarchy, compiled);
+  }
+  return compiled;
+};
+
+export type GetErrorMessage = (missingRoles: string[]) => string;
+
+const errorMessage = 'Missing Roles';
+
+export const debugGetErrorMessage = (missingRoles: string[]): string =>
+  `${errorMessage}: ${missingRoles.join(', ')}`;
+
+export const prodGetErrorMessage = (): string => errorMessage;
+
+export type HasRoleDirectiveArgs = {
+  roles: string[];
+  policy: ValidateDirectivePolicy;
+};
+
+const defaultPolicyOutsideClass: ValidateDirectivePolicy =
+  ValidateDirectivePolicy.THROW;
+
+export class HasRoleDirectiveVisitor<
+  TArgs extends HasRoleDirectiveArgs,
+  TContext extends HasRoleContext,
+> extends ValidateDirectiveVisitor<TArgs, TContext> {
+  public static readonly defaultName: string = 'hasRole';
+
+  public static readonly defaultPolicy: ValidateDirectivePolicy =
+    defaultPolicyOutsideClass;
+
+  public readonly applyValidationToOutputTypesAfterOriginalResolver: Boolean =
+    false;
+
+  public static readonly config: (typeof ValidateDirectiveVisitor)['config'] = {
+    args: {
+      policy: {
+        defaultValue: defaultPolicyOutsideClass,
+        description: 'How to handle missing roles',
+        type: new GraphQLEnumType({
+          name: 'HasRoleDirectivePolicy',
+          values: {
+            RESOLVER: {
+              description:
+                'Field resolver is responsible to evaluate it using `missingRoles` injected argument',
+              value: ValidateDirectivePolicy.RESOLVER,
+            },
+            THROW: {
+              description:
+                'Field resolver is not called if roles are missing, it throws `ForbiddenError`',
+              value: ValidateDirectivePolicy.THROW,
+            },
+          },
+        }),
+      },
+      roles: {
+        description:
+          'Roles allowed to use this field (or object). Any of them, or a role inheriting it, is enough',
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(GraphQLString)),
+        ),
+      },
+    },
+    description: 'ensures it has a role before calling the resolver',
+    locations: [DirectiveLocation.FIELD_DEFINITION, DirectiveLocation.OBJECT],
+  };
+
+  public static getDirectiveDeclaration(
+    givenDirectiveName?: string,
+    schema?: GraphQLSchema,
+  ): GraphQLDirective {
+    return EasyDirectiveVisitor.getDirectiveDeclaration.apply(this, [
+      givenDirectiveName,
+      schema,
+    ]);
+  }
+
+  // throws RangeError if the hierarchy has cycles
+  public static createDirectiveContext({
+    grantedRoles: rawGrantedRoles,
+    hierarchy = {},
+  }: {
+    grantedRoles: string[] | undefined;
+    hierarchy?: RolesHierarchy;
+  }): HasRoleContext {
+    const compiledHierarchy = getCompiledRolesHierarchy(hierarchy);
+    const grantedRoles = new Set<string>();
+    (rawGrantedRoles || []).forEach(role => {
+      (compiledHierarchy.get(role) || [role]).forEach(impliedRole =>
+        grantedRoles.add(impliedRole),
+      );
+    });
+
+    const missingRolesCache: { [key: string]: string[] | null } = {};
+
+    const checkMissingRoles = (
+      requiredRoles: string[],
+      cacheKey: string,
+    ): string[] | null => {
+      let missingRoles = missingRolesCache[cacheKey];
+      if (missingRoles === undefined) {
+        missingRoles = requiredRoles.some(role => grantedRoles.has(role))
+          ? null
+          : requiredRoles;
+        missingRolesCache[cacheKey] = missingRoles;
+      }
+      return missingRoles;
+    };
+    return { checkMissingRoles };
+  }
+
+  /* istanbul ignore next */
+  public getErrorMessage: GetErrorMessage = isDebug
+    ? debugGetErrorMessage
+    : prodGetErrorMessage;
+
+  public getValidationForArgs(): ValidateFunction<TContext> | undefined {
+    const { roles, policy } = this.args;
+    if (!roles || !roles.length) return undefined;
+    const cacheKey = getPermissionsCacheKey(roles);
+
+    const hasRoleValidateFunction: ValidateFunction<TContext> = (
+      value: unknown,
+      _: unknown,
+      __: unknown,
+      context: TContext,
+      resolverInfo: Record<string, unknown>,
+      resolverSource: unknown,
+      resolverArgs: Record<string, unknown>,
+    ): unknown => {
+      const { checkMissingRoles } = context;
+      let missingRoles = checkMissingRoles.apply(this, [
+        roles,
+        cacheKey,
+        resolverSource,
+        resolverArgs,
+        context,
+        resolverInfo as unknown as GraphQLResolveInfo,
+      ]);
+      if (!(missingRoles && missingRoles.length > 0)) {
+        missingRoles = null;
+      }
+
+      if (policy === ValidateDirectivePolicy.THROW && missingRoles) {
+        throw new ForbiddenError(this.getErrorMessage(missingRoles));
+      }
+
+      // extends the missing roles of other hasRole executed before it
+      const existingMissingRoles = resolverInfo.missingRoles;
+      if (existingMissingRoles) {
+        if (!Array.isArray(existingMissingRoles)) {
+          throw new Error('The missingRoles field is not an array!');
+        }
+        missingRoles = missingRoles
+          ? missingRoles.concat(existingMissingRoles)
+          : existingMissingRoles;
+      }
+      // eslint-disable-next-line no-param-reassign
+      resolverInfo.missingRoles = missingRoles;
+
+      return value;
+    };
+
+    return hasRoleValidateFunction;
+  }
+}
+
+export default HasRoleDirectiveVisitor;
+
+/*
+  graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
+  you'll get this error: "Type 'typeof Your_Directive_Class' is not assignable to type 'typeof SchemaDirectiveVisitor'.".
+  If you are using the old graphql-tools, you can use:
+  extends EasyDirectiveVisitor<Record<string, never>, TContext>
+*/
+export const HasRoleDirectiveVisitorNonTyped: typeof HasRoleDirectiveVisitor<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any
+> = HasRoleDirectiveVisitor;
@@ -0,0 +1,370 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import Identifier, {
+  createValidate as createIdentifierDirectiveValidate,
+  DEFAULT_IDENTIFIER_FORMAT,
+  identifierDirectiveSchemaEnumName,
+  IdentifierFormat,
+} from './identifier.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@identifier()', (): void => {
+  const name = 'identifier';
+  const directiveTypeDefs = Identifier.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+ensures value is an identifier in the given format. If used on lists, applies to every item.
+"""
+directive @${name}(
+  """
+  Accepts any case and converts the value to the canonical case: lowercase for UUID and CUID2, uppercase for ULID. NanoID is case sensitive
+  """
+  canonicalizeCase: Boolean! = false
+  format: ${identifierDirectiveSchemaEnumName}! = ${DEFAULT_IDENTIFIER_FORMAT}
+  """
+  The exact length for CUID2 (2 to 32, any if null) and NANOID (21 if null)
+  """
+  length: Int
+  """The accepted UUID versions. If null, all are accepted"""
+  versions: [Int!]
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+enum ${identifierDirectiveSchemaEnumName} {
+  """The value of this field must be an UUID (RFC 9562), versions 1 to 8"""
+  ${IdentifierFormat.UUID}
+  """The value of this field must be an ULID: 26 chars in Crockford base32"""
+  ${IdentifierFormat.ULID}
+  """
+  The value of this field must be a CUID2: lowercase letters and digits, starting with a letter
+  """
+  ${IdentifierFormat.CUID2}
+  """The value of this field must be a NanoID: letters, digits, _ and -"""
+  ${IdentifierFormat.NANOID}
+}
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      Identifier.getTypeDefs().map(print),
+    );
+  });
+
+  const createSchema = (
+    directiveArgs = '',
+    argType = 'String',
+  ): GraphQLSchema =>
+    new Identifier().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            test: (
+              _,
+              { arg },
+              __,
+              { validationErrors }: ValidationErrorsResolverInfo,
+            ): object => ({
+              arg: JSON.stringify(arg),
+              validationErrors,
+            }),
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...Identifier.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: ${argType} @${name}${directiveArgs}): Result
+              output: [String] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (schema: GraphQLSchema, arg: string): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${arg}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  const expectValid = async (
+    schema: GraphQLSchema,
+    id: string,
+    expected: string = id,
+  ): Promise<void> => {
+    expect(await doTest(schema, JSON.stringify(id))).toEqual({
+      data: {
+        test: { arg: JSON.stringify(expected), validationErrors: null },
+      },
+    });
+  };
+
+  const expectInvalid = async (
+    schema: GraphQLSchema,
+    id: string,
+    message: string,
+  ): Promise<void> => {
+    expect(await doTest(schema, JSON.stringify(id))).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [{ message, path: ['arg'] }],
+        },
+      },
+    });
+  };
+
+  describe('fails on definition', (): void => {
+    it.each([
+      [
+        '(versions: [0])',
+        '@identifier(versions) must be between 1 and 8, got: 0',
+      ],
+      [
+        '(versions: [9])',
+        '@identifier(versions) must be between 1 and 8, got: 9',
+      ],
+      ['(length: 10)', '@identifier(length) is not supported by format UUID'],
+      [
+        '(format: ULID, length: 10)',
+        '@identifier(length) is not supported by format ULID',
+      ],
+      [
+        '(format: ULID, versions: [4])',
+        '@identifier(versions) is not supported by format ULID',
+      ],
+      [
+        '(format: CUID2, versions: [4])',
+        '@identifier(versions) is not supported by format CUID2',
+      ],
+      [
+        '(format: NANOID, versions: [4])',
+        '@identifier(versions) is not supported by format NANOID',
+      ],
+      [
+        '(format: CUID2, length: 0)',
+        '@identifier(length) must be positive for CUID2, got: 0',
+      ],
+      [
+        '(format: CUID2, length: -1)',
+        '@identifier(length) must be positive for CUID2, got: -1',
+      ],
+      [
+        '(format: CUID2, length: 1)',
+        '@identifier(length) must be between 2 and 32 for CUID2, got: 1',
+      ],
+      [
+        '(format: CUID2, length: 33)',
+        '@identifier(length) must be between 2 and 32 for CUID2, got: 33',
+      ],
+      [
+        '(format: NANOID, length: 0)',
+        '@identifier(length) must be positive for NANOID, got: 0',
+      ],
+    ])('%s', (directiveArgs, message): void => {
+      expect(() => createSchema(directiveArgs)).toThrow(
+        new RangeError(message),
+      );
+    });
+  });
+
+  describe('UUID', (): void => {
+    const uuidV4 = '9b2f4b0c-3f1a-4c7e-9d2b-6a5e8f7c1d30';
+    const uuidV7 = '01890a5d-ac96-774b-bcce-b302099a8057';
+
+    it.each([
+      uuidV4,
+      uuidV7,
+      'C232AB00-9414-11EC-B3C8-9F68DEED6D2B',
+      '320c3d4d-cc00-875b-8ec9-32d5f69181c0',
+    ])('accepts %s', async (id): Promise<void> => {
+      await expectValid(createSchema(), id);
+    });
+
+    it.each([
+      '9b2f4b0c3f1a4c7e9d2b6a5e8f7c1d30',
+      '9b2f4b0c-3f1a-4c7e-9d2b-6a5e8f7c1d3',
+      '9b2f4b0c-3f1a-0c7e-9d2b-6a5e8f7c1d30',
+      '9b2f4b0c-3f1a-4c7e-cd2b-6a5e8f7c1d30',
+      '00000000-0000-0000-0000-000000000000',
+      'zb2f4b0c-3f1a-4c7e-9d2b-6a5e8f7c1d30',
+    ])('rejects %s', async (id): Promise<void> => {
+      await expectInvalid(createSchema(), id, 'Invalid UUID');
+    });
+
+    it('filters by version', async (): Promise<void> => {
+      const schema = createSchema('(versions: [4, 7])');
+      await expectValid(schema, uuidV4);
+      await expectValid(schema, uuidV7);
+      await expectInvalid(
+        schema,
+        'C232AB00-9414-11EC-B3C8-9F68DEED6D2B',
+        'UUID version not allowed: 1',
+      );
+    });
+
+    it('canonicalizes case', async (): Promise<void> => {
+      await expectValid(
+        createSchema('(canonicalizeCase: true)'),
+        uuidV4.toUpperCase(),
+        uuidV4,
+      );
+    });
+  });
+
+  describe('ULID', (): void => {
+    const ulid = '01ARZ3NDEKTSV4RRFFQ69G5FAV';
+
+    it('accepts any case', async (): Promise<void> => {
+      const schema = createSchema('(format: ULID)');
+      await expectValid(schema, ulid);
+      await expectValid(schema, ulid.toLowerCase());
+    });
+
+    it.each([
+      '01ARZ3NDEKTSV4RRFFQ69G5FA',
+      '01ARZ3NDEKTSV4RRFFQ69G5FAVX',
+      '81ARZ3NDEKTSV4RRFFQ69G5FAV',
+      '01ARZ3NDEKTSV4RRFFQ69G5FAU',
+      '01ARZ3NDEKTSV4RRFFQ69G5FAI',
+    ])('rejects %s', async (id): Promise<void> => {
+      await expectInvalid(createSchema('(format: ULID)'), id, 'Invalid ULID');
+    });
+
+    it('canonicalizes case', async (): Promise<void> => {
+      await expectValid(
+        createSchema('(format: ULID, canonicalizeCase: true)'),
+        ulid.toLowerCase(),
+        ulid,
+      );
+    });
+  });
+
+  describe('CUID2', (): void => {
+    const cuid2 = 'tz4a98xxat96iws9zmbrgj3a';
+
+    it('accepts any length by default', async (): Promise<void> => {
+      const schema = createSchema('(format: CUID2)');
+      await expectValid(schema, cuid2);
+      await expectValid(schema, 'a1');
+      await expectValid(schema, `a${'1'.repeat(31)}`);
+    });
+
+    it.each([
+      'a',
+      `a${'1'.repeat(32)}`,
+      '1tz4a98xxat96iws9zmbrgj3a',
+      'Tz4a98xxat96iws9zmbrgj3a',
+      'tz4a98xx-at96iws9zmbrgj3a',
+    ])('rejects %s', async (id): Promise<void> => {
+      await expectInvalid(createSchema('(format: CUID2)'), id, 'Invalid CUID2');
+    });
+
+    it('checks the given length', async (): Promise<void> => {
+      const schema = createSchema('(format: CUID2, length: 24)');
+      await expectValid(schema, cuid2);
+      await expectInvalid(schema, cuid2.slice(1), 'Invalid CUID2');
+    });
+
+    it('canonicalizes case', async (): Promise<void> => {
+      await expectValid(
+        createSchema('(format: CUID2, canonicalizeCase: true)'),
+        cuid2.toUpperCase(),
+        cuid2,
+      );
+    });
+  });
+
+  describe('NanoID', (): void => {
+    const nanoId = 'V1StGXR8_Z5jdHi6B-myT';
+
+    it('checks the default length', async (): Promise<void> => {
+      const schema = createSchema('(format: NANOID)');
+      await expectValid(schema, nanoId);
+      await expectInvalid(schema, nanoId.slice(1), 'Invalid NanoID');
+      await expectInvalid(schema, `${nanoId.slice(1)}!`, 'Invalid NanoID');
+    });
+
+    it('checks the given length and keeps the case', async (): Promise<void> => {
+      const schema = createSchema(
+        '(format: NANOID, length: 10, canonicalizeCase: true)',
+      );
+      await expectValid(schema, 'V1StGXR8_Z');
+      await expectInvalid(schema, nanoId, 'Invalid NanoID');
+    });
+  });
+
+  it('converts numbers to strings', async (): Promise<void> => {
+    expect(
+      await doTest(createSchema('(format: NANOID, length: 4)', 'Int'), '1234'),
+    ).toEqual({
+      data: { test: { arg: '"1234"', validationErrors: null } },
+    });
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    const schema = createSchema('(format: ULID, canonicalizeCase: true)');
+    expect(
+      await graphql({
+        rootValue: { output: ['01arz3ndektsv4rrffq69g5fav', null] },
+        schema,
+        source: '{ output }',
+      }),
+    ).toEqual({ data: { output: ['01ARZ3NDEKTSV4RRFFQ69G5FAV', null] } });
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "format" is invalid', (): void => {
+    const invalidFormat = 'INVALID_FORMAT' as IdentifierFormat;
+    expect(() =>
+      createIdentifierDirectiveValidate({
+        canonicalizeCase: false,
+        format: invalidFormat,
+        policy: ValidateDirectivePolicy.RESOLVER,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidFormat} is not accepted by this argument`,
+      ),
+    );
+  });
+});
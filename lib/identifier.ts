@@ -0,0 +1,225 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+} from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import createPatternHandler from './patternCommon.js';
+import ValidationError from './errors/ValidationError.js';
+import neverAssertion from './utils/neverAssertion.js';
+
+export enum IdentifierFormat {
+  UUID = 'UUID',
+  ULID = 'ULID',
+  CUID2 = 'CUID2',
+  NANOID = 'NANOID',
+}
+
+export const DEFAULT_IDENTIFIER_FORMAT = IdentifierFormat.UUID;
+
+export const identifierDirectiveSchemaEnumName = 'IdentifierDirectiveFormat';
+
+type IdentifierDirectiveArgs = {
+  format: IdentifierFormat;
+  versions?: number[] | null;
+  length?: number | null;
+  canonicalizeCase: boolean;
+} & ValidationDirectiveArgs;
+
+// https://datatracker.ietf.org/doc/html/rfc9562#section-4
+const uuidRegExp =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-([1-8])[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const uuidVersionMin = 1;
+const uuidVersionMax = 8;
+
+// https://github.com/ulid/spec: Crockford's base32 (no I, L, O and U),
+// the first char is at most 7 as the timestamp is limited to 48 bits
+const ulidRegExp = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i;
+
+// https://github.com/paralleldrive/cuid2: lowercase base36 starting with a letter
+const cuid2MinLength = 2;
+const cuid2MaxLength = 32;
+
+// https://github.com/ai/nanoid: URL-friendly alphabet, 21 chars by default
+const nanoIdDefaultLength = 21;
+
+type IdentifierHandler = (strValue: string) => string;
+
+const createUuidHandler = (
+  versions: number[] | null | undefined,
+  canonicalizeCase: boolean,
+): IdentifierHandler => {
+  if (versions) {
+    versions.forEach(version => {
+      if (version < uuidVersionMin || version > uuidVersionMax) {
+        throw new RangeError(
+          `@identifier(versions) must be between ${uuidVersionMin} and ${uuidVersionMax}, got: ${version}`,
+        );
+      }
+    });
+  }
+  return (strValue: string): string => {
+    const match = uuidRegExp.exec(strValue);
+    if (!match) throw new ValidationError('Invalid UUID');
+    const version = Number(match[1]);
+    if (versions && !versions.includes(version)) {
+      throw new ValidationError(`UUID version not allowed: ${version}`);
+    }
+    return canonicalizeCase ? strValue.toLowerCase() : strValue;
+  };
+};
+
+const createUlidHandler =
+  (canonicalizeCase: boolean): IdentifierHandler =>
+  (strValue: string): string => {
+    if (!ulidRegExp.test(strValue)) throw new ValidationError('Invalid ULID');
+    return canonicalizeCase ? strValue.toUpperCase() : strValue;
+  };
+
+const createCuid2Handler = (
+  length: number | null | undefined,
+  canonicalizeCase: boolean,
+): IdentifierHandler => {
+  const hasLength = length !== undefined && length !== null;
+  if (hasLength && length < 1) {
+    throw new RangeError(
+      `@identifier(length) must be positive for CUID2, got: ${length}`,
+    );
+  }
+  if (hasLength && (length < cuid2MinLength || length > cuid2MaxLength)) {
+    throw new RangeError(
+      `@identifier(length) must be between ${cuid2MinLength} and ${cuid2MaxLength} for CUID2, got: ${length}`,
+    );
+  }
+  const lengthPattern = hasLength
+    ? `{${length - 1}}`
+    : `{${cuid2MinLength - 1},${cuid2MaxLength - 1}}`;
+  const re = new RegExp(
+    `^[a-z][0-9a-z]${lengthPattern}$`,
+    canonicalizeCase ? 'i' : undefined,
+  );
+  return (strValue: string): string => {
+    if (!re.test(strValue)) throw new ValidationError('Invalid CUID2');
+    return canonicalizeCase ? strValue.toLowerCase() : strValue;
+  };
+};
+
+// NanoID is case sensitive, then there is no case to canonicalize
+const createNanoIdHandler = (
+  length: number | null | undefined,
+): IdentifierHandler => {
+  if (length !== undefined && length !== null && length < 1) {
+    throw new RangeError(
+      `@identifier(length) must be positive for NANOID, got: ${length}`,
+    );
+  }
+  const re = new RegExp(`^[A-Za-z0-9_-]{${length || nanoIdDefaultLength}}$`);
+  return (strValue: string): string => {
+    if (!re.test(strValue)) throw new ValidationError('Invalid NanoID');
+    return strValue;
+  };
+};
+
+const checkUnsupportedArg = (
+  format: IdentifierFormat,
+  argName: string,
+  value: unknown,
+): void => {
+  if (value !== undefined && value !== null) {
+    throw new RangeError(
+      `@identifier(${argName}) is not supported by format ${format}`,
+    );
+  }
+};
+
+const createHandler = ({
+  format,
+  versions,
+  length,
+  canonicalizeCase,
+}: IdentifierDirectiveArgs): IdentifierHandler => {
+  switch (format) {
+    case IdentifierFormat.UUID:
+      checkUnsupportedArg(format, 'length', length);
+      return createUuidHandler(versions, canonicalizeCase);
+    case IdentifierFormat.ULID:
+      checkUnsupportedArg(format, 'length', length);
+      checkUnsupportedArg(format, 'versions', versions);
+      return createUlidHandler(canonicalizeCase);
+    case IdentifierFormat.CUID2:
+      checkUnsupportedArg(format, 'versions', versions);
+      return createCuid2Handler(length, canonicalizeCase);
+    case IdentifierFormat.NANOID:
+      checkUnsupportedArg(format, 'versions', versions);
+      return createNanoIdHandler(length);
+    default:
+      return neverAssertion(format);
+  }
+};
+
+export const createValidate = (
+  args: IdentifierDirectiveArgs,
+): ValidateFunction => createPatternHandler(createHandler(args));
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'identifier',
+  directiveConfig: {
+    args: {
+      canonicalizeCase: {
+        defaultValue: false,
+        description:
+          'Accepts any case and converts the value to the canonical case: lowercase for UUID and CUID2, uppercase for ULID. NanoID is case sensitive',
+        type: new GraphQLNonNull(GraphQLBoolean),
+      },
+      format: {
+        defaultValue: DEFAULT_IDENTIFIER_FORMAT,
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({
+            name: identifierDirectiveSchemaEnumName,
+            values: {
+              [IdentifierFormat.UUID]: {
+                description:
+                  'The value of this field must be an UUID (RFC 9562), versions 1 to 8',
+                value: IdentifierFormat.UUID,
+              },
+              [IdentifierFormat.ULID]: {
+                description:
+                  'The value of this field must be an ULID: 26 chars in Crockford base32',
+                value: IdentifierFormat.ULID,
+              },
+              [IdentifierFormat.CUID2]: {
+                description:
+                  'The value of this field must be a CUID2: lowercase letters and digits, starting with a letter',
+                value: IdentifierFormat.CUID2,
+              },
+              [IdentifierFormat.NANOID]: {
+                description:
+                  'The value of this field must be a NanoID: letters, digits, _ and -',
+                value: IdentifierFormat.NANOID,
+              },
+            },
+          }),
+        ),
+      },
+      length: {
+        description:
+          'The exact length for CUID2 (2 to 32, any if null) and NANOID (21 if null)',
+        type: GraphQLInt,
+      },
+      versions: {
+        description: 'The accepted UUID versions. If null, all are accepted',
+        type: new GraphQLList(new GraphQLNonNull(GraphQLInt)),
+      },
+    },
+    description:
+      'ensures value is an identifier in the given format. If used on lists, applies to every item.',
+  },
+});
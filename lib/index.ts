@@ -9,6 +9,7 @@ export {
 export { default as createValidateDirectiveVisitor } from './createValidateDirectiveVisitor.js';
 export { default as validateArrayOrValue } from './validateArrayOrValue.js';
 export { default as applyDirectivesToSchema } from './utils/applyDirectivesToSchema.js';
+export { default as createIntrospectionFilter } from './utils/createIntrospectionFilter.js';
 export {
   createMapper,
   createSchemaMapperForVisitor,
@@ -23,9 +24,27 @@ export {
   default as hasPermissions,
   HasPermissionsDirectiveVisitorNonTyped as v3HasPermissions,
 } from './hasPermissions.js';
+export {
+  default as hasRole,
+  HasRoleDirectiveVisitorNonTyped as v3HasRole,
+} from './hasRole.js';
+export {
+  default as isOwner,
+  IsOwnerDirectiveVisitorNonTyped as v3IsOwner,
+} from './isOwner.js';
+export {
+  default as policy,
+  PolicyDirectiveVisitorNonTyped as v3Policy,
+} from './policy.js';
+export { default as mask } from './mask.js';
+export { default as publicDirective } from './public.js';
 export { default as listLength } from './listLength.js';
+export { default as listItems } from './listItems.js';
+export { default as uniqueItems } from './uniqueItems.js';
 export { default as pattern } from './pattern.js';
 export { default as range } from './range.js';
+export { default as clamp } from './clamp.js';
+export { default as round } from './round.js';
 export { default as stringLength } from './stringLength.js';
 export { default as selfNodeId } from './selfNodeId.js';
 export {
@@ -34,4 +53,20 @@ export {
 } from './foreignNodeId.js';
 export { default as cleanupPattern } from './cleanupPattern.js';
 export { default as trim } from './trim.js';
+export { default as normalize } from './normalize.js';
+export { default as caseDirective } from './case.js';
+export { default as collapseWhitespace } from './collapseWhitespace.js';
+export { default as stripControlChars } from './stripControlChars.js';
+export { default as compareFields } from './compareFields.js';
+export { default as exactlyOneOf } from './exactlyOneOf.js';
+export { default as atMostOneOf } from './atMostOneOf.js';
+export { default as atLeastOneOf } from './atLeastOneOf.js';
+export { default as requiredIf } from './requiredIf.js';
+export { default as requiredWith } from './requiredWith.js';
+export { default as email } from './email.js';
+export { default as url } from './url.js';
+export { default as identifier } from './identifier.js';
+export { default as oneOfValues } from './oneOfValues.js';
+export { default as notOneOf } from './notOneOf.js';
+export { default as dateTime } from './dateTime.js';
 export type { MissingPermissionsResolverInfo } from './hasPermissions.js';
@@ -0,0 +1,217 @@
+import { graphql } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { gql } from 'graphql-tag';
+
+import print from './utils/printer.js';
+import type { IsOwnerResolverInfo } from './isOwner.js';
+import { IsOwnerDirectiveVisitorNonTyped } from './isOwner.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+
+describe('@isOwner()', (): void => {
+  const name = 'isOwner';
+  const directiveTypeDefs = IsOwnerDirectiveVisitorNonTyped.getTypeDefs(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+ensures the current user owns the parent object before calling the resolver
+"""
+directive @${name}(
+  """
+  The key path (ie: "userId" or "user.id") of the current user id in the context
+  """
+  contextKey: String! = "userId"
+  """
+  The key path (ie: "authorId" or "author.id") of the owner id in the parent object
+  """
+  field: String!
+  """How to handle users that are not the owner"""
+  policy: IsOwnerDirectivePolicy = THROW
+) on FIELD_DEFINITION | OBJECT
+`,
+      `\
+enum IsOwnerDirectivePolicy {
+  """
+  Field resolver is responsible to evaluate it using \`isOwner\` injected argument
+  """
+  RESOLVER
+  """
+  Field resolver is not called if not the owner, it throws \`ForbiddenError\`
+  """
+  THROW
+}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      IsOwnerDirectiveVisitorNonTyped.getTypeDefs().map(print),
+    );
+  });
+
+  const isOwnerResolver = (
+    _: unknown,
+    __: unknown,
+    ___: unknown,
+    { isOwner }: IsOwnerResolverInfo,
+  ): boolean | undefined => isOwner;
+
+  describe('works on type object field', (): void => {
+    const schema = new IsOwnerDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Post: { isOwner: isOwnerResolver },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Post {
+              title: String
+              draft: String @${name}(field: "authorId")
+              reviewNotes: String
+                @${name}(field: "reviewer.id", contextKey: "user.id")
+              isOwner: Boolean @${name}(field: "authorId", policy: RESOLVER)
+            }
+            type Query {
+              posts: [Post]
+            }
+          `,
+        ],
+      }),
+    );
+    const source = '{ posts { title draft reviewNotes isOwner } }';
+    const rootValue = {
+      posts: [
+        {
+          authorId: 1,
+          draft: 'draft 1',
+          reviewer: { id: '1' },
+          reviewNotes: 'notes 1',
+          title: 'post 1',
+        },
+        {
+          authorId: '2',
+          draft: 'draft 2',
+          reviewer: null,
+          reviewNotes: 'notes 2',
+          title: 'post 2',
+        },
+      ],
+    };
+
+    it('allows only the owner', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: { user: { id: 1 }, userId: '1' },
+          rootValue,
+          schema,
+          source,
+        }),
+      ).toEqual({
+        data: {
+          posts: [
+            {
+              draft: 'draft 1',
+              isOwner: true,
+              reviewNotes: 'notes 1',
+              title: 'post 1',
+            },
+            {
+              draft: null,
+              isOwner: false,
+              reviewNotes: null,
+              title: 'post 2',
+            },
+          ],
+        },
+        errors: [
+          new ForbiddenError('Not the owner'),
+          new ForbiddenError('Not the owner'),
+        ],
+      });
+    });
+
+    it('anonymous users do not own anything', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: {},
+        rootValue: {
+          posts: [{ authorId: null, draft: 'draft', title: 'post' }],
+        },
+        schema,
+        source: '{ posts { title draft isOwner } }',
+      });
+      expect(result).toEqual({
+        data: { posts: [{ draft: null, isOwner: false, title: 'post' }] },
+        errors: [new ForbiddenError('Not the owner')],
+      });
+    });
+
+    it('compares objects by identity', async (): Promise<void> => {
+      const owner = {};
+      const result = await graphql({
+        contextValue: { userId: owner },
+        rootValue: {
+          posts: [
+            { authorId: owner, title: 'post 1' },
+            { authorId: {}, title: 'post 2' },
+          ],
+        },
+        schema,
+        source: '{ posts { isOwner } }',
+      });
+      expect(result).toEqual({
+        data: { posts: [{ isOwner: true }, { isOwner: false }] },
+      });
+    });
+  });
+
+  describe('works on whole object', (): void => {
+    const schema = new IsOwnerDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Account: { isOwner: isOwnerResolver },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Account @${name}(field: "ownerId", policy: RESOLVER) {
+              balance: Float
+              isOwner: Boolean @${name}(field: "managerId", policy: RESOLVER)
+            }
+            type Query {
+              accounts: [Account]
+            }
+          `,
+        ],
+      }),
+    );
+    const rootValue = {
+      accounts: [
+        { balance: 1, managerId: '1', ownerId: '1' },
+        { balance: 2, managerId: '1', ownerId: '2' },
+        { balance: 3, managerId: '2', ownerId: '1' },
+      ],
+    };
+
+    it('all isOwner must be fulfilled', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: { userId: '1' },
+          rootValue,
+          schema,
+          source: '{ accounts { balance isOwner } }',
+        }),
+      ).toEqual({
+        data: {
+          accounts: [
+            { balance: 1, isOwner: true },
+            { balance: 2, isOwner: false },
+            { balance: 3, isOwner: false },
+          ],
+        },
+      });
+    });
+  });
+});
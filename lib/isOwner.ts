@@ -0,0 +1,156 @@
+import type {
+  GraphQLResolveInfo,
+  GraphQLSchema,
+  GraphQLDirective,
+} from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLEnumType,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import EasyDirectiveVisitor from './EasyDirectiveVisitor.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import ValidateDirectiveVisitor, {
+  ValidateDirectivePolicy,
+} from './ValidateDirectiveVisitor.js';
+import { createGetItemKey } from './distinctItemsCommon.js';
+
+export interface IsOwnerResolverInfo extends GraphQLResolveInfo {
+  isOwner?: boolean;
+}
+
+export type IsOwnerDirectiveArgs = {
+  field: string;
+  contextKey: string;
+  policy: ValidateDirectivePolicy;
+};
+
+export const DEFAULT_IS_OWNER_CONTEXT_KEY = 'userId';
+
+const errorMessage = 'Not the owner';
+
+// ids may be given as strings or numbers, ie: ID fields
+const isSameId = (a: unknown, b: unknown): boolean => {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return false;
+  }
+  if (
+    (typeof a === 'string' || typeof a === 'number') &&
+    (typeof b === 'string' || typeof b === 'number')
+  ) {
+    return String(a) === String(b);
+  }
+  return a === b;
+};
+
+const defaultPolicyOutsideClass: ValidateDirectivePolicy =
+  ValidateDirectivePolicy.THROW;
+
+export class IsOwnerDirectiveVisitor<
+  TArgs extends IsOwnerDirectiveArgs,
+  TContext extends object,
+> extends ValidateDirectiveVisitor<TArgs, TContext> {
+  public static readonly defaultName: string = 'isOwner';
+
+  public static readonly defaultPolicy: ValidateDirectivePolicy =
+    defaultPolicyOutsideClass;
+
+  public readonly applyValidationToOutputTypesAfterOriginalResolver: Boolean =
+    false;
+
+  public static readonly config: (typeof ValidateDirectiveVisitor)['config'] = {
+    args: {
+      contextKey: {
+        defaultValue: DEFAULT_IS_OWNER_CONTEXT_KEY,
+        description:
+          'The key path (ie: "userId" or "user.id") of the current user id in the context',
+        type: new GraphQLNonNull(GraphQLString),
+      },
+      field: {
+        description:
+          'The key path (ie: "authorId" or "author.id") of the owner id in the parent object',
+        type: new GraphQLNonNull(GraphQLString),
+      },
+      policy: {
+        defaultValue: defaultPolicyOutsideClass,
+        description: 'How to handle users that are not the owner',
+        type: new GraphQLEnumType({
+          name: 'IsOwnerDirectivePolicy',
+          values: {
+            RESOLVER: {
+              description:
+                'Field resolver is responsible to evaluate it using `isOwner` injected argument',
+              value: ValidateDirectivePolicy.RESOLVER,
+            },
+            THROW: {
+              description:
+                'Field resolver is not called if not the owner, it throws `ForbiddenError`',
+              value: ValidateDirectivePolicy.THROW,
+            },
+          },
+        }),
+      },
+    },
+    description:
+      'ensures the current user owns the parent object before calling the resolver',
+    locations: [DirectiveLocation.FIELD_DEFINITION, DirectiveLocation.OBJECT],
+  };
+
+  public static getDirectiveDeclaration(
+    givenDirectiveName?: string,
+    schema?: GraphQLSchema,
+  ): GraphQLDirective {
+    return EasyDirectiveVisitor.getDirectiveDeclaration.apply(this, [
+      givenDirectiveName,
+      schema,
+    ]);
+  }
+
+  public getValidationForArgs(): ValidateFunction<TContext> {
+    const { field, contextKey, policy } = this.args;
+    const getOwnerId = createGetItemKey(field);
+    const getUserId = createGetItemKey(contextKey);
+
+    const isOwnerValidateFunction: ValidateFunction<TContext> = (
+      value: unknown,
+      _: unknown,
+      __: unknown,
+      context: TContext,
+      resolverInfo: Record<string, unknown>,
+      resolverSource: unknown,
+    ): unknown => {
+      const isOwner = isSameId(getOwnerId(resolverSource), getUserId(context));
+
+      if (policy === ValidateDirectivePolicy.THROW && !isOwner) {
+        throw new ForbiddenError(errorMessage);
+      }
+
+      // all isOwner executed before it must also be fulfilled
+      // eslint-disable-next-line no-param-reassign
+      resolverInfo.isOwner = isOwner && resolverInfo.isOwner !== false;
+
+      return value;
+    };
+
+    return isOwnerValidateFunction;
+  }
+}
+
+export default IsOwnerDirectiveVisitor;
+
+/*
+  graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
+  you'll get this error: "Type 'typeof Your_Directive_Class' is not assignable to type 'typeof SchemaDirectiveVisitor'.".
+  If you are using the old graphql-tools, you can use:
+  extends EasyDirectiveVisitor<Record<string, never>, TContext>
+*/
+export const IsOwnerDirectiveVisitorNonTyped: typeof IsOwnerDirectiveVisitor<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any
+> = IsOwnerDirectiveVisitor;
@@ -0,0 +1,250 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import ListItems from './listItems.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@listItems()', (): void => {
+  const name = 'listItems';
+  const directiveTypeDefs = ListItems.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Ensures the number of distinct list items is within boundaries. Null items (or keys) are ignored.
+"""
+directive @${name}(
+  """
+  The key path (ie: "id" or "author.id") to compare the items. If null, the whole items are compared (deep equality)
+  """
+  by: String = null
+  """
+  The maximum number of distinct items (inclusive) to allow. If null, no upper limit is applied
+  """
+  maxDistinct: Int = null
+  """
+  The minimum number of distinct items (inclusive) to allow. If null, no lower limit is applied
+  """
+  minDistinct: Int = null
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      ListItems.getTypeDefs().map(print),
+    );
+  });
+
+  const resolve = (
+    _: unknown,
+    { arg }: { arg: unknown },
+    __: unknown,
+    { validationErrors }: ValidationErrorsResolverInfo,
+  ): object => ({
+    arg: JSON.stringify(arg),
+    validationErrors,
+  });
+
+  const createSchema = (directiveArgs = ''): GraphQLSchema =>
+    new ListItems().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            input: resolve,
+            test: resolve,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...ListItems.getMissingCommonTypeDefs(),
+          gql`
+            input Tag {
+              id: ID
+              label: String
+            }
+            input Post {
+              tags: [Tag] @${name}${directiveArgs}
+            }
+            type TagOutput {
+              id: ID
+            }
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: [Tag] @${name}${directiveArgs}): Result
+              input(arg: Post): Result
+              output: [TagOutput] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    tags: string,
+  ): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${tags}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  const expectValid = async (
+    schema: GraphQLSchema,
+    tags: string,
+  ): Promise<void> => {
+    expect(await doTest(schema, tags)).toMatchObject({
+      data: { test: { validationErrors: null } },
+    });
+  };
+
+  const expectInvalid = async (
+    schema: GraphQLSchema,
+    tags: string,
+    message: string,
+    path: string[],
+  ): Promise<void> => {
+    expect(await doTest(schema, tags)).toEqual({
+      data: { test: { arg: 'null', validationErrors: [{ message, path }] } },
+    });
+  };
+
+  describe('fails on definition', (): void => {
+    it.each([
+      ['(minDistinct: -1)', '@listItems(minDistinct) must be at least 0'],
+      ['(maxDistinct: -1)', '@listItems(maxDistinct) must be at least 0'],
+      [
+        '(minDistinct: 2, maxDistinct: 1)',
+        '@listItems(maxDistinct) must be at least equal to minDistinct',
+      ],
+    ])('%s', (directiveArgs, message): void => {
+      expect(() => createSchema(directiveArgs)).toThrow(
+        new RangeError(message),
+      );
+    });
+  });
+
+  it('does nothing without limits', async (): Promise<void> => {
+    expect(await doTest(createSchema(), '[{ id: 1 }, { id: 1 }]')).toEqual({
+      data: {
+        test: { arg: '[{"id":"1"},{"id":"1"}]', validationErrors: null },
+      },
+    });
+  });
+
+  it('checks the distinct items (deep equality)', async (): Promise<void> => {
+    const schema = createSchema('(minDistinct: 2, maxDistinct: 2)');
+    await expectValid(schema, '[{ id: 1 }, { id: 2 }, { id: 1 }, null]');
+    await expectValid(schema, '[{ id: 1 }, { id: 1, label: "a" }]');
+    await expectInvalid(
+      schema,
+      '[{ id: 1 }, { id: 1 }, null]',
+      'Less than 2 distinct items',
+      ['arg'],
+    );
+    await expectInvalid(
+      schema,
+      '[{ id: 1 }, { id: 2 }, { id: 1 }, { id: 3 }, { id: 4 }]',
+      'More than 2 distinct items',
+      ['arg', '3'],
+    );
+  });
+
+  it('compares by key path', async (): Promise<void> => {
+    const schema = createSchema('(by: "id", maxDistinct: 1)');
+    await expectValid(schema, '[{ id: 1 }, { id: 1, label: "a" }, {}]');
+    await expectInvalid(
+      schema,
+      '[{ id: 1 }, { id: 1, label: "a" }, { id: 2 }]',
+      'More than 1 distinct items',
+      ['arg', '2'],
+    );
+  });
+
+  it('accepts only minDistinct', async (): Promise<void> => {
+    const schema = createSchema('(by: "id", minDistinct: 2)');
+    await expectValid(schema, '[{ id: 1 }, { id: 2 }, { id: 3 }]');
+    await expectInvalid(schema, '[]', 'Less than 2 distinct items', ['arg']);
+  });
+
+  it('works on input fields', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema: createSchema('(by: "label", maxDistinct: 1)'),
+        source: print(gql`
+          query {
+            input(arg: { tags: [{ label: "a" }, { label: "b" }] }) {
+              arg
+              validationErrors {
+                message
+                path
+              }
+            }
+          }
+        `),
+      }),
+    ).toEqual({
+      data: {
+        input: {
+          arg: '{"tags":null}',
+          validationErrors: [
+            {
+              message: 'More than 1 distinct items',
+              path: ['arg', 'tags', '1'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('works on output', async (): Promise<void> => {
+    const source = '{ output { id } }';
+    const schema = createSchema('(maxDistinct: 1)');
+    expect(
+      await graphql({ rootValue: { output: [{ id: 1 }] }, schema, source }),
+    ).toEqual({ data: { output: [{ id: '1' }] } });
+    expect(
+      await graphql({
+        rootValue: { output: [{ id: 1 }, { id: 2 }] },
+        schema,
+        source,
+      }),
+    ).toMatchObject({
+      data: { output: null },
+      errors: [{ message: 'More than 1 distinct items' }],
+    });
+  });
+});
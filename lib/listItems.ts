@@ -0,0 +1,84 @@
+import { GraphQLInt } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
+import ValidationError from './errors/ValidationError.js';
+import type { DistinctItemsDirectiveArgs } from './distinctItemsCommon.js';
+import {
+  createGetItemKey,
+  defaultArgs,
+  getFirstOccurrences,
+} from './distinctItemsCommon.js';
+
+type ListItemsDirectiveArgs = DistinctItemsDirectiveArgs & {
+  minDistinct: number | null;
+  maxDistinct: number | null;
+} & ValidationDirectiveArgs;
+
+// istanbul ignore next (args set by default to null)
+const createValidate = ({
+  by = null,
+  minDistinct = null,
+  maxDistinct = null,
+}: ListItemsDirectiveArgs): ValidateFunction | undefined => {
+  if (minDistinct === null && maxDistinct === null) return undefined;
+  if (minDistinct !== null && minDistinct < 0)
+    throw new RangeError('@listItems(minDistinct) must be at least 0');
+  if (maxDistinct !== null && maxDistinct < 0)
+    throw new RangeError('@listItems(maxDistinct) must be at least 0');
+  if (minDistinct !== null && maxDistinct !== null && maxDistinct < minDistinct)
+    throw new RangeError(
+      '@listItems(maxDistinct) must be at least equal to minDistinct',
+    );
+
+  const getItemKey = createGetItemKey(by);
+  const errorMessageMin = `Less than ${minDistinct} distinct items`;
+  const errorMessageMax = `More than ${maxDistinct} distinct items`;
+  return (value: unknown): unknown => {
+    if (!Array.isArray(value)) return value;
+    let distinct = 0;
+    getFirstOccurrences(value, getItemKey).forEach((first, index) => {
+      if (first !== index) return;
+      distinct += 1;
+      // reports the first item exceeding the maximum
+      if (maxDistinct !== null && distinct === maxDistinct + 1) {
+        throw new InputFieldValidationError(errorMessageMax, index.toString());
+      }
+    });
+    if (minDistinct !== null && distinct < minDistinct) {
+      throw new ValidationError(errorMessageMin);
+    }
+    return value;
+  };
+};
+
+const Visitor = createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'listItems',
+  directiveConfig: {
+    args: {
+      ...defaultArgs,
+      maxDistinct: {
+        defaultValue: null,
+        description:
+          'The maximum number of distinct items (inclusive) to allow. If null, no upper limit is applied',
+        type: GraphQLInt,
+      },
+      minDistinct: {
+        defaultValue: null,
+        description:
+          'The minimum number of distinct items (inclusive) to allow. If null, no lower limit is applied',
+        type: GraphQLInt,
+      },
+    },
+    description:
+      'Ensures the number of distinct list items is within boundaries. Null items (or keys) are ignored.',
+  },
+  isValidateArrayOrValue: false,
+});
+
+export default Visitor;
@@ -0,0 +1,431 @@
+import { createHmac } from 'crypto';
+
+import type { GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { gql } from 'graphql-tag';
+
+import print from './utils/printer.js';
+import type { MaskContext } from './mask.js';
+import Mask, {
+  createMaskString,
+  DEFAULT_MASK_STRATEGY,
+  MASK_FIXED_VALUE,
+  maskDirectiveSchemaEnumName,
+  MaskStrategy,
+} from './mask.js';
+import {
+  debugFilterMissingPermissions,
+  getPermissionsCacheKey,
+  HasPermissionsDirectiveVisitorNonTyped,
+} from './hasPermissions.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+import applyDirectivesToSchema from './utils/applyDirectivesToSchema.js';
+
+describe('@mask()', (): void => {
+  const name = 'mask';
+  const directiveTypeDefs = Mask.getTypeDefs(name);
+  const permission = 'pii';
+  const maskHashSecret = 'mask-secret';
+
+  const createContext = (
+    grantedPermissions: string[] | undefined,
+  ): MaskContext =>
+    Mask.createDirectiveContext({
+      filterMissingPermissions: debugFilterMissingPermissions,
+      grantedPermissions,
+      maskHashSecret,
+    });
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+masks the value if permissions are missing. Only for nullable String fields, values that are not strings are replaced by null
+"""
+directive @${name}(
+  """
+  How many chars are kept at the end by the PARTIAL strategy (4 if null). Emails keep the first char and the domain instead
+  """
+  keepLast: Int
+  """
+  All permissions required to see the value. If any is missing, the value is masked
+  """
+  permissions: [String!]!
+  strategy: ${maskDirectiveSchemaEnumName}! = ${DEFAULT_MASK_STRATEGY}
+) on FIELD_DEFINITION | OBJECT
+`,
+      `\
+enum ${maskDirectiveSchemaEnumName} {
+  """The value is replaced by null"""
+  ${MaskStrategy.NULL}
+  """
+  The value is replaced by asterisks, but a few chars, such as u***@server.com or ******1234
+  """
+  ${MaskStrategy.PARTIAL}
+  """
+  The value is replaced by its HMAC-SHA256 (hex) keyed by the context secret, the same values give the same hash
+  """
+  ${MaskStrategy.HASH}
+  """The value is replaced by ${MASK_FIXED_VALUE}, hiding its length"""
+  ${MaskStrategy.FIXED}
+}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(Mask.getTypeDefs().map(print));
+  });
+
+  describe('works on type object field', (): void => {
+    const createSchema = (directiveArgs: string): GraphQLSchema =>
+      new Mask().applyToSchema(
+        makeExecutableSchema({
+          typeDefs: [
+            ...directiveTypeDefs,
+            gql`
+              type Query {
+                test: String @${name}(${directiveArgs})
+                list: [String] @${name}(${directiveArgs})
+              }
+            `,
+          ],
+        }),
+      );
+
+    const maskField = async (
+      directiveArgs: string,
+      field: 'test' | 'list',
+      value: unknown,
+      grantedPermissions?: string[],
+    ): Promise<unknown> => {
+      const result = await graphql({
+        contextValue: createContext(grantedPermissions),
+        rootValue: { [field]: value },
+        schema: createSchema(directiveArgs),
+        source: `{ ${field} }`,
+      });
+      expect(result.errors).toBeUndefined();
+      return (result.data as Record<string, unknown>)[field];
+    };
+
+    const email = 'user@server.com';
+    const phone = '+55 11 91234-5678';
+
+    it('if has permissions, returns the value', async (): Promise<void> => {
+      expect(
+        await maskField(`permissions: ["${permission}"]`, 'test', email, [
+          permission,
+        ]),
+      ).toBe(email);
+    });
+
+    it('if has no permissions, masks with PARTIAL by default', async (): Promise<void> => {
+      const directiveArgs = `permissions: ["${permission}"]`;
+      expect(await maskField(directiveArgs, 'test', email)).toBe(
+        'u***@server.com',
+      );
+      expect(await maskField(directiveArgs, 'test', phone)).toBe(
+        '*************5678',
+      );
+      expect(await maskField(directiveArgs, 'test', '1234')).toBe('****');
+      expect(await maskField(directiveArgs, 'test', '@handle')).toBe('***ndle');
+    });
+
+    it('PARTIAL masks short email local parts entirely', async (): Promise<void> => {
+      const directiveArgs = `permissions: ["${permission}"]`;
+      expect(await maskField(directiveArgs, 'test', 'a@x.com')).toBe('*@x.com');
+      expect(await maskField(directiveArgs, 'test', 'ab@x.com')).toBe(
+        '**@x.com',
+      );
+      expect(await maskField(directiveArgs, 'test', 'abc@x.com')).toBe(
+        'a**@x.com',
+      );
+    });
+
+    it('if some permission is missing, masks', async (): Promise<void> => {
+      expect(
+        await maskField(`permissions: ["${permission}", "x"]`, 'test', email, [
+          permission,
+        ]),
+      ).toBe('u***@server.com');
+    });
+
+    it('PARTIAL keeps the given number of chars', async (): Promise<void> => {
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], keepLast: 2`,
+          'test',
+          phone,
+        ),
+      ).toBe('***************78');
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], keepLast: 0`,
+          'test',
+          phone,
+        ),
+      ).toBe('*****************');
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], strategy: PARTIAL, keepLast: 0`,
+          'test',
+          email,
+        ),
+      ).toBe('u***@server.com');
+    });
+
+    it('HASH replaces by the HMAC-SHA256', async (): Promise<void> => {
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], strategy: HASH`,
+          'test',
+          email,
+        ),
+      ).toBe(createHmac('sha256', maskHashSecret).update(email).digest('hex'));
+    });
+
+    it('HASH fails without the context secret', async (): Promise<void> => {
+      const result = await graphql({
+        contextValue: Mask.createDirectiveContext({ grantedPermissions: [] }),
+        rootValue: { test: email },
+        schema: createSchema(`permissions: ["${permission}"], strategy: HASH`),
+        source: '{ test }',
+      });
+      expect(result.data).toEqual({ test: null });
+      expect(result.errors?.map(({ message }) => message)).toEqual([
+        '@mask(strategy: HASH) requires maskHashSecret in context',
+      ]);
+    });
+
+    it('FIXED replaces by a constant', async (): Promise<void> => {
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], strategy: FIXED`,
+          'test',
+          email,
+        ),
+      ).toBe(MASK_FIXED_VALUE);
+    });
+
+    it('NULL replaces by null', async (): Promise<void> => {
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], strategy: NULL`,
+          'test',
+          email,
+        ),
+      ).toBeNull();
+    });
+
+    it('replaces values that are not strings by null', async (): Promise<void> => {
+      const directiveArgs = `permissions: ["${permission}"], strategy: FIXED`;
+      expect(await maskField(directiveArgs, 'test', 42)).toBeNull();
+      expect(await maskField(directiveArgs, 'test', 42, [permission])).toBe(
+        '42',
+      );
+    });
+
+    it('keeps null values', async (): Promise<void> => {
+      expect(
+        await maskField(
+          `permissions: ["${permission}"], strategy: FIXED`,
+          'test',
+          null,
+        ),
+      ).toBeNull();
+    });
+
+    it('masks every list item', async (): Promise<void> => {
+      expect(
+        await maskField(`permissions: ["${permission}"]`, 'list', [
+          email,
+          null,
+          phone,
+        ]),
+      ).toEqual(['u***@server.com', null, '*************5678']);
+    });
+
+    it('empty permissions do not mask', async (): Promise<void> => {
+      expect(await maskField('permissions: []', 'test', email)).toBe(email);
+    });
+
+    it('throws if keepLast is used by other strategies', (): void => {
+      expect(() =>
+        createSchema(
+          `permissions: ["${permission}"], strategy: HASH, keepLast: 2`,
+        ),
+      ).toThrow(
+        new RangeError('@mask(keepLast) is not supported by strategy HASH'),
+      );
+    });
+
+    it('throws if keepLast is negative', (): void => {
+      expect(() =>
+        createSchema(`permissions: ["${permission}"], keepLast: -1`),
+      ).toThrow(new RangeError('@mask(keepLast) must be at least 0'));
+    });
+  });
+
+  describe('works on type object', (): void => {
+    const schema = new Mask().applyToSchema(
+      makeExecutableSchema({
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Contact @${name}(permissions: ["${permission}"], strategy: FIXED) {
+              id: ID!
+              email: String
+              phone: String
+              age: Int
+            }
+            type Query {
+              contact: Contact
+            }
+          `,
+        ],
+      }),
+    );
+    const source = '{ contact { id email phone age } }';
+    const rootValue = {
+      contact: {
+        age: 42,
+        email: 'user@server.com',
+        id: '1',
+        phone: '+55 11 91234-5678',
+      },
+    };
+
+    it('if has permissions, returns all', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: createContext([permission]),
+          rootValue,
+          schema,
+          source,
+        }),
+      ).toEqual({ data: rootValue });
+    });
+
+    it('if has no permissions, masks the String fields', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: createContext(undefined),
+          rootValue,
+          schema,
+          source,
+        }),
+      ).toEqual({
+        data: {
+          contact: {
+            age: 42,
+            email: MASK_FIXED_VALUE,
+            id: '1',
+            phone: MASK_FIXED_VALUE,
+          },
+        },
+      });
+    });
+  });
+
+  describe('throws on fields that could not be masked', (): void => {
+    const createSchema = (typeDefs: string): GraphQLSchema =>
+      new Mask().applyToSchema(
+        makeExecutableSchema({
+          typeDefs: [
+            ...directiveTypeDefs,
+            gql`
+              ${typeDefs}
+            `,
+          ],
+        }),
+      );
+
+    it.each(['Int', 'String!', '[String!]', '[String]!'])(
+      'field of type %s',
+      (type: string): void => {
+        expect(() =>
+          createSchema(`
+            type Query {
+              test: ${type} @${name}(permissions: ["${permission}"])
+            }
+          `),
+        ).toThrow(
+          new RangeError(`@mask requires nullable String fields, got: ${type}`),
+        );
+      },
+    );
+
+    it('object without String fields', (): void => {
+      expect(() =>
+        createSchema(`
+          type Contact @${name}(permissions: ["${permission}"]) {
+            id: ID!
+            age: Int
+          }
+          type Query {
+            contact: Contact
+          }
+        `),
+      ).toThrow(
+        new RangeError(
+          '@mask requires nullable String fields, Contact has none',
+        ),
+      );
+    });
+  });
+
+  describe('works with @hasPermissions', (): void => {
+    const hasPermissionsName = 'hasPermissions';
+    const schema = applyDirectivesToSchema(
+      [HasPermissionsDirectiveVisitorNonTyped, Mask],
+      makeExecutableSchema({
+        typeDefs: [
+          ...HasPermissionsDirectiveVisitorNonTyped.getTypeDefs(
+            hasPermissionsName,
+          ),
+          ...directiveTypeDefs,
+          gql`
+            type Query {
+              email: String @${name}(permissions: ["y", "x"])
+              phone: String @${hasPermissionsName}(permissions: ["x", "y"])
+            }
+          `,
+        ],
+      }),
+    );
+    const source = '{ email phone }';
+    const rootValue = { email: 'user@server.com', phone: '+55 11 91234-5678' };
+
+    it('shares the permissions cache', async (): Promise<void> => {
+      const context = createContext(['x']);
+      const checkMissingPermissions = jest.fn(context.checkMissingPermissions);
+      const result = await graphql({
+        contextValue: { checkMissingPermissions },
+        rootValue,
+        schema,
+        source,
+      });
+      expect(result).toEqual({
+        data: { email: 'u***@server.com', phone: null },
+        errors: [new ForbiddenError('Missing Permissions: y')],
+      });
+      const cacheKey = getPermissionsCacheKey(['x', 'y']);
+      expect(checkMissingPermissions.mock.calls.map(([, key]) => key)).toEqual([
+        cacheKey,
+        cacheKey,
+      ]);
+    });
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "strategy" is invalid', (): void => {
+    const invalidStrategy = 'INVALID_STRATEGY' as MaskStrategy;
+    expect(() => createMaskString(invalidStrategy, null)).toThrow(
+      new TypeError(
+        `The value ${invalidStrategy} is not accepted by this argument`,
+      ),
+    );
+  });
+});
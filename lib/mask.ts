@@ -0,0 +1,315 @@
+import { createHmac } from 'crypto';
+
+import type {
+  GraphQLDirective,
+  GraphQLField,
+  GraphQLFieldConfig,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+} from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLEnumType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+  isListType,
+  isNonNullType,
+  isScalarType,
+} from 'graphql';
+
+import EasyDirectiveVisitor from './EasyDirectiveVisitor.js';
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import { ValidateDirectiveVisitorNonTyped } from './ValidateDirectiveVisitor.js';
+import validateArrayOrValue from './validateArrayOrValue.js';
+import type {
+  FilterMissingPermissions,
+  HasPermissionsContext,
+} from './hasPermissions.js';
+import HasPermissionsDirectiveVisitor, {
+  getPermissionsCacheKey,
+} from './hasPermissions.js';
+import neverAssertion from './utils/neverAssertion.js';
+
+export enum MaskStrategy {
+  NULL = 'NULL',
+  PARTIAL = 'PARTIAL',
+  HASH = 'HASH',
+  FIXED = 'FIXED',
+}
+
+export const DEFAULT_MASK_STRATEGY = MaskStrategy.PARTIAL;
+
+export const maskDirectiveSchemaEnumName = 'MaskDirectiveStrategy';
+
+export const MASK_FIXED_VALUE = '********';
+
+const maskChar = '*';
+
+const defaultKeepLast = 4;
+
+export type MaskDirectiveArgs = {
+  permissions: string[];
+  strategy: MaskStrategy;
+  keepLast?: number | null;
+};
+
+export type MaskContext = HasPermissionsContext & {
+  // key of the HMAC used by the HASH strategy, keep it private
+  maskHashSecret?: string;
+};
+
+type MaskString = (value: string, hashSecret: string | undefined) => string;
+
+const maskAll = (value: string): string => maskChar.repeat(value.length);
+
+// local parts with less chars are masked entirely, as keeping the
+// first char would hide too little, ie: a@x.com or ab@x.com
+const minEmailLocalPartToKeepFirst = 3;
+
+// emails keep the first char of the local part and the domain,
+// ie: u***@server.com. Other values keep the last chars, but values
+// too short to hide anything are masked entirely
+const createMaskPartial = (keepLast: number): MaskString => {
+  const maskKeepLast =
+    keepLast === 0
+      ? maskAll
+      : (value: string): string =>
+          value.length <= keepLast
+            ? maskAll(value)
+            : maskAll(value.slice(0, -keepLast)) + value.slice(-keepLast);
+  return (value: string): string => {
+    const at = value.lastIndexOf('@');
+    if (at < 1) return maskKeepLast(value);
+    if (at < minEmailLocalPartToKeepFirst) {
+      return maskAll(value.slice(0, at)) + value.slice(at);
+    }
+    return value[0] + maskAll(value.slice(1, at)) + value.slice(at);
+  };
+};
+
+// a plain hash of an email or phone number is reversed by hashing a
+// dictionary of them, then it's keyed by a secret the clients don't know
+const maskHash = (value: string, hashSecret: string | undefined): string => {
+  if (!hashSecret) {
+    throw new Error('@mask(strategy: HASH) requires maskHashSecret in context');
+  }
+  return createHmac('sha256', hashSecret).update(value).digest('hex');
+};
+
+const maskFixed = (): string => MASK_FIXED_VALUE;
+
+export const createMaskString = (
+  strategy: MaskStrategy,
+  keepLast: number | null | undefined,
+): MaskString | null => {
+  if (keepLast !== null && keepLast !== undefined) {
+    if (strategy !== MaskStrategy.PARTIAL) {
+      throw new RangeError(
+        `@mask(keepLast) is not supported by strategy ${strategy}`,
+      );
+    }
+    if (keepLast < 0) {
+      throw new RangeError('@mask(keepLast) must be at least 0');
+    }
+  }
+  switch (strategy) {
+    case MaskStrategy.NULL:
+      return null;
+    case MaskStrategy.PARTIAL:
+      return createMaskPartial(keepLast ?? defaultKeepLast);
+    case MaskStrategy.HASH:
+      return maskHash;
+    case MaskStrategy.FIXED:
+      return maskFixed;
+    default:
+      return neverAssertion(strategy);
+  }
+};
+
+// masked values may be null (NULL strategy and values that are not
+// strings), then non-null fields and list items would fail the whole
+// parent and other types would be nulled entirely
+const isMaskableType = (type: GraphQLOutputType): boolean => {
+  if (isNonNullType(type)) return false;
+  if (isListType(type)) return isMaskableType(type.ofType);
+  return isScalarType(type) && type.name === GraphQLString.name;
+};
+
+const assertMaskableType = (type: GraphQLOutputType): void => {
+  if (!isMaskableType(type)) {
+    throw new RangeError(
+      `@mask requires nullable String fields, got: ${String(type)}`,
+    );
+  }
+};
+
+/*
+  graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
+  you'll get this error: "Type 'typeof Your_Directive_Class' is not assignable to type 'typeof SchemaDirectiveVisitor'.".
+  If you are using the old graphql-tools, you can use:
+  extends ValidateDirectiveVisitor<MaskDirectiveArgs, TContext>
+*/
+export default class MaskDirectiveVisitor<
+  _ extends MaskContext,
+> extends ValidateDirectiveVisitorNonTyped {
+  public static readonly defaultName: string = 'mask';
+
+  public static readonly config: (typeof ValidateDirectiveVisitorNonTyped)['config'] =
+    {
+      args: {
+        keepLast: {
+          description:
+            'How many chars are kept at the end by the PARTIAL strategy (4 if null). Emails keep the first char and the domain instead',
+          type: GraphQLInt,
+        },
+        permissions: {
+          description:
+            'All permissions required to see the value. If any is missing, the value is masked',
+          type: new GraphQLNonNull(
+            new GraphQLList(new GraphQLNonNull(GraphQLString)),
+          ),
+        },
+        strategy: {
+          defaultValue: DEFAULT_MASK_STRATEGY,
+          type: new GraphQLNonNull(
+            new GraphQLEnumType({
+              name: maskDirectiveSchemaEnumName,
+              values: {
+                [MaskStrategy.NULL]: {
+                  description: 'The value is replaced by null',
+                  value: MaskStrategy.NULL,
+                },
+                [MaskStrategy.PARTIAL]: {
+                  description:
+                    'The value is replaced by asterisks, but a few chars, such as u***@server.com or ******1234',
+                  value: MaskStrategy.PARTIAL,
+                },
+                [MaskStrategy.HASH]: {
+                  description:
+                    'The value is replaced by its HMAC-SHA256 (hex) keyed by the context secret, the same values give the same hash',
+                  value: MaskStrategy.HASH,
+                },
+                [MaskStrategy.FIXED]: {
+                  description: `The value is replaced by ${MASK_FIXED_VALUE}, hiding its length`,
+                  value: MaskStrategy.FIXED,
+                },
+              },
+            }),
+          ),
+        },
+      },
+      description:
+        'masks the value if permissions are missing. Only for nullable String fields, values that are not strings are replaced by null',
+      locations: [DirectiveLocation.FIELD_DEFINITION, DirectiveLocation.OBJECT],
+    };
+
+  // there are no validation errors, then no policy
+  public static getDirectiveDeclaration(
+    givenDirectiveName?: string,
+    schema?: GraphQLSchema,
+  ): GraphQLDirective {
+    return EasyDirectiveVisitor.getDirectiveDeclaration.apply(this, [
+      givenDirectiveName,
+      schema,
+    ]);
+  }
+
+  public static createDirectiveContext({
+    maskHashSecret,
+    ...hasPermissionsOptions
+  }: {
+    grantedPermissions: string[] | undefined;
+    filterMissingPermissions?: FilterMissingPermissions;
+    maskHashSecret?: string;
+  }): MaskContext {
+    return {
+      ...HasPermissionsDirectiveVisitor.createDirectiveContext(
+        hasPermissionsOptions,
+      ),
+      maskHashSecret,
+    };
+  }
+
+  public visitFieldDefinition(
+    field:
+      | GraphQLFieldConfig<unknown, MaskContext>
+      | GraphQLField<unknown, MaskContext>,
+    { objectType }: { objectType: GraphQLObjectType },
+  ): void {
+    assertMaskableType(field.type);
+    super.visitFieldDefinition(field, { objectType });
+  }
+
+  // only the fields that can be masked are, others such as `id: ID!`
+  // are kept as is
+  public visitObject(object: GraphQLObjectType | GraphQLInterfaceType): void {
+    const fields = Object.values(object.getFields()).filter(({ type }) =>
+      isMaskableType(type),
+    );
+    if (fields.length === 0) {
+      throw new RangeError(
+        `@mask requires nullable String fields, ${object.name} has none`,
+      );
+    }
+    fields.forEach(field =>
+      this.visitFieldDefinition(field, {
+        objectType: object as GraphQLObjectType,
+      }),
+    );
+  }
+
+  public getValidationForArgs(): ValidateFunction<MaskContext> | undefined {
+    const { permissions, strategy, keepLast } = this.args as MaskDirectiveArgs;
+    const maskString = createMaskString(strategy, keepLast);
+    if (permissions.length === 0) return undefined;
+    const cacheKey = getPermissionsCacheKey(permissions);
+
+    const maskValue = (
+      value: unknown,
+      _type: unknown,
+      _container: unknown,
+      { maskHashSecret }: MaskContext,
+    ): unknown => {
+      if (value === null || value === undefined) return value;
+      if (maskString === null || typeof value !== 'string') return null;
+      return maskString(value, maskHashSecret);
+    };
+    const maskArrayOrValue = validateArrayOrValue(maskValue);
+
+    return (
+      value: unknown,
+      type,
+      container,
+      context: MaskContext,
+      resolverInfo,
+      resolverSource,
+      resolverArgs,
+    ): unknown => {
+      const missingPermissions = context.checkMissingPermissions(
+        permissions,
+        cacheKey,
+        resolverSource,
+        resolverArgs,
+        context,
+        resolverInfo as unknown as GraphQLResolveInfo,
+      );
+      if (!missingPermissions || missingPermissions.length === 0) {
+        return value;
+      }
+      return maskArrayOrValue(
+        value,
+        type,
+        container,
+        context,
+        resolverInfo,
+        resolverSource,
+        resolverArgs,
+      );
+    };
+  }
+}
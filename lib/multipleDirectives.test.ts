@@ -105,7 +105,7 @@ describe('Multiple Directives', () => {
       });
       expect(result).toEqual({
         data: null,
-        errors: [new GraphQLError('String Length is More than 5')],
+        errors: [new GraphQLError('String Length is More than 5 code units')],
       });
     });
   });
@@ -0,0 +1,147 @@
+import type { GraphQLSchema } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import Normalize, {
+  createValidate as createNormalizeDirectiveValidate,
+  DEFAULT_NORMALIZE_FORM,
+  normalizeDirectiveSchemaEnumName,
+  NormalizeForm,
+} from './normalize.js';
+import capitalize from './capitalize.js';
+
+import type { CreateSchemaConfig } from './test-utils.test.js';
+import {
+  testEasyDirective,
+  validationDirectionEnumTypeDefs,
+  validationDirectivePolicyArgs,
+} from './test-utils.test.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
+
+type RootValue = {
+  arrayTest?: (string | null)[] | null;
+  test?: string | null;
+};
+
+const directiveName = 'normalize';
+
+const createSchema = ({
+  name,
+  testCase: { directiveArgs },
+}: CreateSchemaConfig<RootValue>): GraphQLSchema =>
+  new Normalize().applyToSchema(
+    makeExecutableSchema({
+      typeDefs: [
+        ...Normalize.getTypeDefs(name, undefined, true, true),
+        gql`
+                type Query {
+                  test: String @${name}${directiveArgs}
+                  arrayTest: [String] @${name}${directiveArgs}
+                }
+              `,
+      ],
+    }),
+  );
+
+// "é" as a single code point and as "e" followed by the combining acute accent
+const composed = 'caf\u00e9';
+const decomposed = 'cafe\u0301';
+// "ﬁ" ligature and superscript two are compatibility characters
+const compatibility = 'ﬁle²';
+
+describe('directive @normalize error tests', () => {
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('should throw an error when "form" is invalid', () => {
+    const invalidForm = 'INVALID_FORM' as NormalizeForm;
+    expect(() =>
+      createNormalizeDirectiveValidate({
+        form: invalidForm,
+        policy: ValidateDirectivePolicy.RESOLVER,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidForm} is not accepted by this argument`,
+      ),
+    );
+  });
+});
+
+testEasyDirective({
+  createSchema,
+  DirectiveVisitor: Normalize,
+  expectedArgsTypeDefs: `\
+(
+  form: ${normalizeDirectiveSchemaEnumName}! = ${DEFAULT_NORMALIZE_FORM}
+  ${validationDirectivePolicyArgs(capitalize(directiveName))}
+)`,
+  expectedUnknownTypeDefs: `enum ${normalizeDirectiveSchemaEnumName} {
+  """
+  The value of this field will be composed, ie: "e" followed by a combining acute accent becomes "é"
+  """
+  ${NormalizeForm.NFC}
+  """
+  The value of this field will be decomposed, ie: "é" becomes "e" followed by a combining acute accent
+  """
+  ${NormalizeForm.NFD}
+  """
+  The value of this field will be composed after replacing compatibility characters, ie: "ﬁ" becomes "fi"
+  """
+  ${NormalizeForm.NFKC}
+  """
+  The value of this field will be decomposed after replacing compatibility characters
+  """
+  ${NormalizeForm.NFKD}
+}
+${validationDirectionEnumTypeDefs(capitalize(directiveName))}`,
+  name: directiveName,
+  testCases: [
+    {
+      directiveArgs: '',
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: composed } },
+        {
+          expected: { data: { test: composed } },
+          rootValue: { test: decomposed },
+        },
+        { rootValue: { test: compatibility } },
+        { rootValue: { test: null } },
+      ],
+    },
+    {
+      directiveArgs: `(form: ${NormalizeForm.NFD})`,
+      operation: '{ test }',
+      tests: [
+        {
+          expected: { data: { test: decomposed } },
+          rootValue: { test: composed },
+        },
+        { rootValue: { test: decomposed } },
+      ],
+    },
+    {
+      directiveArgs: `(form: ${NormalizeForm.NFKC})`,
+      operation: '{ test }',
+      tests: [
+        {
+          expected: { data: { test: 'file2' } },
+          rootValue: { test: compatibility },
+        },
+        {
+          expected: { data: { test: composed } },
+          rootValue: { test: decomposed },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(form: ${NormalizeForm.NFKD})`,
+      operation: '{ arrayTest }',
+      tests: [
+        {
+          expected: { data: { arrayTest: ['file2', decomposed, null] } },
+          rootValue: { arrayTest: [compatibility, composed, null] },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,88 @@
+import { GraphQLEnumType, GraphQLNonNull } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import neverAssertion from './utils/neverAssertion.js';
+import createPatternHandler from './patternCommon.js';
+
+export enum NormalizeForm {
+  NFC = 'NFC',
+  NFD = 'NFD',
+  NFKC = 'NFKC',
+  NFKD = 'NFKD',
+}
+
+export const DEFAULT_NORMALIZE_FORM = NormalizeForm.NFC;
+
+export const normalizeDirectiveSchemaEnumName = 'NormalizeDirectiveForm';
+
+type NormalizeDirectiveArgs = ValidationDirectiveArgs & { form: NormalizeForm };
+
+const createNormalizeHandler = (form: NormalizeForm): ValidateFunction =>
+  createPatternHandler((value: string): string => value.normalize(form));
+
+const nfcHandler = createNormalizeHandler(NormalizeForm.NFC);
+const nfdHandler = createNormalizeHandler(NormalizeForm.NFD);
+const nfkcHandler = createNormalizeHandler(NormalizeForm.NFKC);
+const nfkdHandler = createNormalizeHandler(NormalizeForm.NFKD);
+
+export const createValidate = ({
+  form,
+}: NormalizeDirectiveArgs): ValidateFunction => {
+  switch (form) {
+    case NormalizeForm.NFC:
+      return nfcHandler;
+    case NormalizeForm.NFD:
+      return nfdHandler;
+    case NormalizeForm.NFKC:
+      return nfkcHandler;
+    case NormalizeForm.NFKD:
+      return nfkdHandler;
+    default:
+      return neverAssertion(form);
+  }
+};
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'normalize',
+  directiveConfig: {
+    args: {
+      form: {
+        defaultValue: DEFAULT_NORMALIZE_FORM,
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({
+            name: normalizeDirectiveSchemaEnumName,
+            values: {
+              [NormalizeForm.NFC]: {
+                description:
+                  'The value of this field will be composed, ie: "e" followed by a combining acute accent becomes "é"',
+                value: NormalizeForm.NFC,
+              },
+              [NormalizeForm.NFD]: {
+                description:
+                  'The value of this field will be decomposed, ie: "é" becomes "e" followed by a combining acute accent',
+                value: NormalizeForm.NFD,
+              },
+              [NormalizeForm.NFKC]: {
+                description:
+                  'The value of this field will be composed after replacing compatibility characters, ie: "ﬁ" becomes "fi"',
+                value: NormalizeForm.NFKC,
+              },
+              [NormalizeForm.NFKD]: {
+                description:
+                  'The value of this field will be decomposed after replacing compatibility characters',
+                value: NormalizeForm.NFKD,
+              },
+            },
+          }),
+        ),
+      },
+    },
+    description:
+      'normalizes a string to the selected Unicode normalization form',
+  },
+});
@@ -0,0 +1,188 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import NotOneOf from './notOneOf.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@notOneOf()', (): void => {
+  const name = 'notOneOf';
+  const directiveTypeDefs = NotOneOf.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Ensures value is not one of the given values. If used on lists, applies to every item.
+"""
+directive @${name}(
+  """
+  Compares strings ignoring the case. Numbers are compared by their value
+  """
+  caseInsensitive: Boolean! = false
+  """The disallowed values, numbers are given as strings"""
+  values: [String!]!
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      NotOneOf.getTypeDefs().map(print),
+    );
+  });
+
+  const resolve = (
+    _: unknown,
+    { arg }: { arg: unknown },
+    __: unknown,
+    { validationErrors }: ValidationErrorsResolverInfo,
+  ): object => ({
+    arg: JSON.stringify(arg),
+    validationErrors,
+  });
+
+  const createSchema = (directiveArgs: string): GraphQLSchema =>
+    new NotOneOf().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            list: (_, { arg }): string => JSON.stringify(arg),
+            number: resolve,
+            test: resolve,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...NotOneOf.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: String @${name}${directiveArgs}): Result
+              number(arg: Float @${name}${directiveArgs}): Result
+              list(arg: [String] @${name}${directiveArgs}): String
+              output: [String] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    arg: unknown,
+    field = 'test',
+  ): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          ${field}(arg: ${JSON.stringify(arg)}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  const expectValid = async (
+    schema: GraphQLSchema,
+    arg: unknown,
+    field = 'test',
+  ): Promise<void> => {
+    expect(await doTest(schema, arg, field)).toEqual({
+      data: {
+        [field]: { arg: JSON.stringify(arg), validationErrors: null },
+      },
+    });
+  };
+
+  const expectInvalid = async (
+    schema: GraphQLSchema,
+    arg: unknown,
+    field = 'test',
+  ): Promise<void> => {
+    expect(await doTest(schema, arg, field)).toEqual({
+      data: {
+        [field]: {
+          arg: 'null',
+          validationErrors: [
+            { message: `Value is not allowed: ${arg}`, path: ['arg'] },
+          ],
+        },
+      },
+    });
+  };
+
+  it('does nothing on empty values', async (): Promise<void> => {
+    await expectValid(createSchema('(values: [])'), 'any');
+  });
+
+  it('rejects the given strings', async (): Promise<void> => {
+    const schema = createSchema('(values: ["admin", "root"])');
+    await expectValid(schema, 'user');
+    await expectValid(schema, 'Admin');
+    await expectInvalid(schema, 'admin');
+    await expectInvalid(schema, 'root');
+  });
+
+  it('rejects strings ignoring the case', async (): Promise<void> => {
+    const schema = createSchema(
+      '(values: ["admin", "ROOT"], caseInsensitive: true)',
+    );
+    await expectValid(schema, 'user');
+    await expectInvalid(schema, 'ADMIN');
+    await expectInvalid(schema, 'root');
+  });
+
+  it('compares numbers by their value', async (): Promise<void> => {
+    const schema = createSchema('(values: ["0", "1e3"])');
+    await expectValid(schema, 1, 'number');
+    await expectInvalid(schema, 1000, 'number');
+    await expectInvalid(schema, 0, 'number');
+    await expectValid(schema, '1000', 'test');
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    const schema = createSchema('(values: ["x"])');
+    expect(
+      await graphql({ schema, source: '{ list(arg: ["a", null, "b"]) }' }),
+    ).toEqual({ data: { list: '["a",null,"b"]' } });
+    expect(
+      await graphql({ schema, source: '{ list(arg: ["a", "x"]) }' }),
+    ).toEqual({ data: { list: 'null' } });
+    expect(
+      await graphql({
+        rootValue: { output: ['a', 'x'] },
+        schema,
+        source: '{ output }',
+      }),
+    ).toMatchObject({
+      data: { output: null },
+      errors: [{ message: 'Value is not allowed: x' }],
+    });
+  });
+});
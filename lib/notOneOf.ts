@@ -0,0 +1,32 @@
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import createPatternHandler from './patternCommon.js';
+import ValidationError from './errors/ValidationError.js';
+import type { OneOfValuesDirectiveArgs } from './oneOfValuesCommon.js';
+import { createArgs, createValuesMatcher } from './oneOfValuesCommon.js';
+
+const createValidate = ({
+  values,
+  caseInsensitive,
+}: OneOfValuesDirectiveArgs): ValidateFunction | undefined => {
+  if (values.length === 0) return undefined;
+  const matches = createValuesMatcher(values, caseInsensitive);
+  return createPatternHandler(
+    (strValue: string, originalValue: unknown): unknown => {
+      if (matches(strValue, originalValue)) {
+        throw new ValidationError(`Value is not allowed: ${strValue}`);
+      }
+      return originalValue;
+    },
+  );
+};
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'notOneOf',
+  directiveConfig: {
+    args: createArgs('The disallowed values, numbers are given as strings'),
+    description:
+      'Ensures value is not one of the given values. If used on lists, applies to every item.',
+  },
+});
@@ -0,0 +1,192 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import OneOfValues from './oneOfValues.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@oneOfValues()', (): void => {
+  const name = 'oneOfValues';
+  const directiveTypeDefs = OneOfValues.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Ensures value is one of the given values. If used on lists, applies to every item.
+"""
+directive @${name}(
+  """
+  Compares strings ignoring the case. Numbers are compared by their value
+  """
+  caseInsensitive: Boolean! = false
+  """The allowed values, numbers are given as strings"""
+  values: [String!]!
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      OneOfValues.getTypeDefs().map(print),
+    );
+  });
+
+  const resolve = (
+    _: unknown,
+    { arg }: { arg: unknown },
+    __: unknown,
+    { validationErrors }: ValidationErrorsResolverInfo,
+  ): object => ({
+    arg: JSON.stringify(arg),
+    validationErrors,
+  });
+
+  const createSchema = (directiveArgs: string): GraphQLSchema =>
+    new OneOfValues().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            list: (_, { arg }): string => JSON.stringify(arg),
+            number: resolve,
+            test: resolve,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...OneOfValues.getMissingCommonTypeDefs(),
+          gql`
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: String @${name}${directiveArgs}): Result
+              number(arg: Float @${name}${directiveArgs}): Result
+              list(arg: [String] @${name}${directiveArgs}): String
+              output: [String] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    arg: unknown,
+    field = 'test',
+  ): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          ${field}(arg: ${JSON.stringify(arg)}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  const expectValid = async (
+    schema: GraphQLSchema,
+    arg: unknown,
+    field = 'test',
+  ): Promise<void> => {
+    expect(await doTest(schema, arg, field)).toEqual({
+      data: {
+        [field]: { arg: JSON.stringify(arg), validationErrors: null },
+      },
+    });
+  };
+
+  const expectInvalid = async (
+    schema: GraphQLSchema,
+    arg: unknown,
+    field = 'test',
+  ): Promise<void> => {
+    expect(await doTest(schema, arg, field)).toEqual({
+      data: {
+        [field]: {
+          arg: 'null',
+          validationErrors: [
+            { message: `Value is not allowed: ${arg}`, path: ['arg'] },
+          ],
+        },
+      },
+    });
+  };
+
+  it('fails on empty values', (): void => {
+    expect(() => createSchema('(values: [])')).toThrow(
+      new RangeError('@oneOfValues(values) must not be empty'),
+    );
+  });
+
+  it('accepts only the given strings', async (): Promise<void> => {
+    const schema = createSchema('(values: ["red", "green"])');
+    await expectValid(schema, 'red');
+    await expectValid(schema, 'green');
+    await expectInvalid(schema, 'blue');
+    await expectInvalid(schema, 'Red');
+    await expectInvalid(schema, '');
+  });
+
+  it('accepts strings ignoring the case', async (): Promise<void> => {
+    const schema = createSchema(
+      '(values: ["red", "GREEN"], caseInsensitive: true)',
+    );
+    await expectValid(schema, 'RED');
+    await expectValid(schema, 'green');
+    await expectInvalid(schema, 'blue');
+  });
+
+  it('compares numbers by their value', async (): Promise<void> => {
+    const schema = createSchema('(values: ["1.0", "2.5", " ", "abc"])');
+    await expectValid(schema, 1, 'number');
+    await expectValid(schema, 2.5, 'number');
+    await expectInvalid(schema, 0, 'number');
+    await expectInvalid(schema, '1', 'test');
+    await expectValid(schema, '1.0', 'test');
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    const schema = createSchema('(values: ["a", "b"])');
+    expect(
+      await graphql({ schema, source: '{ list(arg: ["a", null, "b"]) }' }),
+    ).toEqual({ data: { list: '["a",null,"b"]' } });
+    expect(
+      await graphql({ schema, source: '{ list(arg: ["a", "c"]) }' }),
+    ).toEqual({ data: { list: 'null' } });
+    expect(
+      await graphql({
+        rootValue: { output: ['a', 'x'] },
+        schema,
+        source: '{ output }',
+      }),
+    ).toMatchObject({
+      data: { output: null },
+      errors: [{ message: 'Value is not allowed: x' }],
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import type { GraphQLFieldConfigArgumentMap } from 'graphql';
+import {
+  GraphQLBoolean,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import type { ValidationDirectiveArgs } from './ValidateDirectiveVisitor.js';
+
+export type OneOfValuesDirectiveArgs = {
+  values: string[];
+  caseInsensitive: boolean;
+} & ValidationDirectiveArgs;
+
+export const createArgs = (
+  valuesDescription: string,
+): GraphQLFieldConfigArgumentMap => ({
+  caseInsensitive: {
+    defaultValue: false,
+    description:
+      'Compares strings ignoring the case. Numbers are compared by their value',
+    type: new GraphQLNonNull(GraphQLBoolean),
+  },
+  values: {
+    description: valuesDescription,
+    type: new GraphQLNonNull(
+      new GraphQLList(new GraphQLNonNull(GraphQLString)),
+    ),
+  },
+});
+
+export type ValuesMatcher = (
+  strValue: string,
+  originalValue: unknown,
+) => boolean;
+
+/*
+  The values are given as strings, but numbers should match by their
+  value (ie: "1.0" matches 1), then numeric strings are also kept in a
+  separate set. Both sets are built once, so each match is O(1).
+*/
+export const createValuesMatcher = (
+  values: readonly string[],
+  caseInsensitive: boolean,
+): ValuesMatcher => {
+  const normalize = caseInsensitive
+    ? (value: string): string => value.toLowerCase()
+    : (value: string): string => value;
+  const strings = new Set(values.map(normalize));
+  const numbers = new Set(
+    values
+      .filter(value => value.trim() !== '')
+      .map(Number)
+      .filter(Number.isFinite),
+  );
+  return (strValue: string, originalValue: unknown): boolean =>
+    typeof originalValue === 'number'
+      ? numbers.has(originalValue)
+      : strings.has(normalize(strValue));
+};
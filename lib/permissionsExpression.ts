@@ -0,0 +1,161 @@
+/*
+  Permissions expressions, such as "admin | (posts:write & posts:own)":
+
+    - `!` (not), `&` (and) and `|` (or), from the highest precedence;
+    - parentheses to group;
+    - anything else, but white spaces, is a permission.
+*/
+export type PermissionsExpression =
+  | { kind: 'permission'; permission: string }
+  | { kind: 'not'; operand: PermissionsExpression }
+  | { kind: 'and' | 'or'; operands: PermissionsExpression[] };
+
+const tokensRegExp = /[!&|()]|[^\s!&|()]+/g;
+
+// from the lowest precedence
+const binaryOperators: ReadonlyArray<['|' | '&', 'or' | 'and']> = [
+  ['|', 'or'],
+  ['&', 'and'],
+];
+
+const isOperator = (token: string): boolean => '!&|()'.includes(token);
+
+export const parsePermissionsExpression = (
+  expression: string,
+): PermissionsExpression => {
+  const tokens = expression.match(tokensRegExp) || [];
+  let position = 0;
+
+  const fail = (): never => {
+    const token = tokens[position];
+    const reason =
+      token === undefined ? 'unexpected end' : `unexpected "${token}"`;
+    throw new RangeError(
+      `Invalid permissions expression "${expression}": ${reason}`,
+    );
+  };
+
+  const parse = (level: number): PermissionsExpression => {
+    const token = tokens[position];
+    if (level < binaryOperators.length) {
+      const [operator, kind] = binaryOperators[level];
+      const operands = [parse(level + 1)];
+      while (tokens[position] === operator) {
+        position += 1;
+        operands.push(parse(level + 1));
+      }
+      return operands.length === 1 ? operands[0] : { kind, operands };
+    }
+    if (token === '!') {
+      position += 1;
+      return { kind: 'not', operand: parse(level) };
+    }
+    if (token === '(') {
+      position += 1;
+      const operand = parse(0);
+      if (tokens[position] !== ')') fail();
+      position += 1;
+      return operand;
+    }
+    if (token === undefined || isOperator(token)) fail();
+    position += 1;
+    return { kind: 'permission', permission: token };
+  };
+
+  const parsed = parse(0);
+  if (position < tokens.length) fail();
+  return parsed;
+};
+
+export const getPermissionsExpressionLeaves = (
+  expression: PermissionsExpression,
+): string[] => {
+  switch (expression.kind) {
+    case 'permission':
+      return [expression.permission];
+    case 'not':
+      return getPermissionsExpressionLeaves(expression.operand);
+    default:
+      return Array.from(
+        new Set(expression.operands.flatMap(getPermissionsExpressionLeaves)),
+      );
+  }
+};
+
+export const printPermissionsExpression = (
+  expression: PermissionsExpression,
+  // ie: prints the resolved permission instead of the template
+  printPermission: (permission: string) => string,
+): string => {
+  const print = (operand: PermissionsExpression): string =>
+    printPermissionsExpression(operand, printPermission);
+  switch (expression.kind) {
+    case 'permission':
+      return printPermission(expression.permission);
+    case 'not':
+      return expression.operand.kind === 'permission' ||
+        expression.operand.kind === 'not'
+        ? `!${print(expression.operand)}`
+        : `!(${print(expression.operand)})`;
+    default: {
+      // ands are also grouped inside ors, it's easier to read
+      const separator = expression.kind === 'and' ? ' & ' : ' | ';
+      return expression.operands
+        .map(operand =>
+          operand.kind === 'and' || operand.kind === 'or'
+            ? `(${print(operand)})`
+            : print(operand),
+        )
+        .join(separator);
+    }
+  }
+};
+
+export type IsPermissionMissing = (permission: string) => boolean;
+
+/*
+  Returns null if the expression is fulfilled, otherwise the branches
+  that failed, with only what is missing, ie: "admin | (posts:write & posts:own)"
+  with "posts:write" granted returns "admin | posts:own".
+*/
+export const filterMissingPermissionsExpression = (
+  expression: PermissionsExpression,
+  isPermissionMissing: IsPermissionMissing,
+): PermissionsExpression[] | null => {
+  switch (expression.kind) {
+    case 'permission':
+      return isPermissionMissing(expression.permission) ? [expression] : null;
+    case 'not':
+      return filterMissingPermissionsExpression(
+        expression.operand,
+        isPermissionMissing,
+      )
+        ? null
+        : [expression];
+    case 'and': {
+      const missing = expression.operands.flatMap(
+        operand =>
+          filterMissingPermissionsExpression(operand, isPermissionMissing) ||
+          [],
+      );
+      return missing.length > 0 ? missing : null;
+    }
+    default: {
+      const operands: PermissionsExpression[] = [];
+      const isFulfilled = expression.operands.some(operand => {
+        const missing = filterMissingPermissionsExpression(
+          operand,
+          isPermissionMissing,
+        );
+        if (!missing) return true;
+        operands.push(
+          missing.length === 1
+            ? missing[0]
+            : { kind: 'and', operands: missing },
+        );
+        return false;
+      });
+      return isFulfilled ? null : [{ kind: 'or', operands }];
+    }
+  }
+};
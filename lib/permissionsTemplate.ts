@@ -0,0 +1,110 @@
+/*
+  Permissions templated from the field arguments or the parent object
+  (source), such as "project:{args.projectId}:read" or
+  "org:{source.organization.id}:members:read".
+*/
+export type ResolvePermission = (
+  source: unknown,
+  args: unknown,
+) => string | null;
+
+const placeholderSplitRegExp = /\{([^{}]*)\}/;
+
+const placeholderRegExp = /^(args|source)((?:\.[^.]+)+)$/;
+
+type GetPlaceholderValue = (source: unknown, args: unknown) => unknown;
+
+const createGetPlaceholderValue = (
+  permission: string,
+  placeholder: string,
+): GetPlaceholderValue => {
+  const match = placeholderRegExp.exec(placeholder);
+  if (!match) {
+    throw new RangeError(
+      `Invalid permission template "${permission}": unknown placeholder "{${placeholder}}", expected {args.path} or {source.path}`,
+    );
+  }
+  const [, root, path] = match;
+  const keys = path.slice(1).split('.');
+  return (source: unknown, args: unknown): unknown =>
+    keys.reduce(
+      (value: unknown, key: string): unknown =>
+        value === null || value === undefined
+          ? undefined
+          : (value as Record<string, unknown>)[key],
+      root === 'args' ? args : source,
+    );
+};
+
+// values with the permission separator, wildcards or white spaces would
+// change the permission structure, ie: "project:{args.id}:write" with
+// id "1:read" resolving to "project:1:read:write"
+const unsafeValueRegExp = /[\s:*]/;
+
+const isInterpolable = (value: unknown): boolean =>
+  (typeof value === 'string' &&
+    value !== '' &&
+    !unsafeValueRegExp.test(value)) ||
+  typeof value === 'number' ||
+  typeof value === 'boolean';
+
+/*
+  Compiles the template once, returns null if the permission has no
+  placeholders. The returned function gives null if any value is
+  missing (null, undefined, empty string), is an object or is a string
+  with `:`, `*` or white spaces, then the permission can't be resolved.
+*/
+export const compilePermissionTemplate = (
+  permission: string,
+): ResolvePermission | null => {
+  // odd indexes are the placeholders, as the split separator is captured
+  const parts = permission.split(placeholderSplitRegExp);
+  const literals = parts.filter((_, index) => index % 2 === 0);
+  if (literals.some(part => part.includes('{') || part.includes('}'))) {
+    throw new RangeError(
+      `Invalid permission template "${permission}": unbalanced braces`,
+    );
+  }
+  if (parts.length === 1) return null;
+  const getValues = parts
+    .filter((_, index) => index % 2 === 1)
+    .map(placeholder => createGetPlaceholderValue(permission, placeholder));
+  return (source: unknown, args: unknown): string | null => {
+    const values = getValues.map(getValue => getValue(source, args));
+    if (!values.every(isInterpolable)) return null;
+    return literals.reduce(
+      (resolved, literal, index) =>
+        `${resolved}${String(values[index - 1])}${literal}`,
+    );
+  };
+};
+
+export type ResolvedPermissions = {
+  resolved: string[];
+  // the templates that could not be resolved, they are always missing
+  unresolved: string[];
+};
+
+export type ResolvePermissions = (
+  source: unknown,
+  args: unknown,
+) => ResolvedPermissions;
+
+// returns null if no permission has placeholders
+export const compilePermissionsTemplates = (
+  permissions: string[],
+): ResolvePermissions | null => {
+  const templates = permissions.map(compilePermissionTemplate);
+  if (templates.every(template => template === null)) return null;
+  return (source: unknown, args: unknown): ResolvedPermissions => {
+    const resolved: string[] = [];
+    const unresolved: string[] = [];
+    permissions.forEach((permission, index) => {
+      const template = templates[index];
+      const resolvedPermission = template ? template(source, args) : permission;
+      if (resolvedPermission === null) unresolved.push(permission);
+      else resolved.push(resolvedPermission);
+    });
+    return { resolved, unresolved };
+  };
+};
@@ -0,0 +1,272 @@
+import type { GraphQLResolveInfo } from 'graphql';
+import { graphql, GraphQLError } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { gql } from 'graphql-tag';
+
+import print from './utils/printer.js';
+import type { FailedPoliciesResolverInfo, PolicyFunction } from './policy.js';
+import {
+  debugGetErrorMessage,
+  PolicyDirectiveVisitorNonTyped,
+  prodGetErrorMessage,
+} from './policy.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+
+describe('@policy()', (): void => {
+  const name = 'policy';
+  const directiveTypeDefs = PolicyDirectiveVisitorNonTyped.getTypeDefs(name);
+
+  type Post = { authorId: string; published: boolean; title: string };
+
+  const policies: Record<string, PolicyFunction> = {
+    canEditPost: (source: unknown, _: unknown, context: unknown): boolean =>
+      (source as Post).authorId === (context as { userId: string }).userId,
+    canReadPost: async (source: unknown): Promise<boolean> =>
+      (source as Post).published,
+    isSafeQuery: (
+      _: unknown,
+      args: unknown,
+      __: unknown,
+      info: GraphQLResolveInfo,
+    ): boolean =>
+      info.fieldName === 'search' && (args as { limit: number }).limit <= 10,
+  };
+
+  const createContext = (
+    userId: string,
+  ): ReturnType<
+    typeof PolicyDirectiveVisitorNonTyped.createDirectiveContext
+  > & {
+    userId: string;
+  } => ({
+    ...PolicyDirectiveVisitorNonTyped.createDirectiveContext({ policies }),
+    userId,
+  });
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""ensures the named policy allows the access before calling the resolver"""
+directive @${name}(
+  """The name of the policy function given to createDirectiveContext()"""
+  name: String!
+  """How to handle failed policies"""
+  policy: PolicyDirectivePolicy = THROW
+) on FIELD_DEFINITION | OBJECT
+`,
+      `\
+enum PolicyDirectivePolicy {
+  """
+  Field resolver is responsible to evaluate it using \`failedPolicies\` injected argument
+  """
+  RESOLVER
+  """
+  Field resolver is not called if the policy fails, it throws \`ForbiddenError\`
+  """
+  THROW
+}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      PolicyDirectiveVisitorNonTyped.getTypeDefs().map(print),
+    );
+  });
+
+  describe('getErrorMessage', (): void => {
+    it('debugGetErrorMessage() is verbose', (): void => {
+      expect(debugGetErrorMessage(['canEditPost'])).toBe(
+        'Failed Policies: canEditPost',
+      );
+    });
+    it('prodGetErrorMessage() is terse', (): void => {
+      expect(prodGetErrorMessage()).toBe('Failed Policies');
+    });
+  });
+
+  describe('createDirectiveContext()', (): void => {
+    it('calls the policy function with the resolver arguments', (): void => {
+      const policy = jest.fn((): boolean => true);
+      const ctx = PolicyDirectiveVisitorNonTyped.createDirectiveContext({
+        policies: { policy },
+      });
+      expect(
+        ctx.checkPolicy('policy', 1, { a: 2 }, ctx, {} as GraphQLResolveInfo),
+      ).toBe(true);
+      expect(policy).toHaveBeenCalledWith(1, { a: 2 }, ctx, {});
+    });
+
+    it('throws if the policy is unknown', (): void => {
+      const ctx = PolicyDirectiveVisitorNonTyped.createDirectiveContext({
+        policies,
+      });
+      expect(() =>
+        ctx.checkPolicy('toString', {}, {}, {}, {} as GraphQLResolveInfo),
+      ).toThrow(new Error('Unknown policy: toString'));
+    });
+  });
+
+  describe('works on type object field', (): void => {
+    const schema = new PolicyDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Post: {
+            failedPolicies: (
+              _: unknown,
+              __: unknown,
+              ___: unknown,
+              { failedPolicies }: FailedPoliciesResolverInfo,
+            ): string[] | null => failedPolicies || null,
+          },
+          Query: {
+            search: (): string[] => ['result'],
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Post @${name}(name: "canReadPost", policy: RESOLVER) {
+              title: String
+              editLink: String @${name}(name: "canEditPost")
+              failedPolicies: [String!]
+                @${name}(name: "canEditPost", policy: RESOLVER)
+            }
+            type Query {
+              posts: [Post]
+              search(limit: Int!): [String!] @${name}(name: "isSafeQuery")
+            }
+          `,
+        ],
+      }),
+    );
+    const rootValue = {
+      posts: [
+        {
+          authorId: '1',
+          editLink: '/posts/1/edit',
+          published: true,
+          title: 'published',
+        },
+        {
+          authorId: '2',
+          editLink: '/posts/2/edit',
+          published: false,
+          title: 'draft',
+        },
+      ],
+    };
+
+    it('applies the policies to each object', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: createContext('1'),
+          rootValue,
+          schema,
+          source: '{ posts { title editLink failedPolicies } }',
+        }),
+      ).toEqual({
+        data: {
+          posts: [
+            {
+              editLink: '/posts/1/edit',
+              failedPolicies: null,
+              title: 'published',
+            },
+            {
+              editLink: null,
+              failedPolicies: ['canReadPost', 'canEditPost'],
+              title: 'draft',
+            },
+          ],
+        },
+        errors: [new ForbiddenError('Failed Policies: canEditPost')],
+      });
+    });
+
+    it('extends failedPolicies of the object', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: createContext('2'),
+          rootValue,
+          schema,
+          source: '{ posts { failedPolicies } }',
+        }),
+      ).toEqual({
+        data: {
+          posts: [
+            { failedPolicies: ['canEditPost'] },
+            { failedPolicies: ['canReadPost'] },
+          ],
+        },
+      });
+    });
+
+    it('policies receive the arguments and info', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: createContext('1'),
+          schema,
+          source: '{ a: search(limit: 10) b: search(limit: 11) }',
+        }),
+      ).toEqual({
+        data: { a: ['result'], b: null },
+        errors: [new ForbiddenError('Failed Policies: isSafeQuery')],
+      });
+    });
+
+    it('fails if the policy is unknown', async (): Promise<void> => {
+      expect(
+        await graphql({
+          contextValue: PolicyDirectiveVisitorNonTyped.createDirectiveContext({
+            policies: {},
+          }),
+          schema,
+          source: '{ search(limit: 1) }',
+        }),
+      ).toEqual({
+        data: { search: null },
+        errors: [new GraphQLError('Unknown policy: isSafeQuery')],
+      });
+    });
+  });
+
+  it('throws if failedPolicies argument type is wrong', async (): Promise<void> => {
+    const schema = new PolicyDirectiveVisitorNonTyped().applyToSchema(
+      makeExecutableSchema({
+        typeDefs: [
+          ...directiveTypeDefs,
+          gql`
+            type Query {
+              test: Boolean @${name}(name: "broken", policy: RESOLVER)
+            }
+          `,
+        ],
+      }),
+    );
+    const result = await graphql({
+      contextValue: PolicyDirectiveVisitorNonTyped.createDirectiveContext({
+        policies: {
+          broken: (
+            _: unknown,
+            __: unknown,
+            ___: unknown,
+            info: GraphQLResolveInfo & { failedPolicies?: unknown },
+          ): boolean => {
+            // eslint-disable-next-line no-param-reassign
+            info.failedPolicies = 'This should be an array!';
+            return true;
+          },
+        },
+      }),
+      rootValue: { test: true },
+      schema,
+      source: '{ test }',
+    });
+    expect(result).toEqual({
+      data: { test: null },
+      errors: [new GraphQLError('The failedPolicies field is not an array!')],
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import type {
+  GraphQLFieldResolver,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+  GraphQLDirective,
+} from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLEnumType,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import EasyDirectiveVisitor from './EasyDirectiveVisitor.js';
+import ForbiddenError from './errors/ForbiddenError.js';
+
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import ValidateDirectiveVisitor, {
+  ValidateDirectivePolicy,
+} from './ValidateDirectiveVisitor.js';
+
+const isDebug = !!(
+  process &&
+  process.env &&
+  process.env.NODE_ENV !== 'production'
+);
+
+type ResolverArgs<TContext extends object = object> = Parameters<
+  GraphQLFieldResolver<unknown, TContext>
+>;
+
+export interface FailedPoliciesResolverInfo extends GraphQLResolveInfo {
+  failedPolicies?: string[];
+}
+
+// receives the resolver arguments: source, args, context and info
+export type PolicyFunction<TContext extends object = object> = (
+  ...args: ResolverArgs<TContext>
+) => boolean | Promise<boolean>;
+
+export type CheckPolicy<TContext extends object = object> = (
+  name: string,
+  ...args: ResolverArgs<TContext>
+) => boolean | Promise<boolean>;
+
+export type PolicyContext<TContext extends object = object> = {
+  checkPolicy: CheckPolicy<TContext>;
+};
+
+export type GetErrorMessage = (failedPolicies: string[]) => string;
+
+const errorMessage = 'Failed Policies';
+
+export const debugGetErrorMessage = (failedPolicies: string[]): string =>
+  `${errorMessage}: ${failedPolicies.join(', ')}`;
+
+export const prodGetErrorMessage = (): string => errorMessage;
+
+export type PolicyDirectiveArgs = {
+  name: string;
+  policy: ValidateDirectivePolicy;
+};
+
+const defaultPolicyOutsideClass: ValidateDirectivePolicy =
+  ValidateDirectivePolicy.THROW;
+
+export class PolicyDirectiveVisitor<
+  TArgs extends PolicyDirectiveArgs,
+  TContext extends PolicyContext,
+> extends ValidateDirectiveVisitor<TArgs, TContext> {
+  public static readonly defaultName: string = 'policy';
+
+  public static readonly defaultPolicy: ValidateDirectivePolicy =
+    defaultPolicyOutsideClass;
+
+  public readonly applyValidationToOutputTypesAfterOriginalResolver: Boolean =
+    false;
+
+  public static readonly config: (typeof ValidateDirectiveVisitor)['config'] = {
+    args: {
+      name: {
+        description:
+          'The name of the policy function given to createDirectiveContext()',
+        type: new GraphQLNonNull(GraphQLString),
+      },
+      policy: {
+        defaultValue: defaultPolicyOutsideClass,
+        description: 'How to handle failed policies',
+        type: new GraphQLEnumType({
+          name: 'PolicyDirectivePolicy',
+          values: {
+            RESOLVER: {
+              description:
+                'Field resolver is responsible to evaluate it using `failedPolicies` injected argument',
+              value: ValidateDirectivePolicy.RESOLVER,
+            },
+            THROW: {
+              description:
+                'Field resolver is not called if the policy fails, it throws `ForbiddenError`',
+              value: ValidateDirectivePolicy.THROW,
+            },
+          },
+        }),
+      },
+    },
+    description:
+      'ensures the named policy allows the access before calling the resolver',
+    locations: [DirectiveLocation.FIELD_DEFINITION, DirectiveLocation.OBJECT],
+  };
+
+  public static getDirectiveDeclaration(
+    givenDirectiveName?: string,
+    schema?: GraphQLSchema,
+  ): GraphQLDirective {
+    return EasyDirectiveVisitor.getDirectiveDeclaration.apply(this, [
+      givenDirectiveName,
+      schema,
+    ]);
+  }
+
+  public static createDirectiveContext({
+    policies,
+  }: {
+    policies: Record<string, PolicyFunction>;
+  }): PolicyContext {
+    const policiesByName = new Map(Object.entries(policies));
+    const checkPolicy = (
+      name: string,
+      ...args: ResolverArgs
+    ): boolean | Promise<boolean> => {
+      const policyFunction = policiesByName.get(name);
+      if (!policyFunction) {
+        throw new Error(`Unknown policy: ${name}`);
+      }
+      return policyFunction(...args);
+    };
+    return { checkPolicy };
+  }
+
+  /* istanbul ignore next */
+  public getErrorMessage: GetErrorMessage = isDebug
+    ? debugGetErrorMessage
+    : prodGetErrorMessage;
+
+  public getValidationForArgs(): ValidateFunction<TContext> {
+    const { name, policy } = this.args;
+
+    const policyValidateFunction: ValidateFunction<TContext> = async (
+      value: unknown,
+      _: unknown,
+      __: unknown,
+      context: TContext,
+      resolverInfo: Record<string, unknown>,
+      resolverSource: unknown,
+      resolverArgs: Record<string, unknown>,
+    ): Promise<unknown> => {
+      const allowed = await context.checkPolicy.apply(this, [
+        name,
+        resolverSource,
+        resolverArgs,
+        context,
+        resolverInfo as unknown as GraphQLResolveInfo,
+      ]);
+      let failedPolicies = allowed ? null : [name];
+
+      if (policy === ValidateDirectivePolicy.THROW && failedPolicies) {
+        throw new ForbiddenError(this.getErrorMessage(failedPolicies));
+      }
+
+      // extends the failed policies of other policy executed before it
+      const existingFailedPolicies = resolverInfo.failedPolicies;
+      if (existingFailedPolicies) {
+        if (!Array.isArray(existingFailedPolicies)) {
+          throw new Error('The failedPolicies field is not an array!');
+        }
+        failedPolicies = failedPolicies
+          ? failedPolicies.concat(existingFailedPolicies)
+          : existingFailedPolicies;
+      }
+      // eslint-disable-next-line no-param-reassign
+      resolverInfo.failedPolicies = failedPolicies;
+
+      return value;
+    };
+
+    return policyValidateFunction;
+  }
+}
+
+export default PolicyDirectiveVisitor;
+
+/*
+  graphql-tools changed the typing for SchemaDirectiveVisitor and if you define a type for TArgs and TContext,
+  you'll get this error: "Type 'typeof Your_Directive_Class' is not assignable to type 'typeof SchemaDirectiveVisitor'.".
+  If you are using the old graphql-tools, you can use:
+  extends EasyDirectiveVisitor<Record<string, never>, TContext>
+*/
+export const PolicyDirectiveVisitorNonTyped: typeof PolicyDirectiveVisitor<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  any
+> = PolicyDirectiveVisitor;
@@ -0,0 +1,156 @@
+import type { GraphQLInputObjectType, GraphQLObjectType } from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import type {
+  ValidatedArgumentsGraphQLField,
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import {
+  addFieldArgumentsValidation,
+  addInputObjectValidation,
+} from './ValidateDirectiveVisitor.js';
+import { ConcreteValidateDirectiveVisitor } from './createValidateDirectiveVisitor.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
+import ValidationError from './errors/ValidationError.js';
+import isPresent from './utils/isPresent.js';
+
+export type PresentFieldsDirectiveArgs = {
+  fields?: string[] | null;
+} & ValidationDirectiveArgs;
+
+export type PresentFieldsDirectiveOptions = {
+  defaultName: string;
+  description: string;
+  // used in the error message, ie: "exactly one of"
+  quantifier: string;
+  min: number;
+  max: number;
+};
+
+/*
+  Creates a directive checking how many of the given input object fields
+  or field arguments are present (not null nor undefined).
+
+  If there are more than `max`, the error is reported with the path
+  of the first field exceeding it. If there are less than `min`, then
+  the error is reported with the path of the object (or field).
+*/
+const createPresentFieldsDirective = ({
+  defaultName,
+  description,
+  quantifier,
+  min,
+  max,
+}: PresentFieldsDirectiveOptions): typeof ConcreteValidateDirectiveVisitor => {
+  const createValidate = (
+    names: readonly string[],
+    args: PresentFieldsDirectiveArgs,
+  ): ValidateFunction => {
+    const errorMessage = `${quantifier} ${names.join(', ')} must be provided`;
+    const validate = (value: unknown): unknown => {
+      const obj = value as Record<string, unknown>;
+      const present = names.filter(name => isPresent(obj[name]));
+      if (present.length > max) {
+        throw new InputFieldValidationError(errorMessage, present[max]);
+      }
+      if (present.length < min) {
+        throw new ValidationError(errorMessage);
+      }
+      return value;
+    };
+    Object.defineProperty(validate, 'validateProperties', {
+      value: { args, directive: defaultName },
+      writable: false,
+    });
+    return validate;
+  };
+
+  const getNames = (
+    containerName: string,
+    available: readonly string[],
+    fields: string[] | null | undefined,
+  ): readonly string[] => {
+    if (!fields) return available;
+    fields.forEach(name => {
+      if (!available.includes(name)) {
+        throw new RangeError(
+          `@${defaultName}(fields) must only contain fields of ${containerName}, got: ${name}`,
+        );
+      }
+    });
+    return fields;
+  };
+
+  class PresentFieldsDirective extends ConcreteValidateDirectiveVisitor {
+    public visitInputObject(object: GraphQLInputObjectType): void {
+      const args = this.args as PresentFieldsDirectiveArgs;
+      const { fields, policy } = args;
+      const names = getNames(
+        object.name,
+        Object.keys(object.getFields()),
+        fields,
+      );
+      addInputObjectValidation(object, createValidate(names, args), policy);
+    }
+
+    public visitFieldArguments(
+      field: ValidatedArgumentsGraphQLField,
+      { objectType }: { objectType: GraphQLObjectType },
+    ): void {
+      const args = this.args as PresentFieldsDirectiveArgs;
+      const { fields, policy } = args;
+      const names = getNames(
+        `${objectType.name}.${field.name}`,
+        field.args.map(({ name }) => name),
+        fields,
+      );
+      addFieldArgumentsValidation(
+        field,
+        createValidate(names, args),
+        (this.constructor as typeof ConcreteValidateDirectiveVisitor)
+          .validationErrorsArgumentName,
+        policy,
+      );
+    }
+
+    // the arguments are handled by visitFieldArguments(),
+    // there is nothing to do with the field output
+    // eslint-disable-next-line class-methods-use-this
+    public visitFieldDefinition(): void {}
+
+    public static readonly config: (typeof ConcreteValidateDirectiveVisitor)['config'] =
+      {
+        args: {
+          fields: {
+            description:
+              'The fields (or arguments) to check. If null, all of them are checked',
+            type: new GraphQLList(new GraphQLNonNull(GraphQLString)),
+          },
+        },
+        description,
+        locations: [
+          DirectiveLocation.FIELD_DEFINITION,
+          DirectiveLocation.INPUT_OBJECT,
+        ],
+      };
+
+    public static readonly defaultName: string = defaultName;
+  }
+
+  Object.defineProperty(PresentFieldsDirective, 'name', {
+    value: `${
+      defaultName[0].toUpperCase() + defaultName.slice(1)
+    }DirectiveVisitor`,
+    writable: false,
+  });
+
+  return PresentFieldsDirective;
+};
+
+export default createPresentFieldsDirective;
@@ -0,0 +1,38 @@
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { gql } from 'graphql-tag';
+
+import print from './utils/printer.js';
+
+import PublicDirective from './public.js';
+
+describe('@public()', (): void => {
+  const name = 'public';
+  const directiveTypeDefs = PublicDirective.getTypeDefs(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""allows anonymous access when @auth is on the schema"""
+directive @${name} on FIELD_DEFINITION
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs).toEqual(PublicDirective.getTypeDefs());
+  });
+
+  it('does not change the schema by itself', (): void => {
+    const schema = makeExecutableSchema({
+      typeDefs: [
+        ...directiveTypeDefs,
+        gql`
+          type Query {
+            version: String @${name}
+          }
+        `,
+      ],
+    });
+    expect(new PublicDirective().applyToSchema(schema)).toBe(schema);
+  });
+});
@@ -0,0 +1,29 @@
+import type { GraphQLSchema } from 'graphql';
+import { DirectiveLocation } from 'graphql';
+
+import EasyDirectiveVisitor from './EasyDirectiveVisitor.js';
+
+/*
+  Marks the Query, Mutation and Subscription fields that do not require
+  authentication when `@auth` is applied to the whole schema
+  (deny-by-default). It does nothing by itself, `@auth` reads it.
+*/
+class PublicDirectiveVisitor extends EasyDirectiveVisitor<
+  Record<string, never>,
+  object,
+  DirectiveLocation.FIELD_DEFINITION
+> {
+  public static readonly config: (typeof EasyDirectiveVisitor)['config'] = {
+    description: 'allows anonymous access when @auth is on the schema',
+    locations: [DirectiveLocation.FIELD_DEFINITION],
+  };
+
+  public static readonly defaultName: string = 'public';
+
+  // eslint-disable-next-line class-methods-use-this
+  public applyToSchema(schema: GraphQLSchema): GraphQLSchema {
+    return schema;
+  }
+}
+
+export default PublicDirectiveVisitor;
@@ -17,6 +17,7 @@ import ValidationError from './errors/ValidationError.js';
 
 type RootValue = {
   arrayTest?: (number | null)[] | null;
+  floatTest?: number | null;
   test?: number | null;
 };
 
@@ -33,6 +34,7 @@ const createSchema = ({
                 type Query {
                   test: Int @${name}${directiveArgs}
                   arrayTest: [Int] @${name}${directiveArgs}
+                  floatTest: Float @${name}${directiveArgs}
                 }
               `,
       ],
@@ -54,6 +56,16 @@ testEasyDirective({
   DirectiveVisitor: Range,
   expectedArgsTypeDefs: `\
 (
+  """
+  The maximum value (exclusive) to allow. If null, no upper limit is applied
+  """
+  exclusiveMax: Float = null
+  """
+  The minimum value (exclusive) to allow. If null, no lower limit is applied
+  """
+  exclusiveMin: Float = null
+  """If true, only integers are allowed (no fractional part)"""
+  integer: Boolean! = false
   """
   The maximum value (inclusive) to allow. If null, no upper limit is applied
   """
@@ -62,6 +74,10 @@ testEasyDirective({
   The minimum value (inclusive) to allow. If null, no lower limit is applied
   """
   min: Float = null
+  """
+  The value must be a multiple of this number (greater than 0). If null, any value is allowed
+  """
+  multipleOf: Float = null
   ${validationDirectivePolicyArgs(capitalize(name))}
 )`,
   name,
@@ -130,6 +146,152 @@ testEasyDirective({
       directiveArgs: '(min: 100, max: 0)',
       error: new RangeError('@range(max) must be at least equal to min'),
     },
+    {
+      directiveArgs: '(exclusiveMin: 0, exclusiveMax: 100)',
+      operation: '{ floatTest }',
+      tests: [
+        { rootValue: { floatTest: 0.5 } },
+        { rootValue: { floatTest: 99.5 } },
+        {
+          expected: expectedValidationError(
+            'Less than or equal to 0',
+            'floatTest',
+          ),
+          rootValue: { floatTest: 0 },
+        },
+        {
+          expected: expectedValidationError(
+            'More than or equal to 100',
+            'floatTest',
+          ),
+          rootValue: { floatTest: 100 },
+        },
+        { rootValue: { floatTest: null } },
+      ],
+    },
+    {
+      // the most restrictive bound is checked at build time
+      directiveArgs: '(min: 10, exclusiveMin: 0, max: 20, exclusiveMax: 20)',
+      operation: '{ floatTest }',
+      tests: [
+        { rootValue: { floatTest: 10 } },
+        { rootValue: { floatTest: 19.9 } },
+        {
+          expected: expectedValidationError('Less than 10', 'floatTest'),
+          rootValue: { floatTest: 5 },
+        },
+        {
+          expected: expectedValidationError(
+            'More than or equal to 20',
+            'floatTest',
+          ),
+          rootValue: { floatTest: 20 },
+        },
+      ],
+    },
+    {
+      directiveArgs: '(integer: true)',
+      operation: '{ floatTest }',
+      tests: [
+        { rootValue: { floatTest: 1 } },
+        { rootValue: { floatTest: -1e20 } },
+        {
+          expected: expectedValidationError('Not an integer', 'floatTest'),
+          rootValue: { floatTest: 1.5 },
+        },
+      ],
+    },
+    {
+      directiveArgs: '(multipleOf: 0.1)',
+      operation: '{ floatTest }',
+      tests: [
+        { rootValue: { floatTest: 0 } },
+        { rootValue: { floatTest: 0.3 } },
+        { rootValue: { floatTest: 0.7 } },
+        { rootValue: { floatTest: 1.1 } },
+        { rootValue: { floatTest: -4.2 } },
+        { rootValue: { floatTest: 12345.6 } },
+        {
+          expected: expectedValidationError(
+            'Not a multiple of 0.1',
+            'floatTest',
+          ),
+          rootValue: { floatTest: 0.35 },
+        },
+        {
+          expected: expectedValidationError(
+            'Not a multiple of 0.1',
+            'floatTest',
+          ),
+          rootValue: { floatTest: 0.3000001 },
+        },
+      ],
+    },
+    {
+      directiveArgs: '(multipleOf: 5, min: 0, max: 20, integer: true)',
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: 15 } },
+        {
+          expected: expectedValidationError('Not a multiple of 5'),
+          rootValue: { test: 12 },
+        },
+      ],
+    },
+    {
+      // bounds that are multiples of multipleOf are allowed, even with floats
+      directiveArgs: '(multipleOf: 0.1, min: 0.3, max: 0.3)',
+      operation: '{ floatTest }',
+      tests: [{ rootValue: { floatTest: 0.3 } }],
+    },
+    {
+      directiveArgs: '(multipleOf: 0)',
+      error: new RangeError('@range(multipleOf) must be greater than 0'),
+    },
+    {
+      directiveArgs: '(multipleOf: -1)',
+      error: new RangeError('@range(multipleOf) must be greater than 0'),
+    },
+    {
+      directiveArgs: '(exclusiveMin: 100, max: 0)',
+      error: new RangeError(
+        '@range(max) must be at least equal to exclusiveMin',
+      ),
+    },
+    {
+      directiveArgs: '(min: 10, exclusiveMax: 10)',
+      error: new RangeError('@range(exclusiveMax) must be greater than min'),
+    },
+    {
+      directiveArgs: '(exclusiveMin: 10, exclusiveMax: 10)',
+      error: new RangeError(
+        '@range(exclusiveMax) must be greater than exclusiveMin',
+      ),
+    },
+    {
+      directiveArgs: '(min: 0.2, max: 0.8, integer: true)',
+      error: new RangeError(
+        '@range(integer) allows no value between min and max',
+      ),
+    },
+    {
+      directiveArgs: '(exclusiveMin: 0, exclusiveMax: 1, integer: true)',
+      error: new RangeError(
+        '@range(integer) allows no value between exclusiveMin and exclusiveMax',
+      ),
+    },
+    {
+      directiveArgs: '(min: 0.3, max: 0.45, multipleOf: 0.25)',
+      error: new RangeError(
+        '@range(multipleOf) allows no value between min and max',
+      ),
+    },
+    {
+      directiveArgs:
+        '(exclusiveMin: 0.5, max: 1, multipleOf: 0.5, integer: true)',
+      operation: '{ floatTest }',
+      tests: [{ rootValue: { floatTest: 1 } }],
+    },
     {
       // arrays should work the same, just repeat for min+max
       directiveArgs: '(min: 0, max: 100)',
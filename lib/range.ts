@@ -1,4 +1,4 @@
-import { GraphQLFloat } from 'graphql';
+import { GraphQLBoolean, GraphQLFloat, GraphQLNonNull } from 'graphql';
 
 import type {
   ValidateFunction,
@@ -7,54 +7,184 @@ import type {
 import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
 import ValidationError from './errors/ValidationError.js';
 
-const createValidateMinMax = (min: number, max: number): ValidateFunction => {
-  if (max < min)
-    throw new RangeError('@range(max) must be at least equal to min');
-  const errorMessageMin = `Less than ${min}`;
-  const errorMessageMax = `More than ${max}`;
-  return (value: unknown): unknown => {
-    if (typeof value === 'number') {
-      if (value < min) throw new ValidationError(errorMessageMin);
-      if (value > max) throw new ValidationError(errorMessageMax);
-    }
-    return value;
-  };
-};
+type NumberCheck = (value: number) => void;
 
-const createValidateMin = (min: number): ValidateFunction => {
+const createCheckMin = (min: number): NumberCheck => {
   const errorMessage = `Less than ${min}`;
-  return (value: unknown): unknown => {
-    if (typeof value === 'number') {
-      if (value < min) throw new ValidationError(errorMessage);
-    }
-    return value;
+  return (value: number): void => {
+    if (value < min) throw new ValidationError(errorMessage);
   };
 };
 
-const createValidateMax = (max: number): ValidateFunction => {
+const createCheckMax = (max: number): NumberCheck => {
   const errorMessage = `More than ${max}`;
-  return (value: unknown): unknown => {
-    if (typeof value === 'number') {
-      if (value > max) throw new ValidationError(errorMessage);
+  return (value: number): void => {
+    if (value > max) throw new ValidationError(errorMessage);
+  };
+};
+
+const createCheckExclusiveMin = (exclusiveMin: number): NumberCheck => {
+  const errorMessage = `Less than or equal to ${exclusiveMin}`;
+  return (value: number): void => {
+    if (value <= exclusiveMin) throw new ValidationError(errorMessage);
+  };
+};
+
+const createCheckExclusiveMax = (exclusiveMax: number): NumberCheck => {
+  const errorMessage = `More than or equal to ${exclusiveMax}`;
+  return (value: number): void => {
+    if (value >= exclusiveMax) throw new ValidationError(errorMessage);
+  };
+};
+
+const checkInteger: NumberCheck = (value: number): void => {
+  if (!Number.isInteger(value)) throw new ValidationError('Not an integer');
+};
+
+// Binary floating point can't represent most decimal fractions, ie:
+// 0.3 / 0.1 = 2.9999999999999996, then the quotient is accepted if it's
+// within a few units in the last place (relative to its magnitude)
+// of an integer.
+const multipleOfTolerance = 4 * Number.EPSILON;
+
+const isMultipleOf = (value: number, multipleOf: number): boolean => {
+  const quotient = value / multipleOf;
+  return (
+    Math.abs(quotient - Math.round(quotient)) <=
+    Math.abs(quotient) * multipleOfTolerance
+  );
+};
+
+const createCheckMultipleOf = (multipleOf: number): NumberCheck => {
+  const errorMessage = `Not a multiple of ${multipleOf}`;
+  return (value: number): void => {
+    if (!isMultipleOf(value, multipleOf)) {
+      throw new ValidationError(errorMessage);
     }
-    return value;
   };
 };
 
+type Bound = { value: number; exclusive: boolean; name: string };
+
+// the most restrictive of the inclusive and exclusive bounds
+const getBound = (
+  inclusive: number | null,
+  inclusiveName: string,
+  exclusive: number | null,
+  exclusiveName: string,
+  isMoreRestrictive: (a: number, b: number) => boolean,
+): Bound | null => {
+  if (exclusive === null) {
+    return inclusive === null
+      ? null
+      : { exclusive: false, name: inclusiveName, value: inclusive };
+  }
+  if (inclusive !== null && isMoreRestrictive(inclusive, exclusive)) {
+    return { exclusive: false, name: inclusiveName, value: inclusive };
+  }
+  return { exclusive: true, name: exclusiveName, value: exclusive };
+};
+
+const checkBoundsAllowValues = (lower: Bound, upper: Bound): void => {
+  if (upper.value < lower.value) {
+    throw new RangeError(
+      `@range(${upper.name}) must be at least equal to ${lower.name}`,
+    );
+  }
+  if (upper.value === lower.value && (upper.exclusive || lower.exclusive)) {
+    throw new RangeError(
+      `@range(${upper.name}) must be greater than ${lower.name}`,
+    );
+  }
+};
+
+// the index of the first (or last) multiple of step within the bound
+const getBoundStepIndex = (
+  { value, exclusive }: Bound,
+  step: number,
+  roundInwards: (x: number) => number,
+  inwards: number,
+): number => {
+  if (!isMultipleOf(value, step)) return roundInwards(value / step);
+  const index = Math.round(value / step);
+  return exclusive ? index + inwards : index;
+};
+
+// ensures there is at least one multiple of step within the bounds
+const checkStepAllowsValues = (
+  lower: Bound,
+  upper: Bound,
+  step: number,
+  stepName: string,
+): void => {
+  const first = getBoundStepIndex(lower, step, Math.ceil, 1);
+  const last = getBoundStepIndex(upper, step, Math.floor, -1);
+  if (first > last) {
+    throw new RangeError(
+      `@range(${stepName}) allows no value between ${lower.name} and ${upper.name}`,
+    );
+  }
+};
+
 type RangeDirectiveArgs = {
   min: number | null;
   max: number | null;
+  exclusiveMin: number | null;
+  exclusiveMax: number | null;
+  multipleOf: number | null;
+  integer: boolean;
 } & ValidationDirectiveArgs;
 
 // istanbul ignore next (args set by default to null)
 const createValidate = ({
   min = null,
   max = null,
+  exclusiveMin = null,
+  exclusiveMax = null,
+  multipleOf = null,
+  integer = false,
 }: RangeDirectiveArgs): ValidateFunction | undefined => {
-  if (min !== null && max !== null) return createValidateMinMax(min, max);
-  if (min !== null) return createValidateMin(min);
-  if (max !== null) return createValidateMax(max);
-  return undefined;
+  if (multipleOf !== null && multipleOf <= 0) {
+    throw new RangeError('@range(multipleOf) must be greater than 0');
+  }
+
+  const lower = getBound(
+    min,
+    'min',
+    exclusiveMin,
+    'exclusiveMin',
+    (a, b) => a > b,
+  );
+  const upper = getBound(
+    max,
+    'max',
+    exclusiveMax,
+    'exclusiveMax',
+    (a, b) => a < b,
+  );
+  if (lower && upper) {
+    checkBoundsAllowValues(lower, upper);
+    if (integer) checkStepAllowsValues(lower, upper, 1, 'integer');
+    if (multipleOf !== null) {
+      checkStepAllowsValues(lower, upper, multipleOf, 'multipleOf');
+    }
+  }
+
+  const checks: NumberCheck[] = [];
+  if (integer) checks.push(checkInteger);
+  if (min !== null) checks.push(createCheckMin(min));
+  if (exclusiveMin !== null) checks.push(createCheckExclusiveMin(exclusiveMin));
+  if (max !== null) checks.push(createCheckMax(max));
+  if (exclusiveMax !== null) checks.push(createCheckExclusiveMax(exclusiveMax));
+  if (multipleOf !== null) checks.push(createCheckMultipleOf(multipleOf));
+  if (checks.length === 0) return undefined;
+
+  return (value: unknown): unknown => {
+    if (typeof value === 'number') {
+      checks.forEach(check => check(value));
+    }
+    return value;
+  };
 };
 
 export default createValidateDirectiveVisitor({
@@ -62,6 +192,23 @@ export default createValidateDirectiveVisitor({
   defaultName: 'range',
   directiveConfig: {
     args: {
+      exclusiveMax: {
+        defaultValue: null,
+        description:
+          'The maximum value (exclusive) to allow. If null, no upper limit is applied',
+        type: GraphQLFloat,
+      },
+      exclusiveMin: {
+        defaultValue: null,
+        description:
+          'The minimum value (exclusive) to allow. If null, no lower limit is applied',
+        type: GraphQLFloat,
+      },
+      integer: {
+        defaultValue: false,
+        description: 'If true, only integers are allowed (no fractional part)',
+        type: new GraphQLNonNull(GraphQLBoolean),
+      },
       max: {
         defaultValue: null,
         description:
@@ -74,6 +221,12 @@ export default createValidateDirectiveVisitor({
           'The minimum value (inclusive) to allow. If null, no lower limit is applied',
         type: GraphQLFloat,
       },
+      multipleOf: {
+        defaultValue: null,
+        description:
+          'The value must be a multiple of this number (greater than 0). If null, any value is allowed',
+        type: GraphQLFloat,
+      },
     },
     description:
       'Ensures value is within boundaries. If used on lists, applies to every item.',
@@ -0,0 +1,202 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import RequiredIf from './requiredIf.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@requiredIf()', (): void => {
+  const name = 'requiredIf';
+  const directiveTypeDefs = RequiredIf.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Ensures the input field is provided (not null) if another field of the input object is provided or has the given value.
+"""
+directive @${name}(
+  """
+  The value (as string) the other field must have to require this one. If null, any provided value requires this one
+  """
+  equals: String = null
+  """The name of the other field of the input object"""
+  field: String!
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on INPUT_FIELD_DEFINITION
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      RequiredIf.getTypeDefs().map(print),
+    );
+  });
+
+  const schema: GraphQLSchema = new RequiredIf().applyToSchema(
+    makeExecutableSchema({
+      resolvers: {
+        Query: {
+          test: (
+            _,
+            { arg },
+            __,
+            { validationErrors }: ValidationErrorsResolverInfo,
+          ): object => ({
+            arg: JSON.stringify(arg),
+            validationErrors,
+          }),
+        },
+      },
+      typeDefs: [
+        ...directiveTypeDefs,
+        ...RequiredIf.getMissingCommonTypeDefs(),
+        gql`
+          enum Country {
+            BR
+            US
+          }
+          input Address {
+            country: Country
+            state: String @${name}(field: "country", equals: "US")
+            zipCode: String @${name}(field: "state")
+            verified: Boolean
+            verifiedAt: String
+              @${name}(field: "verified", equals: "true", policy: THROW)
+          }
+          type Result {
+            arg: String
+            validationErrors: [ValidatedInputErrorOutput!]
+          }
+          type Query {
+            test(arg: Address!): Result
+          }
+        `,
+      ],
+    }),
+  );
+
+  const doTest = async (arg: string): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${arg}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  it('accepts when not required', async (): Promise<void> => {
+    expect(await doTest('{ country: BR }')).toEqual({
+      data: {
+        test: { arg: '{"country":"BR"}', validationErrors: null },
+      },
+    });
+  });
+
+  it('accepts when provided', async (): Promise<void> => {
+    expect(
+      await doTest('{ country: US, state: "CA", zipCode: "90210" }'),
+    ).toEqual({
+      data: {
+        test: {
+          arg: '{"country":"US","state":"CA","zipCode":"90210"}',
+          validationErrors: null,
+        },
+      },
+    });
+  });
+
+  it('rejects when the other field has the value', async (): Promise<void> => {
+    expect(await doTest('{ country: US, state: null }')).toEqual({
+      data: {
+        test: {
+          arg: '{"country":"US","state":null}',
+          validationErrors: [
+            { message: 'Required when country is US', path: ['arg', 'state'] },
+          ],
+        },
+      },
+    });
+  });
+
+  it('rejects when the other field is provided', async (): Promise<void> => {
+    expect(await doTest('{ state: "CA" }')).toEqual({
+      data: {
+        test: {
+          arg: '{"state":"CA","zipCode":null}',
+          validationErrors: [
+            {
+              message: 'Required when state is provided',
+              path: ['arg', 'zipCode'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('compares values as strings', async (): Promise<void> => {
+    expect(await doTest('{ verified: false }')).toEqual({
+      data: {
+        test: { arg: '{"verified":false}', validationErrors: null },
+      },
+    });
+    expect(await doTest('{ verified: true }')).toEqual({
+      data: { test: null },
+      errors: [
+        expect.objectContaining({
+          message: 'Required when verified is true',
+          path: ['test'],
+        }),
+      ],
+    });
+  });
+
+  it('throws if the other field does not exist', (): void => {
+    expect(() =>
+      new RequiredIf().applyToSchema(
+        makeExecutableSchema({
+          typeDefs: [
+            ...directiveTypeDefs,
+            gql`
+              input Address {
+                country: String
+                state: String @${name}(field: "contry")
+              }
+              type Query {
+                test(arg: Address): Int
+              }
+            `,
+          ],
+        }),
+      ),
+    ).toThrow(
+      new RangeError(
+        '@requiredIf(field) must be a field of Address, got: contry',
+      ),
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import type { GraphQLInputField, GraphQLInputObjectType } from 'graphql';
+import { DirectiveLocation, GraphQLNonNull, GraphQLString } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import ValidationError from './errors/ValidationError.js';
+import isPresent from './utils/isPresent.js';
+
+type RequiredIfDirectiveArgs = {
+  field: string;
+  equals: string | null;
+} & ValidationDirectiveArgs;
+
+// istanbul ignore next (args set by default to null)
+const createValidate = ({
+  field,
+  equals = null,
+}: RequiredIfDirectiveArgs): ValidateFunction => {
+  // values are compared as strings, so it works with enums, numbers and booleans
+  const isRequired =
+    equals === null
+      ? isPresent
+      : (other: unknown): boolean => isPresent(other) && `${other}` === equals;
+  const errorMessage =
+    equals === null
+      ? `Required when ${field} is provided`
+      : `Required when ${field} is ${equals}`;
+  return (
+    value: unknown,
+    _type,
+    _container,
+    _context,
+    _info,
+    _source,
+    _args,
+    _path,
+    parent,
+  ): unknown => {
+    if (
+      !isPresent(value) &&
+      isRequired((parent as Record<string, unknown>)[field])
+    ) {
+      throw new ValidationError(errorMessage);
+    }
+    return value;
+  };
+};
+
+const Visitor = createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'requiredIf',
+  directiveConfig: {
+    args: {
+      equals: {
+        defaultValue: null,
+        description:
+          'The value (as string) the other field must have to require this one. If null, any provided value requires this one',
+        type: GraphQLString,
+      },
+      field: {
+        description: 'The name of the other field of the input object',
+        type: new GraphQLNonNull(GraphQLString),
+      },
+    },
+    description:
+      'Ensures the input field is provided (not null) if another field of the input object is provided or has the given value.',
+    locations: [DirectiveLocation.INPUT_FIELD_DEFINITION],
+  },
+  isValidateArrayOrValue: false,
+});
+
+// the other field is checked when the schema is built, as a typo would
+// silently disable the validation
+class RequiredIfDirectiveVisitor extends Visitor {
+  public visitInputFieldDefinition(
+    inputField: GraphQLInputField,
+    { objectType }: { objectType: GraphQLInputObjectType },
+  ): void {
+    const { field } = this.args as RequiredIfDirectiveArgs;
+    if (!objectType.getFields()[field]) {
+      throw new RangeError(
+        `@requiredIf(field) must be a field of ${objectType.name}, got: ${field}`,
+      );
+    }
+    super.visitInputFieldDefinition(inputField, { objectType });
+  }
+}
+
+export default RequiredIfDirectiveVisitor;
@@ -0,0 +1,168 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import RequiredWith from './requiredWith.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@requiredWith()', (): void => {
+  const name = 'requiredWith';
+  const directiveTypeDefs = RequiredWith.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Ensures the input field is provided (not null) if any of the other fields of the input object is provided.
+"""
+directive @${name}(
+  """The names of the other fields of the input object"""
+  fields: [String!]!
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on INPUT_FIELD_DEFINITION
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      RequiredWith.getTypeDefs().map(print),
+    );
+  });
+
+  const schema: GraphQLSchema = new RequiredWith().applyToSchema(
+    makeExecutableSchema({
+      resolvers: {
+        Mutation: {
+          test: (
+            _,
+            { arg },
+            __,
+            { validationErrors }: ValidationErrorsResolverInfo,
+          ): object => ({
+            arg: JSON.stringify(arg),
+            validationErrors,
+          }),
+        },
+      },
+      typeDefs: [
+        ...directiveTypeDefs,
+        ...RequiredWith.getMissingCommonTypeDefs(),
+        gql`
+          input Address {
+            street: String
+            city: String
+            zipCode: String @${name}(fields: ["street", "city"])
+            number: Int @${name}(fields: ["street"])
+            ignored: Int @${name}(fields: [])
+          }
+          type Result {
+            arg: String
+            validationErrors: [ValidatedInputErrorOutput!]
+          }
+          type Query {
+            dummy: Int
+          }
+          type Mutation {
+            test(arg: Address): Result
+          }
+        `,
+      ],
+    }),
+  );
+
+  const doTest = async (arg: string): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        mutation {
+          test(arg: ${arg}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  it('accepts when none of the fields is provided', async (): Promise<void> => {
+    expect(await doTest('{}')).toEqual({
+      data: { test: { arg: '{}', validationErrors: null } },
+    });
+  });
+
+  it('accepts when provided', async (): Promise<void> => {
+    expect(
+      await doTest('{ street: "Main", zipCode: "123", number: 1 }'),
+    ).toEqual({
+      data: {
+        test: {
+          arg: '{"street":"Main","zipCode":"123","number":1}',
+          validationErrors: null,
+        },
+      },
+    });
+  });
+
+  it('rejects when any of the fields is provided', async (): Promise<void> => {
+    expect(await doTest('{ street: "Main" }')).toEqual({
+      data: {
+        test: {
+          arg: '{"street":"Main","zipCode":null,"number":null}',
+          validationErrors: [
+            {
+              message: 'Required when any of street, city is provided',
+              path: ['arg', 'zipCode'],
+            },
+            {
+              message: 'Required when street is provided',
+              path: ['arg', 'number'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('throws if any of the fields does not exist', (): void => {
+    expect(() =>
+      new RequiredWith().applyToSchema(
+        makeExecutableSchema({
+          typeDefs: [
+            ...directiveTypeDefs,
+            gql`
+              input Address {
+                street: String
+                zipCode: String @${name}(fields: ["street", "cty"])
+              }
+              type Query {
+                test(arg: Address): Int
+              }
+            `,
+          ],
+        }),
+      ),
+    ).toThrow(
+      new RangeError(
+        '@requiredWith(fields) must only contain fields of Address, got: cty',
+      ),
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import type { GraphQLInputField, GraphQLInputObjectType } from 'graphql';
+import {
+  DirectiveLocation,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import ValidationError from './errors/ValidationError.js';
+import isPresent from './utils/isPresent.js';
+
+type RequiredWithDirectiveArgs = {
+  fields: string[];
+} & ValidationDirectiveArgs;
+
+const createValidate = ({
+  fields,
+}: RequiredWithDirectiveArgs): ValidateFunction | undefined => {
+  if (fields.length === 0) return undefined;
+  const errorMessage =
+    fields.length === 1
+      ? `Required when ${fields[0]} is provided`
+      : `Required when any of ${fields.join(', ')} is provided`;
+  return (
+    value: unknown,
+    _type,
+    _container,
+    _context,
+    _info,
+    _source,
+    _args,
+    _path,
+    parent,
+  ): unknown => {
+    const siblings = parent as Record<string, unknown>;
+    if (!isPresent(value) && fields.some(name => isPresent(siblings[name]))) {
+      throw new ValidationError(errorMessage);
+    }
+    return value;
+  };
+};
+
+const Visitor = createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'requiredWith',
+  directiveConfig: {
+    args: {
+      fields: {
+        description: 'The names of the other fields of the input object',
+        type: new GraphQLNonNull(
+          new GraphQLList(new GraphQLNonNull(GraphQLString)),
+        ),
+      },
+    },
+    description:
+      'Ensures the input field is provided (not null) if any of the other fields of the input object is provided.',
+    locations: [DirectiveLocation.INPUT_FIELD_DEFINITION],
+  },
+  isValidateArrayOrValue: false,
+});
+
+// the other fields are checked when the schema is built, as a typo
+// would silently disable the validation
+class RequiredWithDirectiveVisitor extends Visitor {
+  public visitInputFieldDefinition(
+    field: GraphQLInputField,
+    { objectType }: { objectType: GraphQLInputObjectType },
+  ): void {
+    const { fields } = this.args as RequiredWithDirectiveArgs;
+    const objectFields = objectType.getFields();
+    fields.forEach(name => {
+      if (!objectFields[name]) {
+        throw new RangeError(
+          `@requiredWith(fields) must only contain fields of ${objectType.name}, got: ${name}`,
+        );
+      }
+    });
+    super.visitInputFieldDefinition(field, { objectType });
+  }
+}
+
+export default RequiredWithDirectiveVisitor;
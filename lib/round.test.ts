@@ -0,0 +1,185 @@
+import type { GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import Round, {
+  createValidate as createRoundDirectiveValidate,
+  DEFAULT_ROUND_MODE,
+  roundDirectiveSchemaEnumName,
+  RoundMode,
+} from './round.js';
+import capitalize from './capitalize.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
+
+describe('@round()', (): void => {
+  const name = 'round';
+  const directiveTypeDefs = Round.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""
+Rounds numbers to the given decimal places. If used on lists, applies to every item.
+"""
+directive @${name}(
+  """The number of decimal places to keep (0 to 15)"""
+  decimals: Int! = 0
+  mode: ${roundDirectiveSchemaEnumName}! = ${DEFAULT_ROUND_MODE}
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+enum ${roundDirectiveSchemaEnumName} {
+  """
+  Rounds to the nearest value, ties away from zero: 2.5 becomes 3 and -2.5 becomes -3
+  """
+  ${RoundMode.HALF_UP}
+  """
+  Rounds to the nearest value, ties to the even neighbor (bankers rounding): 2.5 becomes 2 and 3.5 becomes 4
+  """
+  ${RoundMode.HALF_EVEN}
+  """Rounds towards negative infinity: 2.7 becomes 2 and -2.3 becomes -3"""
+  ${RoundMode.FLOOR}
+  """Rounds towards positive infinity: 2.3 becomes 3 and -2.7 becomes -2"""
+  ${RoundMode.CEIL}
+}
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      Round.getTypeDefs().map(print),
+    );
+  });
+
+  const createSchema = (directiveArgs: string): GraphQLSchema =>
+    new Round().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            input: (_, { arg }): number => arg.amount,
+            list: (_, { arg }): string => JSON.stringify(arg),
+            test: (_, { arg }): number => arg,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...Round.getMissingCommonTypeDefs(),
+          gql`
+            input Price {
+              amount: Float @${name}${directiveArgs}
+            }
+            type Query {
+              test(arg: Float @${name}${directiveArgs}): Float
+              input(arg: Price!): Float
+              list(arg: [Float] @${name}${directiveArgs}): String
+              output: [Float] @${name}${directiveArgs}
+              stringOutput: String @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const round = async (
+    schema: GraphQLSchema,
+    value: number,
+  ): Promise<unknown> => graphql({ schema, source: `{ test(arg: ${value}) }` });
+
+  it.each([-1, 16])('fails if decimals is %d', (decimals): void => {
+    expect(() => createSchema(`(decimals: ${decimals})`)).toThrow(
+      new RangeError(
+        `@round(decimals) must be between 0 and 15, got: ${decimals}`,
+      ),
+    );
+  });
+
+  it.each([
+    ['', 2.5, 3],
+    ['', -2.5, -3],
+    ['', 2.4, 2],
+    ['', -0.1, 0],
+    ['(decimals: 2)', 1.005, 1.01],
+    ['(decimals: 2)', 1.255, 1.26],
+    ['(decimals: 2)', -1.005, -1.01],
+    ['(decimals: 2)', 0.1 + 0.2, 0.3],
+    ['(decimals: 2)', 1234567.891, 1234567.89],
+    ['(decimals: 1)', 1.04999, 1],
+    ['(mode: HALF_EVEN)', 2.5, 2],
+    ['(mode: HALF_EVEN)', 3.5, 4],
+    ['(mode: HALF_EVEN)', -2.5, -2],
+    ['(mode: HALF_EVEN)', 2.6, 3],
+    ['(mode: HALF_EVEN)', 2.4, 2],
+    ['(decimals: 2, mode: HALF_EVEN)', 1.005, 1],
+    ['(decimals: 2, mode: HALF_EVEN)', 1.015, 1.02],
+    ['(mode: FLOOR)', 2.7, 2],
+    ['(mode: FLOOR)', -2.3, -3],
+    ['(decimals: 2, mode: FLOOR)', 0.29, 0.29],
+    ['(decimals: 2, mode: FLOOR)', 1.999, 1.99],
+    ['(mode: CEIL)', 2.3, 3],
+    ['(mode: CEIL)', -2.7, -2],
+    ['(decimals: 2, mode: CEIL)', 0.57, 0.57],
+    ['(decimals: 2, mode: CEIL)', 1.001, 1.01],
+    ['(decimals: 15)', 1e300, 1e300],
+    ['(decimals: 2, mode: FLOOR)', 123456789.987, 123456789.98],
+  ])('%s rounds %d to %d', async (directiveArgs, value, expected) => {
+    expect(await round(createSchema(directiveArgs), value)).toEqual({
+      data: { test: expected },
+    });
+  });
+
+  it('works on input fields', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema: createSchema('(decimals: 2)'),
+        source: '{ input(arg: { amount: 9.999 }) }',
+      }),
+    ).toEqual({ data: { input: 10 } });
+  });
+
+  it('works on lists', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema: createSchema('(decimals: 1)'),
+        source: '{ list(arg: [1.25, null, 2]) }',
+      }),
+    ).toEqual({ data: { list: '[1.3,null,2]' } });
+  });
+
+  it('works on output', async (): Promise<void> => {
+    expect(
+      await graphql({
+        rootValue: { output: [1.25, null, 2], stringOutput: '1.25' },
+        schema: createSchema('(decimals: 1, mode: FLOOR)'),
+        source: '{ output stringOutput }',
+      }),
+    ).toEqual({ data: { output: [1.2, null, 2], stringOutput: '1.25' } });
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "mode" is invalid', (): void => {
+    const invalidMode = 'INVALID_MODE' as RoundMode;
+    expect(() =>
+      createRoundDirectiveValidate({
+        decimals: 0,
+        mode: invalidMode,
+        policy: ValidateDirectivePolicy.RESOLVER,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidMode} is not accepted by this argument`,
+      ),
+    );
+  });
+});
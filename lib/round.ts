@@ -0,0 +1,137 @@
+import { GraphQLEnumType, GraphQLInt, GraphQLNonNull } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import neverAssertion from './utils/neverAssertion.js';
+
+export enum RoundMode {
+  HALF_UP = 'HALF_UP',
+  HALF_EVEN = 'HALF_EVEN',
+  FLOOR = 'FLOOR',
+  CEIL = 'CEIL',
+}
+
+export const DEFAULT_ROUND_MODE = RoundMode.HALF_UP;
+
+export const roundDirectiveSchemaEnumName = 'RoundDirectiveMode';
+
+// doubles have 15 to 17 significant decimal digits
+const maxDecimals = 15;
+
+// integers above this have no fractional part to round
+const maxFractionalValue = 2 ** 52;
+
+// Binary floating point can't represent most decimal fractions, ie:
+// 1.005 * 100 = 100.49999999999999, then values within a few units in
+// the last place (relative to their magnitude) of an integer or a half
+// are snapped to it before rounding.
+const snapTolerance = 4 * Number.EPSILON;
+
+const snapToHalf = (value: number): number => {
+  const half = Math.round(value * 2) / 2;
+  return Math.abs(value - half) <= Math.abs(value) * snapTolerance
+    ? half
+    : value;
+};
+
+type RoundInteger = (value: number) => number;
+
+const roundHalfUp: RoundInteger = (value: number): number =>
+  Math.sign(value) * Math.floor(Math.abs(value) + 0.5);
+
+const roundHalfEven: RoundInteger = (value: number): number => {
+  const floor = Math.floor(value);
+  const diff = value - floor;
+  if (diff < 0.5) return floor;
+  if (diff > 0.5) return floor + 1;
+  return floor % 2 === 0 ? floor : floor + 1;
+};
+
+const getRoundInteger = (mode: RoundMode): RoundInteger => {
+  switch (mode) {
+    case RoundMode.HALF_UP:
+      return roundHalfUp;
+    case RoundMode.HALF_EVEN:
+      return roundHalfEven;
+    case RoundMode.FLOOR:
+      return Math.floor;
+    case RoundMode.CEIL:
+      return Math.ceil;
+    default:
+      return neverAssertion(mode);
+  }
+};
+
+type RoundDirectiveArgs = {
+  decimals: number;
+  mode: RoundMode;
+} & ValidationDirectiveArgs;
+
+export const createValidate = ({
+  decimals,
+  mode,
+}: RoundDirectiveArgs): ValidateFunction => {
+  if (decimals < 0 || decimals > maxDecimals) {
+    throw new RangeError(
+      `@round(decimals) must be between 0 and ${maxDecimals}, got: ${decimals}`,
+    );
+  }
+  const roundInteger = getRoundInteger(mode);
+  const factor = 10 ** decimals;
+  return (value: unknown): unknown => {
+    if (typeof value !== 'number') return value;
+    const scaled = snapToHalf(value * factor);
+    if (Math.abs(scaled) >= maxFractionalValue) return value;
+    // avoids -0, ie: rounding -0.1
+    return roundInteger(scaled) / factor || 0;
+  };
+};
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'round',
+  directiveConfig: {
+    args: {
+      decimals: {
+        defaultValue: 0,
+        description: 'The number of decimal places to keep (0 to 15)',
+        type: new GraphQLNonNull(GraphQLInt),
+      },
+      mode: {
+        defaultValue: DEFAULT_ROUND_MODE,
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({
+            name: roundDirectiveSchemaEnumName,
+            values: {
+              [RoundMode.HALF_UP]: {
+                description:
+                  'Rounds to the nearest value, ties away from zero: 2.5 becomes 3 and -2.5 becomes -3',
+                value: RoundMode.HALF_UP,
+              },
+              [RoundMode.HALF_EVEN]: {
+                description:
+                  'Rounds to the nearest value, ties to the even neighbor (bankers rounding): 2.5 becomes 2 and 3.5 becomes 4',
+                value: RoundMode.HALF_EVEN,
+              },
+              [RoundMode.FLOOR]: {
+                description:
+                  'Rounds towards negative infinity: 2.7 becomes 2 and -2.3 becomes -3',
+                value: RoundMode.FLOOR,
+              },
+              [RoundMode.CEIL]: {
+                description:
+                  'Rounds towards positive infinity: 2.3 becomes 3 and -2.7 becomes -2',
+                value: RoundMode.CEIL,
+              },
+            },
+          }),
+        ),
+      },
+    },
+    description:
+      'Rounds numbers to the given decimal places. If used on lists, applies to every item.',
+  },
+});
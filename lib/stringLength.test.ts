@@ -2,7 +2,12 @@ import type { GraphQLSchema } from 'graphql';
 import { gql } from 'graphql-tag';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 
-import StringLength from './stringLength.js';
+import StringLength, {
+  createValidate as createStringLengthDirectiveValidate,
+  DEFAULT_STRING_LENGTH_UNIT,
+  stringLengthDirectiveSchemaEnumName,
+  StringLengthUnit,
+} from './stringLength.js';
 import capitalize from './capitalize.js';
 
 import type {
@@ -11,9 +16,11 @@ import type {
 } from './test-utils.test.js';
 import {
   testEasyDirective,
+  validationDirectionEnumTypeDefs,
   validationDirectivePolicyArgs,
 } from './test-utils.test.js';
 import ValidationError from './errors/ValidationError.js';
+import { ValidateDirectivePolicy } from './ValidateDirectiveVisitor.js';
 
 type RootValue = {
   arrayTest?: (string | null)[] | null;
@@ -61,8 +68,27 @@ testEasyDirective({
   The minimum string length (inclusive) to allow. If null, no lower limit is applied
   """
   min: Float = null
+  """How the string length is measured"""
+  unit: ${stringLengthDirectiveSchemaEnumName}! = ${DEFAULT_STRING_LENGTH_UNIT}
   ${validationDirectivePolicyArgs(capitalize(name))}
 )`,
+  expectedUnknownTypeDefs: `enum ${stringLengthDirectiveSchemaEnumName} {
+  """
+  UTF-16 code units, as JavaScript String.length. Emojis and some characters count as 2
+  """
+  ${StringLengthUnit.CODE_UNITS}
+  """
+  Unicode code points. Composed characters, such as flags, count as 2 or more
+  """
+  ${StringLengthUnit.CODE_POINTS}
+  """
+  Grapheme clusters, that is, the characters users see (uses Intl.Segmenter)
+  """
+  ${StringLengthUnit.GRAPHEMES}
+  """Bytes of the UTF-8 encoding, such as database column sizes"""
+  ${StringLengthUnit.UTF8_BYTES}
+}
+${validationDirectionEnumTypeDefs(capitalize(name))}`,
   name,
   testCases: [
     {
@@ -73,11 +99,15 @@ testEasyDirective({
         { rootValue: { test: 'a' } },
         { rootValue: { test: 'abc' } },
         {
-          expected: expectedValidationError('String Length is Less than 1'),
+          expected: expectedValidationError(
+            'String Length is Less than 1 code units',
+          ),
           rootValue: { test: '' },
         },
         {
-          expected: expectedValidationError('String Length is More than 3'),
+          expected: expectedValidationError(
+            'String Length is More than 3 code units',
+          ),
           rootValue: { test: 'abcd' },
         },
         { rootValue: { test: null } },
@@ -91,7 +121,9 @@ testEasyDirective({
         { rootValue: { test: 'a' } },
         { rootValue: { test: 'abc' } },
         {
-          expected: expectedValidationError('String Length is Less than 1'),
+          expected: expectedValidationError(
+            'String Length is Less than 1 code units',
+          ),
           rootValue: { test: '' },
         },
         { rootValue: { test: 'abcd' } },
@@ -107,7 +139,9 @@ testEasyDirective({
         { rootValue: { test: 'abc' } },
         { rootValue: { test: '' } },
         {
-          expected: expectedValidationError('String Length is More than 3'),
+          expected: expectedValidationError(
+            'String Length is More than 3 code units',
+          ),
           rootValue: { test: 'abcd' },
         },
         { rootValue: { test: null } },
@@ -141,6 +175,94 @@ testEasyDirective({
       directiveArgs: '(max: -1)',
       error: new RangeError('@stringLength(max) must be at least 0'),
     },
+    {
+      // "👍🏽" is 1 grapheme, 2 code points, 4 code units and 8 UTF-8 bytes
+      directiveArgs: '(max: 2)',
+      operation: '{ test }',
+      tests: [
+        {
+          expected: expectedValidationError(
+            'String Length is More than 2 code units',
+          ),
+          rootValue: { test: '👍🏽' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(max: 2, unit: ${StringLengthUnit.CODE_POINTS})`,
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: '👍🏽' } },
+        { rootValue: { test: 'ãé' } },
+        {
+          expected: expectedValidationError(
+            'String Length is More than 2 code points',
+          ),
+          rootValue: { test: '👍🏽!' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(min: 2, max: 3, unit: ${StringLengthUnit.GRAPHEMES})`,
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: '👍🏽👍🏽' } },
+        { rootValue: { test: '🇧🇷🇺🇸👨‍👩‍👧' } },
+        { rootValue: { test: 'e\u0301a' } },
+        {
+          expected: expectedValidationError(
+            'String Length is Less than 2 graphemes',
+          ),
+          rootValue: { test: '👨‍👩‍👧' },
+        },
+        {
+          expected: expectedValidationError(
+            'String Length is More than 3 graphemes',
+          ),
+          rootValue: { test: 'abcd' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(max: 8, unit: ${StringLengthUnit.UTF8_BYTES})`,
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: '👍🏽' } },
+        { rootValue: { test: 'aé€' } },
+        // lone surrogates are encoded as U+FFFD, that is 3 bytes
+        { rootValue: { test: '\ud800abcde' } },
+        {
+          expected: expectedValidationError(
+            'String Length is More than 8 UTF-8 bytes',
+          ),
+          rootValue: { test: '👍🏽a' },
+        },
+        {
+          expected: expectedValidationError(
+            'String Length is More than 8 UTF-8 bytes',
+          ),
+          rootValue: { test: '€€€' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(min: 3, unit: ${StringLengthUnit.UTF8_BYTES})`,
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: '€' } },
+        {
+          expected: expectedValidationError(
+            'String Length is Less than 3 UTF-8 bytes',
+          ),
+          rootValue: { test: 'é' },
+        },
+      ],
+    },
+    {
+      directiveArgs: `(unit: ${StringLengthUnit.GRAPHEMES})`,
+      operation: '{ test }',
+      tests: [{ rootValue: { test: 'anything' } }],
+    },
     {
       // arrays should work the same, just repeat for min+max
       directiveArgs: '(min: 1, max: 3)',
@@ -151,14 +273,14 @@ testEasyDirective({
         { rootValue: { arrayTest: ['abc'] } },
         {
           expected: expectedValidationError(
-            'String Length is Less than 1',
+            'String Length is Less than 1 code units',
             'arrayTest',
           ),
           rootValue: { arrayTest: [''] },
         },
         {
           expected: expectedValidationError(
-            'String Length is More than 3',
+            'String Length is More than 3 code units',
             'arrayTest',
           ),
           rootValue: { arrayTest: ['abcd'] },
@@ -169,3 +291,44 @@ testEasyDirective({
     },
   ],
 });
+
+describe('directive @stringLength error tests', (): void => {
+  it('throws if GRAPHEMES is used without Intl.Segmenter', (): void => {
+    const intl = Intl as { Segmenter?: unknown };
+    const { Segmenter } = intl;
+    delete intl.Segmenter;
+    try {
+      expect(() =>
+        createStringLengthDirectiveValidate({
+          max: 1,
+          min: null,
+          policy: ValidateDirectivePolicy.RESOLVER,
+          unit: StringLengthUnit.GRAPHEMES,
+        }),
+      ).toThrow(
+        new RangeError(
+          '@stringLength(unit: GRAPHEMES) requires Intl.Segmenter support',
+        ),
+      );
+    } finally {
+      intl.Segmenter = Segmenter;
+    }
+  });
+
+  // this should never happen due to schema validation, but is added to achieve 100% coverage
+  it('throws when "unit" is invalid', (): void => {
+    const invalidUnit = 'INVALID_UNIT' as StringLengthUnit;
+    expect(() =>
+      createStringLengthDirectiveValidate({
+        max: 1,
+        min: null,
+        policy: ValidateDirectivePolicy.RESOLVER,
+        unit: invalidUnit,
+      }),
+    ).toThrow(
+      new TypeError(
+        `The value ${invalidUnit} is not accepted by this argument`,
+      ),
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { GraphQLFloat } from 'graphql';
+import { GraphQLEnumType, GraphQLFloat, GraphQLNonNull } from 'graphql';
 
 import type {
   ValidateFunction,
@@ -6,16 +6,83 @@ import type {
 } from './ValidateDirectiveVisitor.js';
 import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
 import ValidationError from './errors/ValidationError.js';
+import neverAssertion from './utils/neverAssertion.js';
 
-const createValidateMinMax = (min: number, max: number): ValidateFunction => {
+export enum StringLengthUnit {
+  CODE_UNITS = 'CODE_UNITS',
+  CODE_POINTS = 'CODE_POINTS',
+  GRAPHEMES = 'GRAPHEMES',
+  UTF8_BYTES = 'UTF8_BYTES',
+}
+
+export const DEFAULT_STRING_LENGTH_UNIT = StringLengthUnit.CODE_UNITS;
+
+export const stringLengthDirectiveSchemaEnumName = 'StringLengthDirectiveUnit';
+
+type GetLength = (value: string) => number;
+
+// given after the number in error messages, ie: "More than 3 graphemes"
+const unitNames: Record<StringLengthUnit, string> = {
+  [StringLengthUnit.CODE_UNITS]: ' code units',
+  [StringLengthUnit.CODE_POINTS]: ' code points',
+  [StringLengthUnit.GRAPHEMES]: ' graphemes',
+  [StringLengthUnit.UTF8_BYTES]: ' UTF-8 bytes',
+};
+
+const getCodeUnitsLength: GetLength = (value: string): number => value.length;
+
+const getCodePointsLength: GetLength = (value: string): number =>
+  Array.from(value).length;
+
+const getUtf8BytesLength: GetLength = (value: string): number =>
+  Array.from(value).reduce((length, char) => {
+    const codePoint = char.codePointAt(0) as number;
+    if (codePoint < 0x80) return length + 1;
+    if (codePoint < 0x800) return length + 2;
+    // lone surrogates are encoded as U+FFFD, also 3 bytes
+    if (codePoint < 0x10000) return length + 3;
+    return length + 4;
+  }, 0);
+
+const createGetGraphemesLength = (): GetLength => {
+  if (typeof Intl.Segmenter !== 'function') {
+    throw new RangeError(
+      '@stringLength(unit: GRAPHEMES) requires Intl.Segmenter support',
+    );
+  }
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  return (value: string): number => Array.from(segmenter.segment(value)).length;
+};
+
+const createGetLength = (unit: StringLengthUnit): GetLength => {
+  switch (unit) {
+    case StringLengthUnit.CODE_UNITS:
+      return getCodeUnitsLength;
+    case StringLengthUnit.CODE_POINTS:
+      return getCodePointsLength;
+    case StringLengthUnit.GRAPHEMES:
+      return createGetGraphemesLength();
+    case StringLengthUnit.UTF8_BYTES:
+      return getUtf8BytesLength;
+    default:
+      return neverAssertion(unit);
+  }
+};
+
+const createValidateMinMax = (
+  min: number,
+  max: number,
+  getLength: GetLength,
+  unitName: string,
+): ValidateFunction => {
   if (min < 0) throw new RangeError('@stringLength(min) must be at least 0');
   if (max < min)
     throw new RangeError('@stringLength(max) must be at least equal to min');
-  const errorMessageMin = `String Length is Less than ${min}`;
-  const errorMessageMax = `String Length is More than ${max}`;
+  const errorMessageMin = `String Length is Less than ${min}${unitName}`;
+  const errorMessageMax = `String Length is More than ${max}${unitName}`;
   return (value: unknown): unknown => {
     if (typeof value === 'string') {
-      const { length } = value;
+      const length = getLength(value);
       if (length < min) throw new ValidationError(errorMessageMin);
       if (length > max) throw new ValidationError(errorMessageMax);
     }
@@ -23,23 +90,31 @@ const createValidateMinMax = (min: number, max: number): ValidateFunction => {
   };
 };
 
-const createValidateMin = (min: number): ValidateFunction => {
+const createValidateMin = (
+  min: number,
+  getLength: GetLength,
+  unitName: string,
+): ValidateFunction => {
   if (min < 0) throw new RangeError('@stringLength(min) must be at least 0');
-  const errorMessage = `String Length is Less than ${min}`;
+  const errorMessage = `String Length is Less than ${min}${unitName}`;
   return (value: unknown): unknown => {
     if (typeof value === 'string') {
-      if (value.length < min) throw new ValidationError(errorMessage);
+      if (getLength(value) < min) throw new ValidationError(errorMessage);
     }
     return value;
   };
 };
 
-const createValidateMax = (max: number): ValidateFunction => {
+const createValidateMax = (
+  max: number,
+  getLength: GetLength,
+  unitName: string,
+): ValidateFunction => {
   if (max < 0) throw new RangeError('@stringLength(max) must be at least 0');
-  const errorMessage = `String Length is More than ${max}`;
+  const errorMessage = `String Length is More than ${max}${unitName}`;
   return (value: unknown): unknown => {
     if (typeof value === 'string') {
-      if (value.length > max) throw new ValidationError(errorMessage);
+      if (getLength(value) > max) throw new ValidationError(errorMessage);
     }
     return value;
   };
@@ -48,17 +123,22 @@ const createValidateMax = (max: number): ValidateFunction => {
 type StringLengthDirectiveArgs = {
   min: number | null;
   max: number | null;
+  unit: StringLengthUnit;
 } & ValidationDirectiveArgs;
 
 // istanbul ignore next (args set by default to null)
-const createValidate = ({
+export const createValidate = ({
   min = null,
   max = null,
+  unit = DEFAULT_STRING_LENGTH_UNIT,
 }: StringLengthDirectiveArgs): ValidateFunction | undefined => {
-  if (min !== null && max !== null) return createValidateMinMax(min, max);
-  if (min !== null) return createValidateMin(min);
-  if (max !== null) return createValidateMax(max);
-  return undefined;
+  if (min === null && max === null) return undefined;
+  const getLength = createGetLength(unit);
+  const unitName = unitNames[unit];
+  if (min !== null && max !== null)
+    return createValidateMinMax(min, max, getLength, unitName);
+  if (min !== null) return createValidateMin(min, getLength, unitName);
+  return createValidateMax(max as number, getLength, unitName);
 };
 
 export default createValidateDirectiveVisitor({
@@ -78,6 +158,37 @@ export default createValidateDirectiveVisitor({
           'The minimum string length (inclusive) to allow. If null, no lower limit is applied',
         type: GraphQLFloat,
       },
+      unit: {
+        defaultValue: DEFAULT_STRING_LENGTH_UNIT,
+        description: 'How the string length is measured',
+        type: new GraphQLNonNull(
+          new GraphQLEnumType({
+            name: stringLengthDirectiveSchemaEnumName,
+            values: {
+              [StringLengthUnit.CODE_UNITS]: {
+                description:
+                  'UTF-16 code units, as JavaScript String.length. Emojis and some characters count as 2',
+                value: StringLengthUnit.CODE_UNITS,
+              },
+              [StringLengthUnit.CODE_POINTS]: {
+                description:
+                  'Unicode code points. Composed characters, such as flags, count as 2 or more',
+                value: StringLengthUnit.CODE_POINTS,
+              },
+              [StringLengthUnit.GRAPHEMES]: {
+                description:
+                  'Grapheme clusters, that is, the characters users see (uses Intl.Segmenter)',
+                value: StringLengthUnit.GRAPHEMES,
+              },
+              [StringLengthUnit.UTF8_BYTES]: {
+                description:
+                  'Bytes of the UTF-8 encoding, such as database column sizes',
+                value: StringLengthUnit.UTF8_BYTES,
+              },
+            },
+          }),
+        ),
+      },
     },
     description:
       'Ensures string length is within boundaries. If used on lists, applies to every item.',
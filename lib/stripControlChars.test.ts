@@ -0,0 +1,94 @@
+import type { GraphQLSchema } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import StripControlChars from './stripControlChars.js';
+import capitalize from './capitalize.js';
+
+import type { CreateSchemaConfig } from './test-utils.test.js';
+import {
+  testEasyDirective,
+  validationDirectivePolicyArgs,
+} from './test-utils.test.js';
+
+type RootValue = {
+  arrayTest?: (string | null)[] | null;
+  test?: string | null;
+};
+
+const directiveName = 'stripControlChars';
+
+const createSchema = ({
+  name,
+  testCase: { directiveArgs },
+}: CreateSchemaConfig<RootValue>): GraphQLSchema =>
+  new StripControlChars().applyToSchema(
+    makeExecutableSchema({
+      typeDefs: [
+        ...StripControlChars.getTypeDefs(name, undefined, true, true),
+        gql`
+                type Query {
+                  test: String @${name}${directiveArgs}
+                  arrayTest: [String] @${name}${directiveArgs}
+                }
+              `,
+      ],
+    }),
+  );
+
+testEasyDirective({
+  createSchema,
+  DirectiveVisitor: StripControlChars,
+  expectedArgsTypeDefs: `\
+(
+  ${validationDirectivePolicyArgs(capitalize(directiveName))}
+)`,
+  name: directiveName,
+  testCases: [
+    {
+      directiveArgs: '',
+      operation: '{ test }',
+      tests: [
+        { rootValue: { test: 'tab\tand\r\nnew lines are kept' } },
+        {
+          expected: { data: { test: 'admin' } },
+          rootValue: { test: 'ad\u200bmin\u200c\u200d\u2060\ufeff' },
+        },
+        {
+          expected: { data: { test: 'admin' } },
+          rootValue: {
+            test: 'a\u00addm\u034fi\u2061n\u2062\u2063\u2064',
+          },
+        },
+        {
+          // right-to-left override makes "exe.txt" look like "txt.exe"
+          expected: { data: { test: 'invoiceexe.txt' } },
+          rootValue: { test: 'invoice\u202eexe.txt\u202c' },
+        },
+        {
+          expected: { data: { test: 'abc' } },
+          rootValue: {
+            test: '\u2066a\u2069\u200eb\u200f\u061cc\u180e',
+          },
+        },
+        {
+          expected: { data: { test: 'nullbellescapedel' } },
+          rootValue: {
+            test: 'null\u0000bell\u0007escape\u001bdel\u007f\u0085',
+          },
+        },
+        { rootValue: { test: null } },
+      ],
+    },
+    {
+      directiveArgs: '',
+      operation: '{ arrayTest }',
+      tests: [
+        {
+          expected: { data: { arrayTest: ['ab', null] } },
+          rootValue: { arrayTest: ['a\u200bb', null] },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,29 @@
+import type { ValidateFunction } from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import createPatternHandler from './patternCommon.js';
+
+// - C0 and C1 control characters, except tab, line feed and carriage return;
+// - zero-width characters: U+180E, U+200B to U+200D, U+2060 and U+FEFF (BOM);
+// - other invisible characters: U+00AD (soft hyphen), U+034F (combining
+//   grapheme joiner) and U+2061 to U+2064 (invisible math operators);
+// - bidi marks, embeddings, overrides and isolates: U+061C, U+200E,
+//   U+200F, U+202A to U+202E and U+2066 to U+2069.
+const controlCharsRegExp =
+  // U+034F is a combining mark, it's matched alone on purpose
+  // eslint-disable-next-line no-control-regex, no-misleading-character-class
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u00AD\u034F\u061C\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/gu;
+
+const stripControlCharsHandler = createPatternHandler((value: string): string =>
+  value.replace(controlCharsRegExp, ''),
+);
+
+export const createValidate = (): ValidateFunction => stripControlCharsHandler;
+
+export default createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'stripControlChars',
+  directiveConfig: {
+    description:
+      'removes invisible characters from a string: control characters (but tab and new lines), zero-width characters and bidi overrides',
+  },
+});
@@ -0,0 +1,271 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+import { graphql } from 'graphql';
+import { gql } from 'graphql-tag';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+
+import print from './utils/printer.js';
+import {
+  validationDirectivePolicyArgs,
+  validationDirectionEnumTypeDefs,
+} from './test-utils.test.js';
+import UniqueItems from './uniqueItems.js';
+import capitalize from './capitalize.js';
+import type ValidationError from './errors/ValidationError.js';
+
+interface ValidationErrorsResolverInfo extends GraphQLResolveInfo {
+  validationErrors?: ValidationError[];
+}
+
+describe('@uniqueItems()', (): void => {
+  const name = 'uniqueItems';
+  const directiveTypeDefs = UniqueItems.getTypeDefs(name);
+  const capitalizedName = capitalize(name);
+
+  it('exports correct typeDefs', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual([
+      `\
+"""Ensures list items are unique. Null items (or keys) are ignored."""
+directive @${name}(
+  """
+  The key path (ie: "id" or "author.id") to compare the items. If null, the whole items are compared (deep equality)
+  """
+  by: String = null
+  """
+  Instead of failing, removes the duplicated items (keeps the first occurrence)
+  """
+  dedupe: Boolean! = false
+  ${validationDirectivePolicyArgs(capitalizedName)}
+) on ARGUMENT_DEFINITION | FIELD_DEFINITION | INPUT_FIELD_DEFINITION | INPUT_OBJECT | OBJECT
+`,
+      `\
+${validationDirectionEnumTypeDefs(capitalizedName)}
+`,
+    ]);
+  });
+
+  it('defaultName is correct', (): void => {
+    expect(directiveTypeDefs.map(print)).toEqual(
+      UniqueItems.getTypeDefs().map(print),
+    );
+  });
+
+  const resolve = (
+    _: unknown,
+    { arg }: { arg: unknown },
+    __: unknown,
+    { validationErrors }: ValidationErrorsResolverInfo,
+  ): object => ({
+    arg: JSON.stringify(arg),
+    validationErrors,
+  });
+
+  const createSchema = (directiveArgs = ''): GraphQLSchema =>
+    new UniqueItems().applyToSchema(
+      makeExecutableSchema({
+        resolvers: {
+          Query: {
+            input: resolve,
+            test: resolve,
+          },
+        },
+        typeDefs: [
+          ...directiveTypeDefs,
+          ...UniqueItems.getMissingCommonTypeDefs(),
+          gql`
+            input Author {
+              id: ID
+            }
+            input Book {
+              id: ID
+              author: Author
+            }
+            input Library {
+              books: [Book] @${name}${directiveArgs}
+            }
+            type AuthorOutput {
+              id: ID
+            }
+            type BookOutput {
+              id: ID
+              author: AuthorOutput
+            }
+            type Result {
+              arg: String
+              validationErrors: [ValidatedInputErrorOutput!]
+            }
+            type Query {
+              test(arg: [Book] @${name}${directiveArgs}): Result
+              input(arg: Library): Result
+              output: [BookOutput] @${name}${directiveArgs}
+            }
+          `,
+        ],
+      }),
+    );
+
+  const doTest = async (
+    schema: GraphQLSchema,
+    books: string,
+  ): Promise<unknown> =>
+    graphql({
+      schema,
+      source: print(gql`
+        query {
+          test(arg: ${books}) {
+            arg
+            validationErrors {
+              message
+              path
+            }
+          }
+        }
+      `),
+    });
+
+  it('accepts unique items', async (): Promise<void> => {
+    expect(
+      await doTest(
+        createSchema(),
+        '[{ id: 1, author: { id: 1 } }, { id: 1, author: { id: 2 } }, null]',
+      ),
+    ).toEqual({
+      data: {
+        test: {
+          arg: '[{"id":"1","author":{"id":"1"}},{"id":"1","author":{"id":"2"}},null]',
+          validationErrors: null,
+        },
+      },
+    });
+  });
+
+  it('rejects deep equal items at the duplicated index', async (): Promise<void> => {
+    expect(
+      await doTest(
+        createSchema(),
+        '[{ id: 1, author: { id: 1 } }, { id: 2 }, { id: 1, author: { id: 1 } }]',
+      ),
+    ).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [
+            {
+              message: 'Duplicated item, same as index 0',
+              path: ['arg', '2'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('compares by key path, ignoring missing keys', async (): Promise<void> => {
+    const schema = createSchema('(by: "author.id")');
+    expect(
+      await doTest(
+        schema,
+        '[{ id: 1 }, { id: 2, author: { id: 1 } }, { id: 3 }, null, { id: 4, author: { id: 2 } }]',
+      ),
+    ).toEqual({
+      data: {
+        test: {
+          arg: '[{"id":"1"},{"id":"2","author":{"id":"1"}},{"id":"3"},null,{"id":"4","author":{"id":"2"}}]',
+          validationErrors: null,
+        },
+      },
+    });
+    expect(
+      await doTest(
+        schema,
+        '[{ id: 1, author: { id: 1 } }, { id: 2, author: { id: 2 } }, { id: 3, author: { id: 1 } }]',
+      ),
+    ).toEqual({
+      data: {
+        test: {
+          arg: 'null',
+          validationErrors: [
+            {
+              message: 'Duplicated author.id, same as index 0',
+              path: ['arg', '2'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('dedupes instead of rejecting', async (): Promise<void> => {
+    const schema = createSchema('(by: "id", dedupe: true)');
+    expect(
+      await doTest(schema, '[{ id: 1 }, { id: 2 }, { id: 1 }, { id: 2 }]'),
+    ).toEqual({
+      data: {
+        test: { arg: '[{"id":"1"},{"id":"2"}]', validationErrors: null },
+      },
+    });
+    expect(await doTest(schema, '[{ id: 1 }, { id: 2 }]')).toEqual({
+      data: {
+        test: { arg: '[{"id":"1"},{"id":"2"}]', validationErrors: null },
+      },
+    });
+  });
+
+  it('works on input fields', async (): Promise<void> => {
+    expect(
+      await graphql({
+        schema: createSchema('(by: "id")'),
+        source: print(gql`
+          query {
+            input(arg: { books: [{ id: 1 }, { id: 2 }, { id: 2 }] }) {
+              arg
+              validationErrors {
+                message
+                path
+              }
+            }
+          }
+        `),
+      }),
+    ).toEqual({
+      data: {
+        input: {
+          arg: '{"books":null}',
+          validationErrors: [
+            {
+              message: 'Duplicated id, same as index 1',
+              path: ['arg', 'books', '2'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('works on output', async (): Promise<void> => {
+    const source = '{ output { id } }';
+    const rootValue = { output: [{ id: 1 }, { id: 2 }, { id: 1 }] };
+    expect(
+      await graphql({
+        rootValue,
+        schema: createSchema('(by: "id", dedupe: true)'),
+        source,
+      }),
+    ).toEqual({ data: { output: [{ id: '1' }, { id: '2' }] } });
+    expect(
+      await graphql({ rootValue, schema: createSchema('(by: "id")'), source }),
+    ).toMatchObject({
+      data: { output: null },
+      errors: [{ message: 'Duplicated id, same as index 0' }],
+    });
+  });
+
+  it('ignores non-list values', async (): Promise<void> => {
+    expect(
+      await graphql({
+        rootValue: { output: null },
+        schema: createSchema(),
+        source: '{ output { id } }',
+      }),
+    ).toEqual({ data: { output: null } });
+  });
+});
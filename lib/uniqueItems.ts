@@ -0,0 +1,68 @@
+import { GraphQLBoolean, GraphQLNonNull } from 'graphql';
+
+import type {
+  ValidateFunction,
+  ValidationDirectiveArgs,
+} from './ValidateDirectiveVisitor.js';
+import createValidateDirectiveVisitor from './createValidateDirectiveVisitor.js';
+import InputFieldValidationError from './errors/InputFieldValidationError.js';
+import type { DistinctItemsDirectiveArgs } from './distinctItemsCommon.js';
+import {
+  createGetItemKey,
+  defaultArgs,
+  getFirstOccurrences,
+} from './distinctItemsCommon.js';
+
+type UniqueItemsDirectiveArgs = DistinctItemsDirectiveArgs & {
+  dedupe: boolean;
+} & ValidationDirectiveArgs;
+
+const createValidate = ({
+  by,
+  dedupe,
+}: UniqueItemsDirectiveArgs): ValidateFunction => {
+  const getItemKey = createGetItemKey(by);
+  const errorMessagePrefix = by ? `Duplicated ${by}` : 'Duplicated item';
+  return (value: unknown): unknown => {
+    if (!Array.isArray(value)) return value;
+    const firstOccurrences = getFirstOccurrences(value, getItemKey);
+    const isDuplicate = (index: number): boolean => {
+      const first = firstOccurrences[index];
+      return first !== undefined && first !== index;
+    };
+    if (dedupe) {
+      return value.some((_, index) => isDuplicate(index))
+        ? value.filter((_, index) => !isDuplicate(index))
+        : value;
+    }
+    const index = value.findIndex((_, i) => isDuplicate(i));
+    if (index >= 0) {
+      throw new InputFieldValidationError(
+        `${errorMessagePrefix}, same as index ${firstOccurrences[index]}`,
+        index.toString(),
+      );
+    }
+    return value;
+  };
+};
+
+const Visitor = createValidateDirectiveVisitor({
+  createValidate,
+  defaultName: 'uniqueItems',
+  directiveConfig: {
+    args: {
+      ...defaultArgs,
+      dedupe: {
+        defaultValue: false,
+        description:
+          'Instead of failing, removes the duplicated items (keeps the first occurrence)',
+        type: new GraphQLNonNull(GraphQLBoolean),
+      },
+    },
+    description:
+      'Ensures list items are unique. Null items (or keys) are ignored.',
+  },
+  isValidateArrayOrValue: false,
+});
+
+export default Visitor;
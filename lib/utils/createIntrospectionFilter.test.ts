@@ -0,0 +1,288 @@
+import type { GraphQLSchema } from 'graphql';
+import { graphql, isIntrospectionType } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { gql } from 'graphql-tag';
+
+import AuthDirective from '../auth.js';
+import HasPermissionsDirective from '../hasPermissions.js';
+import PublicDirective from '../public.js';
+import applyDirectivesToSchema from './applyDirectivesToSchema.js';
+import createIntrospectionFilter from './createIntrospectionFilter.js';
+
+const directivesTypeDefs = [
+  ...AuthDirective.getTypeDefs(),
+  ...HasPermissionsDirective.getTypeDefs(),
+  ...PublicDirective.getTypeDefs(),
+];
+
+// type name => its field names, as seen by introspection
+const getIntrospectedFields = async (
+  schema: GraphQLSchema,
+): Promise<Record<string, string[]>> => {
+  const { data, errors } = await graphql({
+    schema,
+    source: '{ schema: __schema { types { name fields { name } } } }',
+  });
+  expect(errors).toBeUndefined();
+  const { types } = (
+    data as {
+      schema: { types: { name: string; fields: { name: string }[] }[] };
+    }
+  ).schema;
+  return Object.fromEntries(
+    types
+      .filter(
+        ({ fields, name }) =>
+          fields && !isIntrospectionType(schema.getType(name)!),
+      )
+      .map(({ fields, name }) => [name, fields.map(field => field.name)]),
+  );
+};
+
+describe('createIntrospectionFilter()', (): void => {
+  const schema = applyDirectivesToSchema(
+    [AuthDirective, HasPermissionsDirective],
+    makeExecutableSchema({
+      typeDefs: [
+        ...directivesTypeDefs,
+        gql`
+          interface Node {
+            id: ID!
+            audit: String @hasPermissions(permissions: ["audit"])
+          }
+          type Post implements Node {
+            id: ID!
+            audit: String @hasPermissions(permissions: ["audit"])
+            title: String
+            draft: String @auth
+            stats: String @hasPermissions(expression: "admin | stats:read")
+            project: String
+              @hasPermissions(permissions: ["project:{source.projectId}"])
+            history: String
+              @hasPermissions(permissions: ["history"], policy: RESOLVER)
+          }
+          type Secret @auth {
+            value: String
+          }
+          type AdminSecret {
+            value: String
+          }
+          type Query {
+            posts: [Post]
+            secret: Secret
+            me: String @auth
+            adminSecret: AdminSecret @hasPermissions(permissions: ["admin"])
+          }
+          type Mutation {
+            deletePost(id: ID!): Boolean @hasPermissions(permissions: ["admin"])
+          }
+        `,
+      ],
+    }),
+  );
+  const filterIntrospection = createIntrospectionFilter(schema);
+  const createContext = (
+    isAuthenticated: boolean,
+    grantedPermissions: string[],
+  ): object => ({
+    ...AuthDirective.createDirectiveContext({ isAuthenticated }),
+    ...HasPermissionsDirective.createDirectiveContext({ grantedPermissions }),
+  });
+
+  it('hides the inaccessible fields', async (): Promise<void> => {
+    const filtered = filterIntrospection(createContext(false, []));
+    // types without accessible fields are removed, as the fields using them
+    expect(await getIntrospectedFields(filtered)).toEqual({
+      Node: ['id'],
+      Post: ['id', 'title', 'project', 'history'],
+      Query: ['posts'],
+    });
+  });
+
+  it('shows the fields accessible with the context', async (): Promise<void> => {
+    const filtered = filterIntrospection(
+      createContext(true, ['audit', 'stats:read']),
+    );
+    expect(await getIntrospectedFields(filtered)).toEqual({
+      Node: ['id', 'audit'],
+      Post: ['id', 'audit', 'title', 'draft', 'stats', 'project', 'history'],
+      Query: ['posts', 'secret', 'me'],
+      Secret: ['value'],
+    });
+  });
+
+  it('shows all the fields with all the permissions', async (): Promise<void> => {
+    const filtered = filterIntrospection(
+      createContext(true, ['admin', 'audit']),
+    );
+    expect(await getIntrospectedFields(filtered)).toEqual(
+      await getIntrospectedFields(schema),
+    );
+  });
+
+  it('hides the types only used by the inaccessible fields', async (): Promise<void> => {
+    const source = `{
+      type: __type(name: "AdminSecret") { name }
+      schema: __schema { types { name } }
+    }`;
+    const getIntrospectedTypes = async (
+      grantedPermissions: string[],
+    ): Promise<{ names: string[]; type: unknown }> => {
+      const { data, errors } = await graphql({
+        schema: filterIntrospection(createContext(true, grantedPermissions)),
+        source,
+      });
+      expect(errors).toBeUndefined();
+      const { schema: introspected, type } = data as {
+        schema: { types: { name: string }[] };
+        type: unknown;
+      };
+      return { names: introspected.types.map(({ name }) => name), type };
+    };
+    const hidden = await getIntrospectedTypes([]);
+    expect(hidden.type).toBeNull();
+    expect(hidden.names).not.toContain('AdminSecret');
+    const shown = await getIntrospectedTypes(['admin']);
+    expect(shown.type).toEqual({ name: 'AdminSecret' });
+    expect(shown.names).toContain('AdminSecret');
+  });
+
+  it('caches per authentication and granted permissions', (): void => {
+    const filtered = filterIntrospection(createContext(true, ['audit']));
+    // unused permissions do not matter
+    expect(filterIntrospection(createContext(true, ['audit', 'unused']))).toBe(
+      filtered,
+    );
+    expect(filterIntrospection(createContext(false, ['audit']))).not.toBe(
+      filtered,
+    );
+    expect(filterIntrospection(createContext(true, []))).not.toBe(filtered);
+  });
+
+  it('uses the context functions without resolver arguments', async (): Promise<void> => {
+    const isAuthenticated = jest.fn().mockReturnValue(true);
+    // empty list is also fulfilled
+    const checkMissingPermissions = jest.fn(
+      (permissions: string[]): string[] =>
+        permissions[0] === 'admin' ? ['admin'] : [],
+    );
+    const context = { checkMissingPermissions, isAuthenticated };
+    const filtered = createIntrospectionFilter(schema)(context);
+    expect(isAuthenticated).toHaveBeenCalledWith(undefined, {}, context, {});
+    expect(checkMissingPermissions).toHaveBeenCalledWith(
+      ['admin'],
+      '["admin"]',
+      undefined,
+      {},
+      context,
+      {},
+    );
+    // once per permission used by the schema: admin, audit and stats:read
+    expect(checkMissingPermissions).toHaveBeenCalledTimes(3);
+    expect((await getIntrospectedFields(filtered)).Mutation).toBeUndefined();
+    expect((await getIntrospectedFields(filtered)).Post).toContain('stats');
+  });
+
+  it('hides everything protected without context functions', async (): Promise<void> => {
+    const filtered = filterIntrospection({});
+    expect(await getIntrospectedFields(filtered)).toEqual(
+      await getIntrospectedFields(
+        filterIntrospection(createContext(false, [])),
+      ),
+    );
+  });
+
+  it('does not check authentication if unused', (): void => {
+    const isAuthenticated = jest.fn().mockReturnValue(false);
+    const plainSchema = makeExecutableSchema({
+      typeDefs: gql`
+        type Query {
+          version: String
+        }
+      `,
+    });
+    createIntrospectionFilter(plainSchema)({ isAuthenticated });
+    expect(isAuthenticated).not.toHaveBeenCalled();
+  });
+
+  describe('requires authentication by default on the schema', (): void => {
+    const createSchema = (schemaDirective: string): GraphQLSchema =>
+      makeExecutableSchema({
+        typeDefs: [
+          ...directivesTypeDefs,
+          gql`
+            schema ${schemaDirective} {
+              query: Query
+              mutation: Mutation
+            }
+            type Query {
+              me: String
+              version: String @public
+            }
+            type Mutation {
+              logout: Boolean
+            }
+          `,
+        ],
+      });
+    const anonymous = AuthDirective.createDirectiveContext({
+      isAuthenticated: false,
+    });
+
+    it('hides the root fields not marked with @public', async (): Promise<void> => {
+      const filtered = createIntrospectionFilter(createSchema('@auth'))(
+        anonymous,
+      );
+      expect(await getIntrospectedFields(filtered)).toEqual({
+        Query: ['version'],
+      });
+    });
+
+    it('may be enabled by requireAuthentication option', async (): Promise<void> => {
+      const filtered = createIntrospectionFilter(createSchema(''), {
+        requireAuthentication: true,
+      })(anonymous);
+      expect(await getIntrospectedFields(filtered)).toEqual({
+        Query: ['version'],
+      });
+    });
+
+    it('may be disabled by requireAuthentication option', async (): Promise<void> => {
+      const filtered = createIntrospectionFilter(createSchema('@auth'), {
+        requireAuthentication: false,
+      })(anonymous);
+      expect(await getIntrospectedFields(filtered)).toEqual({
+        Mutation: ['logout'],
+        Query: ['me', 'version'],
+      });
+    });
+  });
+
+  it('uses the given directives names', async (): Promise<void> => {
+    const renamedSchema = makeExecutableSchema({
+      typeDefs: [
+        ...AuthDirective.getTypeDefs('authenticated'),
+        ...HasPermissionsDirective.getTypeDefs('can'),
+        ...PublicDirective.getTypeDefs('anonymous'),
+        gql`
+          schema @authenticated {
+            query: Query
+          }
+          type Query {
+            me: String
+            version: String @anonymous
+            stats: String @anonymous @can(permissions: ["stats"])
+          }
+        `,
+      ],
+    });
+    const filtered = createIntrospectionFilter(renamedSchema, {
+      authDirectiveName: 'authenticated',
+      hasPermissionsDirectiveName: 'can',
+      publicDirectiveName: 'anonymous',
+    })(createContext(false, []));
+    expect(await getIntrospectedFields(filtered)).toEqual({
+      Query: ['version'],
+    });
+  });
+});
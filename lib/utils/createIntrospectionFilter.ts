@@ -0,0 +1,267 @@
+import type {
+  GraphQLField,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLResolveInfo,
+} from 'graphql';
+import { GraphQLSchema, isInterfaceType, isObjectType } from 'graphql';
+import { filterSchema, getDirective, pruneSchema } from '@graphql-tools/utils';
+
+import type { AuthApplyToSchemaOptions, AuthContext } from '../auth.js';
+import AuthDirectiveVisitor from '../auth.js';
+import type { HasPermissionsContext } from '../hasPermissions.js';
+import HasPermissionsDirectiveVisitor, {
+  getPermissionsCacheKey,
+} from '../hasPermissions.js';
+import type { PermissionsExpression } from '../permissionsExpression.js';
+import {
+  filterMissingPermissionsExpression,
+  getPermissionsExpressionLeaves,
+  parsePermissionsExpression,
+} from '../permissionsExpression.js';
+import { compilePermissionTemplate } from '../permissionsTemplate.js';
+import PublicDirectiveVisitor from '../public.js';
+import { ValidateDirectivePolicy } from '../ValidateDirectiveVisitor.js';
+
+export type IntrospectionFilterContext = Partial<
+  AuthContext & HasPermissionsContext
+>;
+
+export type IntrospectionFilterOptions = AuthApplyToSchemaOptions & {
+  // the names given to the directives, if not the default ones
+  authDirectiveName?: string;
+  hasPermissionsDirectiveName?: string;
+  publicDirectiveName?: string;
+};
+
+type DirectiveNames = Required<
+  Omit<IntrospectionFilterOptions, keyof AuthApplyToSchemaOptions>
+>;
+
+export type IntrospectionFilter = (
+  context: IntrospectionFilterContext,
+) => GraphQLSchema;
+
+type FieldRequirements = {
+  requiresAuthentication: boolean;
+  permissions: string[];
+  expressions: PermissionsExpression[];
+};
+
+type DirectableNode =
+  | GraphQLField<unknown, unknown>
+  | GraphQLInterfaceType
+  | GraphQLObjectType
+  | GraphQLSchema;
+
+const hasDirective = (
+  schema: GraphQLSchema,
+  node: DirectableNode,
+  directiveName: string,
+): boolean => !!getDirective(schema, node, directiveName)?.length;
+
+const isTemplate = (permission: string): boolean =>
+  compilePermissionTemplate(permission) !== null;
+
+// templates depend on the resolver arguments and source, then they
+// can't be checked without executing the field. Those are kept visible,
+// as well as the fields handling the missing permissions themselves
+// (RESOLVER policy)
+const addPermissionsRequirements = (
+  requirements: FieldRequirements,
+  schema: GraphQLSchema,
+  node: DirectableNode,
+  hasPermissionsName: string,
+): void => {
+  const [directive] = getDirective(schema, node, hasPermissionsName) ?? [];
+  if (!directive || directive.policy === ValidateDirectivePolicy.RESOLVER) {
+    return;
+  }
+  const { expression, permissions } = directive as {
+    expression?: string;
+    permissions: string[];
+  };
+  permissions
+    .filter(permission => !isTemplate(permission))
+    .forEach(permission => requirements.permissions.push(permission));
+  if (expression) {
+    const parsed = parsePermissionsExpression(expression);
+    if (!getPermissionsExpressionLeaves(parsed).some(isTemplate)) {
+      requirements.expressions.push(parsed);
+    }
+  }
+};
+
+// ie: "Query.me" => requirements, only fields with any requirement
+const getRequirementsByField = (
+  schema: GraphQLSchema,
+  requireAuthentication: boolean,
+  {
+    authDirectiveName: authName,
+    hasPermissionsDirectiveName: hasPermissionsName,
+    publicDirectiveName: publicName,
+  }: DirectiveNames,
+): Map<string, FieldRequirements> => {
+  const rootTypes = [
+    schema.getQueryType(),
+    schema.getMutationType(),
+    schema.getSubscriptionType(),
+  ];
+  const requirementsByField = new Map<string, FieldRequirements>();
+  Object.values(schema.getTypeMap()).forEach(type => {
+    if (!isObjectType(type) && !isInterfaceType(type)) return;
+    const isRootType = isObjectType(type) && rootTypes.includes(type);
+    Object.values(type.getFields()).forEach(field => {
+      const requirements: FieldRequirements = {
+        expressions: [],
+        permissions: [],
+        requiresAuthentication:
+          hasDirective(schema, type, authName) ||
+          hasDirective(schema, field, authName) ||
+          (isRootType &&
+            requireAuthentication &&
+            !hasDirective(schema, field, publicName)),
+      };
+      addPermissionsRequirements(
+        requirements,
+        schema,
+        type,
+        hasPermissionsName,
+      );
+      addPermissionsRequirements(
+        requirements,
+        schema,
+        field,
+        hasPermissionsName,
+      );
+      if (
+        requirements.requiresAuthentication ||
+        requirements.permissions.length > 0 ||
+        requirements.expressions.length > 0
+      ) {
+        requirementsByField.set(`${type.name}.${field.name}`, requirements);
+      }
+    });
+  });
+  return requirementsByField;
+};
+
+/*
+  Creates a function returning the schema with only the fields the
+  given context can access, to be used to execute introspection queries
+  (`__schema` and `__type`), so the inaccessible fields are not exposed.
+  Types left without fields or only used by the inaccessible fields are
+  removed as well.
+
+  It uses the same `@auth` and `@hasPermissions` directives and context
+  functions, these are called without resolver source, arguments and
+  info. The filtered schemas are cached per authentication and granted
+  permissions (among those used by the schema), then they are not
+  recomputed per request. The directives names may be given as options
+  if the defaults are not used.
+
+  The filtered schema is not validated, as the root types may end
+  without fields. Do not use it to execute other queries.
+*/
+const createIntrospectionFilter = (
+  schema: GraphQLSchema,
+  {
+    requireAuthentication,
+    authDirectiveName = AuthDirectiveVisitor.defaultName,
+    hasPermissionsDirectiveName = HasPermissionsDirectiveVisitor.defaultName,
+    publicDirectiveName = PublicDirectiveVisitor.defaultName,
+  }: IntrospectionFilterOptions = {},
+): IntrospectionFilter => {
+  const requirementsByField = getRequirementsByField(
+    schema,
+    requireAuthentication ?? hasDirective(schema, schema, authDirectiveName),
+    { authDirectiveName, hasPermissionsDirectiveName, publicDirectiveName },
+  );
+  const allRequirements = Array.from(requirementsByField.values());
+  const usesAuthentication = allRequirements.some(
+    requirements => requirements.requiresAuthentication,
+  );
+  const usedPermissions = Array.from(
+    new Set(
+      allRequirements.flatMap(({ expressions, permissions }) =>
+        permissions.concat(expressions.flatMap(getPermissionsExpressionLeaves)),
+      ),
+    ),
+  ).sort();
+  const rootTypes = {
+    Mutation: schema.getMutationType(),
+    Query: schema.getQueryType(),
+    Subscription: schema.getSubscriptionType(),
+  };
+  const filteredSchemas = new Map<string, GraphQLSchema>();
+
+  const createFilteredSchema = (
+    isAuthenticated: boolean,
+    grantedPermissions: string[],
+  ): GraphQLSchema => {
+    const granted = new Set(grantedPermissions);
+    const isPermissionMissing = (permission: string): boolean =>
+      !granted.has(permission);
+    const isAccessible = (typeName: string, fieldName: string): boolean => {
+      const requirements = requirementsByField.get(`${typeName}.${fieldName}`);
+      if (!requirements) return true;
+      return (
+        (isAuthenticated || !requirements.requiresAuthentication) &&
+        !requirements.permissions.some(isPermissionMissing) &&
+        requirements.expressions.every(
+          expression =>
+            !filterMissingPermissionsExpression(
+              expression,
+              isPermissionMissing,
+            ),
+        )
+      );
+    };
+    const filtered = filterSchema({
+      interfaceFieldFilter: isAccessible,
+      objectFieldFilter: isAccessible,
+      rootFieldFilter: (operation, fieldName): boolean =>
+        isAccessible(
+          (rootTypes[operation] as GraphQLObjectType).name,
+          fieldName,
+        ),
+      schema,
+    });
+    // types only reachable through the hidden fields must not be
+    // exposed by __type(name) and __schema.types either
+    return new GraphQLSchema({
+      ...pruneSchema(filtered).toConfig(),
+      assumeValid: true,
+    });
+  };
+
+  return (context: IntrospectionFilterContext): GraphQLSchema => {
+    const { checkMissingPermissions, isAuthenticated } = context;
+    const authenticated =
+      !usesAuthentication ||
+      (!!isAuthenticated &&
+        isAuthenticated(undefined, {}, context, {} as GraphQLResolveInfo));
+    const grantedPermissions = checkMissingPermissions
+      ? usedPermissions.filter(permission => {
+          const missing = checkMissingPermissions(
+            [permission],
+            getPermissionsCacheKey([permission]),
+            undefined,
+            {},
+            context,
+            {} as GraphQLResolveInfo,
+          );
+          return !missing || missing.length === 0;
+        })
+      : [];
+    const cacheKey = JSON.stringify([authenticated, grantedPermissions]);
+    let filtered = filteredSchemas.get(cacheKey);
+    if (!filtered) {
+      filtered = createFilteredSchema(authenticated, grantedPermissions);
+      filteredSchemas.set(cacheKey, filtered);
+    }
+    return filtered;
+  };
+};
+
+export default createIntrospectionFilter;
@@ -0,0 +1,4 @@
+// input values are considered provided if not null nor omitted
+const isPresent = (value: unknown): boolean =>
+  value !== undefined && value !== null;
+export default isPresent;
@@ -222,6 +222,25 @@ describe('validateArrayOrValue', (): void => {
     );
   });
 
+  it('works with asynchronous validation', async (): Promise<void> => {
+    mockValidate.mockImplementation(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (x: any): any => Promise.resolve(x * 2),
+    );
+    const result = validateArrayOrValue(mockValidate)(
+      array,
+      GraphQLIntList,
+      container,
+      context,
+      resolverInfo,
+      resolverSource,
+      resolverArguments,
+    );
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toEqual(array.map(item => item * 2));
+    expect(mockValidate).toBeCalledTimes(array.length);
+  });
+
   it('works without validate function', (): void => {
     expect(validateArrayOrValue(undefined)).toBe(undefined);
   });
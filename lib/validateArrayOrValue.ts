@@ -42,7 +42,11 @@ function validateArrayOrValue<TContext = object>(
   ): unknown => {
     if (Array.isArray(value)) {
       const itemType = getListItemType(type);
-      return value.map(item => validate(item, itemType, ...rest));
+      const validated = value.map(item => validate(item, itemType, ...rest));
+      // only become asynchronous if some item validation is asynchronous
+      return validated.some(item => item instanceof Promise)
+        ? Promise.all(validated)
+        : validated;
     }
     return valueValidator(value, type, ...rest);
   };